@@ -0,0 +1,13 @@
+import { deferredDeepLinkPath, parseDeepLink } from '@/utils/deep-links';
+
+/**
+ * Rewrites incoming snookiq:// links before the router sees them
+ *
+ * Chat and profile links go through /link, which waits for the signed-in
+ * session (on a cold start it is still being restored). Other paths are
+ * left to the router.
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  const link = parseDeepLink(path);
+  return link ? deferredDeepLinkPath(link) : path;
+}
\ No newline at end of file
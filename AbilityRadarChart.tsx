@@ -0,0 +1,205 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import Svg, { Circle, Line, Polygon, Text as SvgText } from 'react-native-svg';
+import { Ability } from '@/types';
+import { ABILITY_MAX } from '@/utils/ability-suggestions';
+import colors from '@/constants/colors';
+
+interface AbilityRadarChartProps {
+  abilities: Ability[];
+  isEditable: boolean;
+  onEdit?: () => void;
+  // Earlier values drawn as an outline behind the current ones
+  comparison?: Ability[];
+  // Legend text for the comparison, e.g. the date it was assessed
+  comparisonLabel?: string;
+}
+
+const SIZE = 260;
+const CENTER = SIZE / 2;
+// Room around the chart for the ability names
+const RADIUS = SIZE / 2 - 48;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+// Position of a value on the spoke of the ability at `index`, starting at the top
+const pointAt = (index: number, count: number, fraction: number) => {
+  const angle = (2 * Math.PI * index) / count - Math.PI / 2;
+  return {
+    x: CENTER + RADIUS * fraction * Math.cos(angle),
+    y: CENTER + RADIUS * fraction * Math.sin(angle),
+  };
+};
+
+const toPoints = (names: string[], abilities: Ability[]) =>
+  names
+    .map((name, index) => {
+      const value = abilities.find(ability => ability.name === name)?.value ?? 0;
+      const { x, y } = pointAt(index, names.length, Math.min(value, ABILITY_MAX) / ABILITY_MAX);
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+/**
+ * Radar chart of a player's ability ratings
+ *
+ * Each ability gets a spoke, scaled to ABILITY_MAX. With a comparison the
+ * earlier values are drawn as a dashed outline so progress is visible.
+ */
+export function AbilityRadarChart({
+  abilities,
+  isEditable,
+  onEdit,
+  comparison,
+  comparisonLabel
+}: AbilityRadarChartProps) {
+  const names = abilities.map(ability => ability.name);
+  const hasComparison = comparison !== undefined && comparison.length > 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Abilities</Text>
+        {isEditable && onEdit && (
+          <TouchableOpacity onPress={onEdit}>
+            <Text style={styles.editText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {names.length < 3 ? (
+        <Text style={styles.emptyText}>
+          {isEditable ? 'Rate your abilities to see your chart' : 'No abilities rated yet'}
+        </Text>
+      ) : (
+        <View style={styles.chart}>
+          <Svg width={SIZE} height={SIZE}>
+            {RINGS.map(ring => (
+              <Circle
+                key={ring}
+                cx={CENTER}
+                cy={CENTER}
+                r={RADIUS * ring}
+                stroke={colors.textSecondary}
+                strokeOpacity={0.3}
+                fill="none"
+              />
+            ))}
+            {names.map((name, index) => {
+              const end = pointAt(index, names.length, 1);
+              const label = pointAt(index, names.length, 1.25);
+              return (
+                <React.Fragment key={name}>
+                  <Line
+                    x1={CENTER}
+                    y1={CENTER}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke={colors.textSecondary}
+                    strokeOpacity={0.3}
+                  />
+                  <SvgText
+                    x={label.x}
+                    y={label.y}
+                    fill={colors.textSecondary}
+                    fontSize={11}
+                    textAnchor="middle"
+                    alignmentBaseline="middle"
+                  >
+                    {name}
+                  </SvgText>
+                </React.Fragment>
+              );
+            })}
+            {comparison && hasComparison && (
+              <Polygon
+                points={toPoints(names, comparison)}
+                stroke={colors.textSecondary}
+                strokeDasharray="4,4"
+                strokeWidth={1.5}
+                fill="none"
+              />
+            )}
+            <Polygon
+              points={toPoints(names, abilities)}
+              stroke={colors.primary}
+              strokeWidth={2}
+              fill={colors.primary}
+              fillOpacity={0.25}
+            />
+          </Svg>
+
+          {hasComparison && (
+            <View style={styles.legend}>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendSwatch, styles.currentSwatch]} />
+                <Text style={styles.legendText}>Current</Text>
+              </View>
+              <View style={styles.legendItem}>
+                <View style={[styles.legendSwatch, styles.comparisonSwatch]} />
+                <Text style={styles.legendText}>{comparisonLabel ?? 'Previous'}</Text>
+              </View>
+            </View>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  editText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  chart: {
+    alignItems: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    marginTop: 8,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 2,
+    marginRight: 6,
+  },
+  currentSwatch: {
+    backgroundColor: colors.primary,
+  },
+  comparisonSwatch: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.textSecondary,
+  },
+  legendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
\ No newline at end of file
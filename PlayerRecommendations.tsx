@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Image, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Recommendation } from '@/types';
+import { RECOMMENDATION_TEXT_MAX_LENGTH } from '@/store/recommendation-store';
+import colors from '@/constants/colors';
+
+interface PlayerRecommendationsProps {
+  recommendations: Recommendation[];
+  isCurrentUser: boolean;
+  currentUserId?: string;
+  // The signed-in user's own recommendation of this player, if any
+  ownRecommendationId?: string;
+  canRecommend: boolean;
+  // Shown instead of the Recommend button, e.g. when no match was played yet
+  recommendBlockedReason?: string;
+  isSubmitting: boolean;
+  onAddRecommendation: (text: string, rating: number) => void;
+  onEditRecommendation: (id: string, text: string, rating: number) => void;
+  onDeleteRecommendation: (id: string) => void;
+  onReportRecommendation: (id: string) => void;
+  onLikeRecommendation: (id: string) => void;
+  onUserPress: (userId: string) => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const Stars = ({ rating, onChange }: { rating: number; onChange?: (rating: number) => void }) => (
+  <View style={styles.stars}>
+    {RATINGS.map(value => (
+      <TouchableOpacity key={value} disabled={!onChange} onPress={() => onChange?.(value)}>
+        <Text style={[styles.star, onChange && styles.starLarge]}>{value <= rating ? '★' : '☆'}</Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+/**
+ * Recommendations other players wrote about a player
+ *
+ * A player can write one recommendation of someone they have played, and
+ * edit or delete it afterwards. Recommendations by others can be liked or
+ * reported.
+ */
+export function PlayerRecommendations({
+  recommendations,
+  isCurrentUser,
+  currentUserId,
+  ownRecommendationId,
+  canRecommend,
+  recommendBlockedReason,
+  isSubmitting,
+  onAddRecommendation,
+  onEditRecommendation,
+  onDeleteRecommendation,
+  onReportRecommendation,
+  onLikeRecommendation,
+  onUserPress
+}: PlayerRecommendationsProps) {
+  // null: form closed; 'new' or a recommendation id: writing or editing
+  const [editing, setEditing] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [rating, setRating] = useState(0);
+
+  const openForm = (recommendation?: Recommendation) => {
+    setEditing(recommendation?.id ?? 'new');
+    setText(recommendation?.text ?? '');
+    setRating(recommendation?.rating ?? 0);
+  };
+
+  const handleSubmit = () => {
+    if (editing === 'new') {
+      onAddRecommendation(text, rating);
+    } else if (editing) {
+      onEditRecommendation(editing, text, rating);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Recommendations</Text>
+        {!isCurrentUser && canRecommend && !ownRecommendationId && editing === null && (
+          <TouchableOpacity onPress={() => openForm()} disabled={isSubmitting}>
+            <Text style={styles.actionText}>Recommend</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {recommendBlockedReason && <Text style={styles.hintText}>{recommendBlockedReason}</Text>}
+
+      {editing !== null && (
+        <View style={styles.form}>
+          <Stars rating={rating} onChange={setRating} />
+          <TextInput
+            style={styles.input}
+            value={text}
+            onChangeText={setText}
+            placeholder="What is it like to play against them?"
+            placeholderTextColor={colors.textSecondary}
+            maxLength={RECOMMENDATION_TEXT_MAX_LENGTH}
+            multiline
+          />
+          <View style={styles.formActions}>
+            <TouchableOpacity onPress={() => setEditing(null)}>
+              <Text style={styles.secondaryText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={handleSubmit} disabled={isSubmitting || rating === 0}>
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={styles.actionText}>{editing === 'new' ? 'Post' : 'Save'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {recommendations.length === 0 ? (
+        <Text style={styles.emptyText}>No recommendations yet</Text>
+      ) : (
+        recommendations.map(recommendation => {
+          const isOwn = recommendation.id === ownRecommendationId;
+          const isByOther = currentUserId !== undefined && recommendation.userId !== currentUserId;
+
+          return (
+            <View key={recommendation.id} style={styles.recommendation}>
+              <TouchableOpacity style={styles.author} onPress={() => onUserPress(recommendation.userId)}>
+                <Image source={{ uri: recommendation.userAvatar }} style={styles.avatar} />
+                <View style={styles.authorText}>
+                  <Text style={styles.authorName}>{recommendation.userName}</Text>
+                  <Text style={styles.date}>{recommendation.date}</Text>
+                </View>
+                <Stars rating={recommendation.rating} />
+              </TouchableOpacity>
+
+              <Text style={styles.text}>{recommendation.text}</Text>
+
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={() => onLikeRecommendation(recommendation.id)} disabled={!currentUserId}>
+                  <Text style={[styles.secondaryText, recommendation.userLiked && styles.likedText]}>
+                    {recommendation.userLiked ? 'Liked' : 'Like'} · {recommendation.likes}
+                  </Text>
+                </TouchableOpacity>
+                {isOwn && editing === null && (
+                  <>
+                    <TouchableOpacity onPress={() => openForm(recommendation)} disabled={isSubmitting}>
+                      <Text style={styles.actionText}>Edit</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => onDeleteRecommendation(recommendation.id)} disabled={isSubmitting}>
+                      <Text style={styles.deleteText}>Delete</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+                {isByOther && (
+                  <TouchableOpacity onPress={() => onReportRecommendation(recommendation.id)}>
+                    <Text style={styles.secondaryText}>Report</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  actionText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  secondaryText: {
+    color: colors.textSecondary,
+  },
+  likedText: {
+    color: colors.primary,
+  },
+  deleteText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  hintText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  form: {
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    padding: 12,
+    minHeight: 80,
+    color: colors.text,
+    textAlignVertical: 'top',
+    marginTop: 8,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 8,
+  },
+  stars: {
+    flexDirection: 'row',
+  },
+  star: {
+    fontSize: 14,
+    color: colors.primary,
+  },
+  starLarge: {
+    fontSize: 28,
+    marginRight: 4,
+  },
+  recommendation: {
+    paddingVertical: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: colors.textSecondary,
+  },
+  author: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+  },
+  authorText: {
+    flex: 1,
+  },
+  authorName: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  date: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  text: {
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,242 @@
+import React from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
+import { User } from '@/types';
+import colors from '@/constants/colors';
+
+interface ProfileHeaderProps {
+  user: User;
+  isCurrentUser: boolean;
+  isConnected: boolean;
+  // Text of the Connect button, e.g. "Request sent" or "Accept"
+  connectionLabel?: string;
+  // Average star rating from recommendations, null when there are none
+  averageRating?: number | null;
+  ratingCount?: number;
+  // Elo rating and rank on the overall leaderboard, if it has been loaded
+  playerRating?: number;
+  rank?: number | null;
+  onViewLeaderboard?: () => void;
+  // "Online", "Last seen 5m ago", ...; null when hidden or unknown
+  presenceLabel?: string | null;
+  // False when the viewer may not see the player's stats
+  showStats?: boolean;
+  onConnect: () => void;
+  onMessage: () => void;
+  onEditProfile?: () => void;
+}
+
+/**
+ * Avatar, name, bio and headline stats at the top of a profile
+ *
+ * Other players' profiles get Connect and Message buttons; the user's own
+ * profile gets an Edit Profile button instead.
+ */
+export function ProfileHeader({
+  user,
+  isCurrentUser,
+  isConnected,
+  connectionLabel,
+  averageRating = null,
+  ratingCount = 0,
+  playerRating,
+  rank = null,
+  onViewLeaderboard,
+  presenceLabel = null,
+  showStats = true,
+  onConnect,
+  onMessage,
+  onEditProfile
+}: ProfileHeaderProps) {
+  const stats = [
+    { label: 'Win Rate', value: `${user.stats.winRate}%` },
+    { label: 'Highest Break', value: user.stats.highestBreak.toString() },
+    { label: 'Games', value: user.stats.gamesPlayed.toString() },
+    { label: 'Level', value: user.stats.skillLevel.toString() },
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.identity}>
+        <Image source={{ uri: user.avatar }} style={styles.avatar} />
+        <View style={styles.identityText}>
+          <Text style={styles.name}>{user.name}</Text>
+          <Text style={styles.username}>@{user.username}</Text>
+          {user.location ? <Text style={styles.location}>{user.location}</Text> : null}
+          {presenceLabel ? (
+            <View style={styles.presence}>
+              {presenceLabel === 'Online' && <View style={styles.onlineDot} />}
+              <Text style={styles.presenceText}>{presenceLabel}</Text>
+            </View>
+          ) : null}
+        </View>
+      </View>
+
+      {user.bio ? <Text style={styles.bio}>{user.bio}</Text> : null}
+
+      {averageRating !== null && (
+        <Text style={styles.rating}>
+          ★ {averageRating.toFixed(1)} · {ratingCount} {ratingCount === 1 ? 'recommendation' : 'recommendations'}
+        </Text>
+      )}
+
+      {playerRating !== undefined && (
+        <TouchableOpacity style={styles.ratingRow} onPress={onViewLeaderboard} disabled={!onViewLeaderboard}>
+          <Text style={styles.playerRating}>Rating {playerRating}</Text>
+          {rank !== null && <Text style={styles.rank}>#{rank} on the leaderboard</Text>}
+        </TouchableOpacity>
+      )}
+
+      {showStats && (
+        <View style={styles.statsRow}>
+          {stats.map(stat => (
+            <View key={stat.label} style={styles.stat}>
+              <Text style={styles.statValue}>{stat.value}</Text>
+              <Text style={styles.statLabel}>{stat.label}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {isCurrentUser ? (
+        onEditProfile && (
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={onEditProfile}>
+            <Text style={styles.buttonText}>Edit Profile</Text>
+          </TouchableOpacity>
+        )
+      ) : (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.button, styles.actionButton, isConnected ? styles.secondaryButton : styles.primaryButton]}
+            onPress={onConnect}
+          >
+            <Text style={styles.buttonText}>{connectionLabel ?? (isConnected ? 'Connected' : 'Connect')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.actionButton, styles.secondaryButton]} onPress={onMessage}>
+            <Text style={styles.buttonText}>Message</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  identity: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    marginRight: 16,
+  },
+  identityText: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  username: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  location: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  presence: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  onlineDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.primary,
+    marginRight: 6,
+  },
+  presenceText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  bio: {
+    fontSize: 15,
+    color: colors.text,
+    marginTop: 12,
+  },
+  rating: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 8,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  playerRating: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  rank: {
+    fontSize: 14,
+    color: colors.primary,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+  },
+  button: {
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    marginHorizontal: 4,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  buttonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
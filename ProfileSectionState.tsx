@@ -0,0 +1,77 @@
+import React from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import colors from '@/constants/colors';
+
+interface ProfileSectionStateProps {
+  title: string;
+  isLoading: boolean;
+  error: string | null;
+  hasData: boolean;
+  onRetry: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Loading and error handling for one profile section
+ *
+ * Renders the section as soon as there is (possibly cached) data; otherwise
+ * shows a placeholder while loading or an error with a retry button.
+ */
+export function ProfileSectionState({
+  title,
+  isLoading,
+  error,
+  hasData,
+  onRetry,
+  children
+}: ProfileSectionStateProps) {
+  if (hasData) {
+    return <>{children}</>;
+  }
+  
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {isLoading || !error ? (
+        <ActivityIndicator size="small" color={colors.primary} />
+      ) : (
+        <View style={styles.errorRow}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={onRetry}>
+            <Text style={styles.retryText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 12,
+  },
+  errorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  errorText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.error,
+  },
+  retryText: {
+    marginLeft: 12,
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,240 @@
+import React from 'react';
+import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
+import { Skill } from '@/types';
+import { Endorsement } from '@/store/skill-store';
+import { StrategyArticle } from '@/store/strategy-store';
+import colors from '@/constants/colors';
+
+// Endorsement details for one skill, as seen by the signed-in user
+export interface SkillEndorsements {
+  endorsers: Endorsement[];
+  hasEndorsed: boolean;
+  canEndorse: boolean;
+}
+
+interface SkillsSectionProps {
+  skills: Skill[];
+  // Keyed by skill id
+  endorsements: Record<string, SkillEndorsements>;
+  strategies: StrategyArticle[];
+  isEditable: boolean;
+  onEditSkills: () => void;
+  onEditStrategies: () => void;
+  // Endorses the skill, or withdraws the user's endorsement
+  onEndorseSkill: (skillId: string) => void;
+  onEndorserPress: (userId: string) => void;
+  onViewStrategy: (strategyId: string) => void;
+}
+
+const LEVEL_LABELS: Record<Skill['level'], string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+// Endorser avatars shown next to a skill before the rest are summed up
+const MAX_ENDORSER_AVATARS = 5;
+
+/**
+ * A player's skills with their endorsements, and the strategies they wrote
+ *
+ * Other players see an Endorse button on each skill when they may endorse
+ * it, and a Withdraw button on skills they have endorsed.
+ */
+export function SkillsSection({
+  skills,
+  endorsements,
+  strategies,
+  isEditable,
+  onEditSkills,
+  onEditStrategies,
+  onEndorseSkill,
+  onEndorserPress,
+  onViewStrategy
+}: SkillsSectionProps) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Skills</Text>
+        {isEditable && (
+          <TouchableOpacity onPress={onEditSkills}>
+            <Text style={styles.editText}>Edit</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {skills.length === 0 ? (
+        <Text style={styles.emptyText}>No skills added yet</Text>
+      ) : (
+        skills.map(skill => {
+          const details = endorsements[skill.id];
+          const endorsers = details?.endorsers ?? [];
+          const canToggle = !isEditable && (details?.hasEndorsed || details?.canEndorse);
+
+          return (
+            <View key={skill.id} style={styles.skill}>
+              <View style={styles.skillRow}>
+                <View style={styles.skillText}>
+                  <Text style={styles.skillName}>{skill.name}</Text>
+                  <Text style={styles.skillMeta}>
+                    {LEVEL_LABELS[skill.level]} · {skill.endorsements}{' '}
+                    {skill.endorsements === 1 ? 'endorsement' : 'endorsements'}
+                  </Text>
+                </View>
+                {canToggle && (
+                  <TouchableOpacity
+                    style={[styles.endorseButton, details?.hasEndorsed && styles.endorsedButton]}
+                    onPress={() => onEndorseSkill(skill.id)}
+                  >
+                    <Text style={styles.endorseText}>{details?.hasEndorsed ? 'Withdraw' : 'Endorse'}</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {endorsers.length > 0 && (
+                <View style={styles.endorsers}>
+                  {endorsers.slice(0, MAX_ENDORSER_AVATARS).map(endorser => (
+                    <TouchableOpacity key={endorser.id} onPress={() => onEndorserPress(endorser.endorserId)}>
+                      <Image source={{ uri: endorser.endorserAvatar }} style={styles.endorserAvatar} />
+                    </TouchableOpacity>
+                  ))}
+                  {endorsers.length > MAX_ENDORSER_AVATARS && (
+                    <Text style={styles.moreText}>+{endorsers.length - MAX_ENDORSER_AVATARS}</Text>
+                  )}
+                </View>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      <View style={[styles.header, styles.strategiesHeader]}>
+        <Text style={styles.title}>Strategies</Text>
+        {isEditable && (
+          <TouchableOpacity onPress={onEditStrategies}>
+            <Text style={styles.editText}>{strategies.length > 0 ? 'Manage' : 'Write'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {strategies.length === 0 ? (
+        <Text style={styles.emptyText}>No strategies shared yet</Text>
+      ) : (
+        strategies.map(strategy => (
+          <TouchableOpacity key={strategy.id} style={styles.strategy} onPress={() => onViewStrategy(strategy.id)}>
+            <View style={styles.strategyTitleRow}>
+              <Text style={styles.strategyTitle}>{strategy.title}</Text>
+              {strategy.status === 'draft' && <Text style={styles.draftBadge}>Draft</Text>}
+            </View>
+            <Text style={styles.strategyDescription} numberOfLines={2}>{strategy.description}</Text>
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  strategiesHeader: {
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  editText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  skill: {
+    paddingVertical: 8,
+  },
+  skillRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  skillText: {
+    flex: 1,
+  },
+  skillName: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  skillMeta: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  endorseButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  endorsedButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  endorseText: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
+  endorsers: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  endorserAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: 4,
+  },
+  moreText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 4,
+  },
+  strategy: {
+    paddingVertical: 8,
+  },
+  strategyTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  strategyTitle: {
+    flex: 1,
+    fontSize: 16,
+    color: colors.text,
+  },
+  draftBadge: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+  strategyDescription: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, Pressable, LayoutChangeEvent } from 'react-native';
+import { BallColor, TableDiagram } from '@/store/strategy-store';
+import colors from '@/constants/colors';
+
+interface TableDiagramViewProps {
+  diagram: TableDiagram;
+  // Called with table coordinates (0-1) when the cloth is tapped
+  onPressTable?: (x: number, y: number) => void;
+  onPressBall?: (index: number) => void;
+}
+
+export const BALL_COLORS: Record<BallColor, string> = {
+  white: '#F5F5F0',
+  red: '#C62828',
+  yellow: '#F9D71C',
+  green: '#2E7D32',
+  brown: '#6D4C41',
+  blue: '#1E4FB5',
+  pink: '#F48FB1',
+  black: '#111111',
+};
+
+// Full-size table: 12ft by 6ft, baulk line 29in from the baulk cushion
+const TABLE_RATIO = 2;
+const BAULK_LINE = 29 / 144;
+const BALL_SIZE = 0.03;
+
+/**
+ * Top-down snooker table with balls drawn at their diagram positions
+ *
+ * The baulk end is on the left. Pass onPressTable to let users place balls.
+ */
+export const TableDiagramView = ({ diagram, onPressTable, onPressBall }: TableDiagramViewProps) => {
+  const [width, setWidth] = useState(0);
+  const height = width / TABLE_RATIO;
+  const ballSize = Math.max(8, width * BALL_SIZE);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.cushion}>
+        <Pressable
+          style={[styles.cloth, { height }]}
+          onLayout={handleLayout}
+          disabled={!onPressTable}
+          onPress={(event) => {
+            if (!onPressTable || width === 0) return;
+            const { locationX, locationY } = event.nativeEvent;
+            onPressTable(
+              Math.min(1, Math.max(0, locationX / width)),
+              Math.min(1, Math.max(0, locationY / height))
+            );
+          }}
+        >
+          <View style={[styles.baulkLine, { left: width * BAULK_LINE }]} />
+          {diagram.balls.map((ball, index) => (
+            <Pressable
+              key={`${ball.ball}-${index}`}
+              disabled={!onPressBall}
+              onPress={() => onPressBall?.(index)}
+              style={[
+                styles.ball,
+                {
+                  width: ballSize,
+                  height: ballSize,
+                  borderRadius: ballSize / 2,
+                  left: ball.x * width - ballSize / 2,
+                  top: ball.y * height - ballSize / 2,
+                  backgroundColor: BALL_COLORS[ball.ball],
+                },
+              ]}
+            />
+          ))}
+        </Pressable>
+      </View>
+      {diagram.caption ? <Text style={styles.caption}>{diagram.caption}</Text> : null}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 12,
+  },
+  cushion: {
+    borderWidth: 6,
+    borderColor: '#4E342E',
+    borderRadius: 4,
+  },
+  cloth: {
+    backgroundColor: '#0B6623',
+    overflow: 'hidden',
+  },
+  baulkLine: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+  },
+  ball: {
+    position: 'absolute',
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  caption: {
+    marginTop: 6,
+    fontSize: 13,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Ability } from '@/types';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { ABILITY_MIN, ABILITY_MAX } from '@/utils/ability-suggestions';
+
+/**
+ * One saved self-assessment: the player's ratings at a point in time
+ */
+export interface AbilityAssessment {
+  id: string;
+  userId: string;
+  abilities: Ability[];
+  createdAt: string;
+}
+
+interface AbilityState {
+  // Assessments per user, oldest first
+  history: Record<string, AbilityAssessment[]>;
+  getHistory: (userId: string) => AbilityAssessment[];
+  getLatest: (userId: string) => AbilityAssessment | null;
+  // The assessment before the latest one, for showing progress
+  getPrevious: (userId: string) => AbilityAssessment | null;
+  saveAssessment: (abilities: Ability[]) => Promise<AbilityAssessment>;
+}
+
+// Older assessments are dropped beyond this many per user
+const MAX_HISTORY = 50;
+
+const isSameRatings = (a: Ability[], b: Ability[]) =>
+  a.length === b.length && a.every((ability, index) =>
+    ability.name === b[index].name && ability.value === b[index].value
+  );
+
+/**
+ * Ability store using Zustand
+ *
+ * Keeps every self-assessment a player saves so the radar chart can overlay
+ * an earlier one. The latest assessment is what the profile shows.
+ *
+ * Required API endpoints:
+ * - GET /users/:id/abilities/history - Saved assessments, oldest first
+ * - PUT /users/:id/abilities - Save a new assessment { abilities }
+ */
+export const useAbilityStore = create<AbilityState>()(
+  persist(
+    (set, get) => ({
+      history: {},
+
+      getHistory: (userId) => get().history[userId] ?? [],
+
+      getLatest: (userId) => {
+        const history = get().getHistory(userId);
+        return history[history.length - 1] ?? null;
+      },
+
+      getPrevious: (userId) => {
+        const history = get().getHistory(userId);
+        return history[history.length - 2] ?? null;
+      },
+
+      saveAssessment: async (abilities) => {
+        const userId = requireCurrentUserId();
+
+        const invalid = abilities.find(ability =>
+          !Number.isInteger(ability.value) || ability.value < ABILITY_MIN || ability.value > ABILITY_MAX
+        );
+        if (invalid) {
+          throw new Error(`${invalid.name} must be rated from ${ABILITY_MIN} to ${ABILITY_MAX}`);
+        }
+
+        // Saving the same ratings again doesn't add a new snapshot
+        const latest = get().getLatest(userId);
+        if (latest && isSameRatings(latest.abilities, abilities)) {
+          return latest;
+        }
+
+        // In a real app, this would use the API:
+        // const response = await api.put(`/users/${userId}/abilities`, { abilities });
+
+        const assessment: AbilityAssessment = {
+          id: Date.now().toString(),
+          userId,
+          abilities,
+          createdAt: new Date().toISOString()
+        };
+
+        set(state => ({
+          history: {
+            ...state.history,
+            [userId]: [...(state.history[userId] ?? []), assessment].slice(-MAX_HISTORY)
+          }
+        }));
+
+        // Profile screens read abilities from the section cache
+        useProfileDataStore.getState().setSectionData(userId, 'abilities', abilities);
+
+        return assessment;
+      }
+    }),
+    {
+      name: 'snookiq-abilities',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { User } from '@/types';
+
+// Abilities are rated on a 1-10 scale
+export const ABILITY_MIN = 1;
+export const ABILITY_MAX = 10;
+
+// Abilities every player can rate, in the order the radar chart draws them
+export const ABILITY_NAMES = [
+  'Potting',
+  'Positioning',
+  'Safety Play',
+  'Break Building',
+  'Concentration',
+  'Tactical Play',
+];
+
+// A break of this size on average counts as the top of the scale
+const TOP_AVERAGE_BREAK = 50;
+const MAXIMUM_BREAK = 147;
+
+export const clampAbility = (value: number) =>
+  Math.min(ABILITY_MAX, Math.max(ABILITY_MIN, Math.round(value)));
+
+/**
+ * Suggests ability values from a player's measured stats
+ *
+ * Only abilities the stats say something about are included: Potting from
+ * potSuccessRate, Positioning from averageBreak (long breaks need cue ball
+ * control), and Break Building from averageBreak and highestBreak. Players
+ * without games get no suggestions.
+ */
+export const suggestAbilities = (stats: User['stats']): Record<string, number> => {
+  if (!stats || stats.gamesPlayed <= 0) {
+    return {};
+  }
+
+  const averageScore = (stats.averageBreak / TOP_AVERAGE_BREAK) * ABILITY_MAX;
+  const highestScore = (stats.highestBreak / MAXIMUM_BREAK) * ABILITY_MAX;
+
+  return {
+    'Potting': clampAbility(stats.potSuccessRate / 10),
+    'Positioning': clampAbility(averageScore),
+    'Break Building': clampAbility(averageScore * 0.7 + highestScore * 0.3),
+  };
+};
\ No newline at end of file
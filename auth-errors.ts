@@ -0,0 +1,59 @@
+import { isAxiosError } from 'axios';
+import { AuthField, FieldErrors } from '@/utils/auth-validation';
+
+export type AuthErrorCode =
+  | 'email_not_verified'
+  | 'invalid_credentials'
+  | 'invalid_reset_token'
+  | 'invalid_verification_code'
+  | 'invalid_token'
+  | 'session_expired'
+  | 'validation';
+
+// Field errors plus `general` for anything not tied to a single input
+export type AuthErrors = FieldErrors<AuthField | 'general'>;
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
+
+/**
+ * Error thrown by auth providers and the auth store
+ *
+ * `code` lets callers react to a specific failure (e.g. send the user back to
+ * the login screen on `session_expired`) without matching on the message.
+ * Validation failures carry per-field messages in `fieldErrors`.
+ */
+export class AuthError extends Error {
+  code: AuthErrorCode;
+  fieldErrors: FieldErrors;
+
+  constructor(code: AuthErrorCode, message: string, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export const validationError = (fieldErrors: FieldErrors) =>
+  new AuthError('validation', Object.values(fieldErrors)[0] ?? 'Invalid input', fieldErrors);
+
+/**
+ * Normalises anything thrown by a provider into AuthErrors for the UI
+ *
+ * Server-side validation errors (HTTP 422 with `{ errors: { field: message } }`)
+ * are mapped onto fields the same way as client-side ones.
+ */
+export const toAuthErrors = (error: unknown, fallback: string): AuthErrors => {
+  if (error instanceof AuthError && error.code === 'validation') {
+    return { ...error.fieldErrors };
+  }
+  
+  if (isAxiosError<{ errors?: AuthErrors }>(error) && error.response?.status === 422) {
+    const serverErrors = error.response.data?.errors;
+    if (serverErrors && typeof serverErrors === 'object') {
+      return { ...serverErrors };
+    }
+  }
+  
+  return { general: error instanceof Error ? error.message : fallback };
+};
\ No newline at end of file
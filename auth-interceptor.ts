@@ -0,0 +1,60 @@
+import { AxiosResponse, InternalAxiosRequestConfig, isAxiosError } from 'axios';
+import api from '@/api';
+
+// Requests whose 401 means "bad credentials", not "access token expired"
+const REFRESH_EXEMPT_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout'];
+
+// Marks a request already retried once after a refresh
+interface RetriableRequest extends InternalAxiosRequestConfig {
+  _authRetried?: boolean;
+}
+
+interface AuthInterceptorOptions {
+  // Current access token, kept in memory by the auth store
+  getAccessToken: () => string | null;
+  // Resolves with a fresh access token, or null if the session could not be refreshed
+  refreshAccessToken: () => Promise<string | null>;
+}
+
+/**
+ * Attaches the access token to outgoing requests and retries requests that
+ * fail with 401 once, after refreshing the access token
+ *
+ * The token is read from memory on every request rather than from
+ * AsyncStorage, so it never has to be written anywhere unencrypted.
+ */
+export const installAuthInterceptor = ({ getAccessToken, refreshAccessToken }: AuthInterceptorOptions) => {
+  api.interceptors.request.use((request: InternalAxiosRequestConfig) => {
+    const accessToken = getAccessToken();
+    if (accessToken && !request.headers.Authorization) {
+      request.headers.Authorization = `Bearer ${accessToken}`;
+    }
+    return request;
+  });
+  
+  api.interceptors.response.use(
+    (response: AxiosResponse) => response,
+    async (error: unknown) => {
+      if (!isAxiosError(error)) {
+        throw error;
+      }
+      
+      const request: RetriableRequest | undefined = error.config;
+      const isExempt = REFRESH_EXEMPT_URLS.some(url => request?.url?.startsWith(url));
+      
+      if (error.response?.status !== 401 || !request || request._authRetried || isExempt) {
+        throw error;
+      }
+      
+      request._authRetried = true;
+      
+      const accessToken = await refreshAccessToken();
+      if (!accessToken) {
+        throw error;
+      }
+      
+      request.headers.Authorization = `Bearer ${accessToken}`;
+      return api(request);
+    }
+  );
+};
\ No newline at end of file
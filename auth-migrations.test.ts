@@ -0,0 +1,110 @@
+import {
+  AUTH_STATE_VERSION,
+  isLegacyAuthState,
+  migrateAuthState,
+  sanitizePersistedAuthState,
+} from '@/store/auth-migrations';
+
+const stats = {
+  winRate: 62,
+  highestBreak: 87,
+  averageBreak: 31,
+  potSuccessRate: 74,
+  gamesPlayed: 40,
+  totalPoints: 2150,
+  skillLevel: 6,
+};
+
+const makeUser = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `Player ${id}`,
+  username: `player${id}`,
+  email: `player${id}@example.com`,
+  avatar: `https://example.com/${id}.jpg`,
+  location: 'London, UK',
+  stats,
+  connections: [],
+  isOnline: false,
+  lastActive: '2026-10-01T12:00:00.000Z',
+  ...overrides,
+});
+
+const makeTokens = (id: string) => ({
+  accessToken: `access-${id}`,
+  refreshToken: `refresh-${id}`,
+  expiresAt: 1790000000000,
+});
+
+const LOGGED_OUT = { accounts: [], activeUserId: null };
+
+describe('migrateAuthState', () => {
+  it('signs out the unversioned { user, token } payload, which has no refresh token', () => {
+    const legacy = { user: makeUser('1'), token: 'bare-access-token', isAuthenticated: true };
+
+    expect(migrateAuthState(legacy, 0)).toEqual(LOGGED_OUT);
+  });
+
+  it('only validates a payload that is already at the current version', () => {
+    const state = {
+      accounts: [{ user: makeUser('1'), tokens: makeTokens('1') }],
+      activeUserId: '1',
+    };
+
+    expect(migrateAuthState(state, AUTH_STATE_VERSION)).toEqual(state);
+    expect(migrateAuthState(null, AUTH_STATE_VERSION)).toEqual(LOGGED_OUT);
+  });
+});
+
+describe('sanitizePersistedAuthState', () => {
+  it('drops accounts with a corrupt user or tokens', () => {
+    const valid = { user: makeUser('1'), tokens: makeTokens('1') };
+    const state = {
+      accounts: [
+        valid,
+        { user: makeUser('2', { stats: null }), tokens: makeTokens('2') },
+        { user: makeUser('3'), tokens: { accessToken: 'access-3' } },
+        { user: makeUser('4', { connections: [4] }), tokens: makeTokens('4') },
+      ],
+      activeUserId: '1',
+    };
+
+    expect(sanitizePersistedAuthState(state)).toEqual({ accounts: [valid], activeUserId: '1' });
+  });
+
+  it('keeps the first of two accounts with the same user id', () => {
+    const first = { user: makeUser('1'), tokens: makeTokens('1') };
+    const second = { user: makeUser('1', { name: 'Renamed' }), tokens: makeTokens('1b') };
+
+    expect(sanitizePersistedAuthState({ accounts: [first, second], activeUserId: '1' }).accounts).toEqual([first]);
+  });
+
+  it('leaves no account active when the active one was dropped', () => {
+    const state = {
+      accounts: [
+        { user: makeUser('1'), tokens: makeTokens('1') },
+        { user: makeUser('2', { email: undefined }), tokens: makeTokens('2') },
+      ],
+      activeUserId: '2',
+    };
+
+    expect(sanitizePersistedAuthState(state).activeUserId).toBeNull();
+  });
+
+  it('signs out a payload without an accounts list', () => {
+    expect(sanitizePersistedAuthState({ user: makeUser('1'), tokens: makeTokens('1') })).toEqual(LOGGED_OUT);
+  });
+});
+
+describe('isLegacyAuthState', () => {
+  it('recognises the unversioned payload, signed in or not', () => {
+    expect(isLegacyAuthState({ user: makeUser('1'), token: 'bare-access-token', isAuthenticated: true })).toBe(true);
+    expect(isLegacyAuthState({ user: null, token: null, isAuthenticated: false })).toBe(true);
+  });
+
+  it('leaves the public half of the split layout alone', () => {
+    const { email, ...publicUser } = makeUser('1');
+
+    expect(isLegacyAuthState({ accounts: [{ user: publicUser }], activeUserId: '1' })).toBe(false);
+    expect(isLegacyAuthState(null)).toBe(false);
+  });
+});
\ No newline at end of file
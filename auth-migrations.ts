@@ -0,0 +1,113 @@
+import { User } from '@/types';
+import { AuthTokens } from '@/services/auth-provider';
+
+// An account signed in on this device
+export interface SignedInAccount {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export interface PersistedAuthState {
+  accounts: SignedInAccount[];
+  activeUserId: string | null;
+}
+
+/**
+ * Version of the persisted `snookiq-auth` payload
+ *
+ * 0 - unversioned `{ user, token, isAuthenticated }`, kept entirely in AsyncStorage
+ * 1 - `{ accounts: [{ user, tokens }], activeUserId }`, secrets in the keychain
+ *
+ * Bump this and extend `migrateAuthState` whenever the persisted shape (or
+ * the `User` type stored in it) changes.
+ */
+export const AUTH_STATE_VERSION = 1;
+
+const STATS_FIELDS: (keyof User['stats'])[] = [
+  'winRate',
+  'highestBreak',
+  'averageBreak',
+  'potSuccessRate',
+  'gamesPlayed',
+  'totalPoints',
+  'skillLevel'
+];
+
+const LOGGED_OUT_STATE: PersistedAuthState = {
+  accounts: [],
+  activeUserId: null,
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isValidUser = (value: unknown): value is User => {
+  if (!isObject(value)) return false;
+  
+  const { stats } = value;
+  return (
+    isString(value.id) &&
+    isString(value.name) &&
+    isString(value.username) &&
+    isString(value.email) &&
+    isString(value.avatar) &&
+    (value.bio === undefined || isString(value.bio)) &&
+    (value.location === undefined || isString(value.location)) &&
+    isObject(stats) &&
+    STATS_FIELDS.every(key => isNumber(stats[key])) &&
+    Array.isArray(value.connections) &&
+    value.connections.every(isString) &&
+    typeof value.isOnline === 'boolean' &&
+    isString(value.lastActive)
+  );
+};
+
+export const isValidTokens = (value: unknown): value is AuthTokens =>
+  isObject(value) &&
+  isString(value.accessToken) &&
+  isString(value.refreshToken) &&
+  isNumber(value.expiresAt);
+
+const isValidAccount = (value: unknown): value is SignedInAccount =>
+  isObject(value) && isValidUser(value.user) && isValidTokens(value.tokens);
+
+/**
+ * Drops anything that doesn't match the current types
+ *
+ * Accounts with a corrupt user or token pair are signed out rather than
+ * half-hydrated; an active account that didn't survive leaves no account
+ * active.
+ */
+export const sanitizePersistedAuthState = (state: unknown): PersistedAuthState => {
+  if (!isObject(state) || !Array.isArray(state.accounts)) {
+    return LOGGED_OUT_STATE;
+  }
+  
+  const accounts = (state.accounts as unknown[])
+    .filter(isValidAccount)
+    .filter((account, index, all) => all.findIndex(other => other.user.id === account.user.id) === index);
+  const activeUserId = accounts.some(account => account.user.id === state.activeUserId)
+    ? state.activeUserId as string
+    : null;
+  
+  return { accounts, activeUserId };
+};
+
+/**
+ * Whether a payload read from AsyncStorage is the unversioned one, which
+ * kept the token and email inline instead of in the keychain
+ */
+export const isLegacyAuthState = (state: unknown) =>
+  isObject(state) && !Array.isArray(state.accounts);
+
+/**
+ * Brings a persisted payload up to the current version
+ *
+ * The unversioned payload only has a bare access token, without a refresh
+ * token or expiry, so it can't be kept and signs its user out.
+ */
+export const migrateAuthState = (persistedState: unknown, version: number): PersistedAuthState =>
+  version < 1 ? LOGGED_OUT_STATE : sanitizePersistedAuthState(persistedState);
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { User } from '@/types';
+import config from '@/constants/config';
+import { mockAuthProvider } from '@/services/mock-auth-provider';
+import { httpAuthProvider } from '@/services/http-auth-provider';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Access token expiry, in epoch milliseconds
+  expiresAt: number;
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+export interface SignupData {
+  name: string;
+  email: string;
+  password: string;
+  username: string;
+  location?: string;
+}
+
+/**
+ * Backend used by useAuthStore
+ *
+ * The store only deals with this interface, so switching between the mock
+ * data and a real server is a configuration change (see constants/config).
+ * Providers return tokens but never store them; that is the store's job.
+ */
+export interface AuthProvider {
+  login: (email: string, password: string, username: string) => Promise<AuthSession>;
+  register: (data: SignupData) => Promise<void>;
+  verifyEmail: (email: string, code: string) => Promise<void>;
+  resendVerification: (email: string) => Promise<void>;
+  isUsernameAvailable: (username: string) => Promise<boolean>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  confirmPasswordReset: (token: string, newPassword: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  logout: (refreshToken: string | null) => Promise<void>;
+  refresh: (refreshToken: string) => Promise<AuthTokens>;
+  getCurrentUser: (accessToken: string) => Promise<User>;
+  updateProfile: (data: Partial<User>) => Promise<User>;
+  uploadAvatar: (uri: string) => Promise<string>;
+  // Both resolve with the signed-in user as stored on the server afterwards
+  addConnection: (userId: string) => Promise<User>;
+  removeConnection: (userId: string) => Promise<User>;
+}
+
+export const getAuthProvider = (): AuthProvider => {
+  switch (config.authProvider) {
+    case 'http':
+      return httpAuthProvider;
+    case 'mock':
+    default:
+      return mockAuthProvider;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { useAuthStore } from '@/store/auth-store';
+import { getAuthProvider } from '@/services/auth-provider';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: async () => null,
+  setItemAsync: async () => undefined,
+  deleteItemAsync: async () => undefined,
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: jest.fn() },
+}));
+
+jest.mock('@/api', () => ({
+  __esModule: true,
+  default: { interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } } },
+  removeAuthToken: jest.fn(),
+}));
+
+jest.mock('@/services/auth-provider', () => {
+  const provider = { getCurrentUser: jest.fn() };
+  return { getAuthProvider: () => provider };
+});
+
+const authProvider = getAuthProvider() as jest.Mocked<ReturnType<typeof getAuthProvider>>;
+
+const user = {
+  id: '1',
+  name: 'Player 1',
+  username: 'player1',
+  email: 'player1@example.com',
+  avatar: 'https://example.com/1.jpg',
+  location: 'London, UK',
+  stats: {
+    winRate: 0,
+    highestBreak: 0,
+    averageBreak: 0,
+    potSuccessRate: 0,
+    gamesPlayed: 0,
+    totalPoints: 0,
+    skillLevel: 1,
+  },
+  connections: [],
+  isOnline: true,
+  lastActive: '2026-10-01T12:00:00.000Z',
+};
+
+const tokens = { accessToken: 'access-1', refreshToken: 'refresh-1', expiresAt: Date.now() + 60 * 60 * 1000 };
+
+describe('checkAuth', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    authProvider.getCurrentUser.mockResolvedValue(user);
+    await useAuthStore.persist.rehydrate();
+    useAuthStore.setState({
+      accounts: [{ user, tokens }],
+      activeUserId: user.id,
+      user,
+      tokens,
+      isAuthenticated: true,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+  });
+
+  it('joins the check already in progress', async () => {
+    const first = useAuthStore.getState().checkAuth();
+    const second = useAuthStore.getState().checkAuth();
+
+    expect(second).toBe(first);
+    await Promise.all([first, second]);
+    expect(authProvider.getCurrentUser).toHaveBeenCalledTimes(1);
+    expect(useAuthStore.getState().isLoading).toBe(false);
+  });
+
+  it('checks again once the previous check has finished', async () => {
+    await useAuthStore.getState().checkAuth();
+    await useAuthStore.getState().checkAuth();
+
+    expect(authProvider.getCurrentUser).toHaveBeenCalledTimes(2);
+  });
+});
\ No newline at end of file
@@ -1,263 +1,736 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User } from '@/types';
-import { users, currentUser } from '@/mocks/users';
-import api, { setAuthToken, removeAuthToken } from '@/api';
+import { removeAuthToken } from '@/api';
+import { getAuthProvider, AuthTokens } from '@/services/auth-provider';
+import {
+  AuthError,
+  AuthErrors,
+  SESSION_EXPIRED_MESSAGE,
+  toAuthErrors,
+  validationError,
+} from '@/services/auth-errors';
+import { installAuthInterceptor } from '@/services/auth-interceptor';
+import { createSecureSplitStorage } from '@/utils/secure-storage';
+import {
+  AuthField,
+  deriveUsername,
+  hasFieldErrors,
+  validateEmail,
+  validateLogin,
+  validatePasswordChange,
+  validatePasswordReset,
+  validateProfile,
+  validateSignup,
+} from '@/utils/auth-validation';
+import {
+  useProfileSyncStore,
+  applyQueuedMutations,
+  connectProfileSync,
+  pickFields,
+} from '@/store/profile-sync-store';
+import {
+  AUTH_STATE_VERSION,
+  PersistedAuthState,
+  SignedInAccount,
+  isLegacyAuthState,
+  migrateAuthState,
+  sanitizePersistedAuthState,
+} from '@/store/auth-migrations';
+
+// Status of a single request that reports separately from the main isLoading/errors
+interface RequestState {
+  isLoading: boolean;
+  errors: AuthErrors;
+  isSuccess: boolean;
+}
+
+const IDLE_REQUEST: RequestState = { isLoading: false, errors: {}, isSuccess: false };
 
 interface AuthState {
+  // Every account signed in on this device
+  accounts: SignedInAccount[];
+  activeUserId: string | null;
+  // The active account's user and tokens
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  error: string | null;
-  token: string | null;
+  errors: AuthErrors;
+  tokens: AuthTokens | null;
+  // Set after signup (or a login attempt) until the emailed code is confirmed
+  pendingVerification: { email: string } | null;
+  passwordResetRequest: RequestState;
+  passwordResetConfirm: RequestState;
+  passwordChange: RequestState;
   login: (email: string, password: string, username: string) => Promise<void>;
   signup: (name: string, email: string, password: string, username?: string, location?: string) => Promise<void>;
-  logout: () => Promise<void>;
-  updateProfile: (data: Partial<User>) => Promise<void>;
-  uploadAvatar: (uri: string) => Promise<void>;
-  clearError: () => void;
+  verifyEmail: (code: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  confirmPasswordReset: (token: string, newPassword: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  resetPasswordRequests: () => void;
+  switchAccount: (userId: string) => Promise<void>;
+  getSignedInAccounts: () => User[];
+  // Logs out the given account, or the active one
+  logout: (userId?: string) => Promise<void>;
+  // Refreshes the given account's tokens, or the active one's
+  refreshSession: (userId?: string) => Promise<string | null>;
+  // Profile changes apply locally at once and sync through useProfileSyncStore;
+  // these return the id of the queued change, or null when nothing was queued
+  updateProfile: (data: Partial<User>) => Promise<string | null>;
+  // The signed-in user's own username counts as available
+  isUsernameAvailable: (username: string) => Promise<boolean>;
+  uploadAvatar: (uri: string) => Promise<string | null>;
+  addConnection: (userId: string) => Promise<void>;
+  removeConnection: (userId: string) => Promise<void>;
+  // Replaces a signed-in account's user with a newer copy
+  syncUser: (user: User) => void;
+  clearError: (field?: AuthField | 'general') => void;
+  // Joins the check already in progress, if any
   checkAuth: () => Promise<void>;
 }
 
+interface PublicAuthState {
+  accounts: { user: Omit<User, 'email'> }[];
+  activeUserId: string | null;
+}
+
+// Kept in the keychain, one entry per account
+interface AccountSecrets {
+  tokens: AuthTokens;
+  email: string;
+}
+
+const withoutEmail = ({ email, ...rest }: User): Omit<User, 'email'> => rest;
+
+// Tokens and users' emails go to the keychain, the rest to AsyncStorage
+const authStorage = createSecureSplitStorage<PersistedAuthState, PublicAuthState, AccountSecrets>({
+  split: ({ accounts, activeUserId }) => {
+    const secrets: Record<string, AccountSecrets> = {};
+    accounts.forEach(({ user, tokens }) => {
+      secrets[user.id] = { tokens, email: user.email };
+    });
+    
+    return {
+      publicState: { accounts: accounts.map(({ user }) => ({ user: withoutEmail(user) })), activeUserId },
+      secrets,
+    };
+  },
+  join: (publicState, secrets) => ({
+    // Accounts whose secrets are missing can't be used, so they're dropped
+    accounts: publicState.accounts
+      .filter(({ user }) => secrets[user.id])
+      .map(({ user }) => ({
+        user: { ...user, email: secrets[user.id].email },
+        tokens: secrets[user.id].tokens,
+      })),
+    activeUserId: publicState.activeUserId,
+  }),
+  isLegacyState: isLegacyAuthState,
+  // The old layout is upgraded before it is split into the current one
+  migrate: ({ state, version = 0 }) => ({
+    state: migrateAuthState(state, version),
+    version: AUTH_STATE_VERSION,
+  }),
+  // The old layout also kept the bare access token under `auth_token`
+  onLegacyMigrated: removeAuthToken,
+});
+
+// Refresh the access token this long before it actually expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+const authProvider = getAuthProvider();
+
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// Shared by concurrent callers so only one refresh request per account is in flight
+const refreshesInFlight = new Map<string, Promise<string | null>>();
+// Shared by concurrent callers so the session is only checked once at a time
+let authCheckInFlight: Promise<void> | null = null;
+// Called for the active account before it stops being active (see onActiveAccountLeaving)
+const leavingListeners: ((userId: string) => Promise<void>)[] = [];
+
+const isExpiring = (tokens: AuthTokens) => tokens.expiresAt - REFRESH_MARGIN_MS <= Date.now();
+
+const cancelScheduledRefresh = () => {
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+// user, tokens and isAuthenticated always mirror the active account
+const activeSession = (accounts: SignedInAccount[], activeUserId: string | null) => {
+  const active = accounts.find(account => account.user.id === activeUserId) ?? null;
+  return {
+    accounts,
+    activeUserId: active?.user.id ?? null,
+    user: active?.user ?? null,
+    tokens: active?.tokens ?? null,
+    isAuthenticated: Boolean(active),
+  };
+};
+
+// Lets listeners finish with the active account while requests still carry its access token
+const leaveActiveAccount = async (nextUserId: string | null) => {
+  const { activeUserId } = useAuthStore.getState();
+  if (!activeUserId || activeUserId === nextUserId) return;
+  
+  await Promise.all(leavingListeners.map(listener =>
+    listener(activeUserId).catch(error => console.error('Error leaving account:', error))
+  ));
+};
+
+// Adds or replaces an account
+const upsertAccount = (accounts: SignedInAccount[], account: SignedInAccount) => [
+  ...accounts.filter(existing => existing.user.id !== account.user.id),
+  account,
+];
+
+const updateAccount = (
+  accounts: SignedInAccount[],
+  userId: string,
+  update: (account: SignedInAccount) => SignedInAccount
+) => accounts.map(account => (account.user.id === userId ? update(account) : account));
+
+// Signs out an account whose session can't be renewed; the active one reports why
+const endExpiredSession = (userId: string) => {
+  const wasActive = userId === useAuthStore.getState().activeUserId;
+  if (wasActive) {
+    cancelScheduledRefresh();
+  }
+  
+  useAuthStore.setState(state => ({
+    ...activeSession(
+      state.accounts.filter(account => account.user.id !== userId),
+      wasActive ? null : state.activeUserId
+    ),
+    ...(wasActive ? { errors: { general: SESSION_EXPIRED_MESSAGE } } : {}),
+  }));
+};
+
+const scheduleRefresh = (tokens: AuthTokens) => {
+  cancelScheduledRefresh();
+  const delay = Math.max(tokens.expiresAt - REFRESH_MARGIN_MS - Date.now(), 0);
+  refreshTimer = setTimeout(() => {
+    useAuthStore.getState().refreshSession();
+  }, delay);
+};
+
 /**
  * Authentication store using Zustand
  * 
- * This implementation uses mock data for now, but is structured to be easily
- * connected to a real API with OAuth 2.0 in the future.
+ * All backend calls go through an AuthProvider (see services/auth-provider).
+ * The mock provider works off the mock users; the HTTP provider talks to the
+ * API. Which one is used is set by EXPO_PUBLIC_AUTH_PROVIDER.
+ * 
+ * Sessions consist of a short-lived access token and a refresh token. The
+ * access token is refreshed shortly before it expires, and API requests that
+ * fail with 401 are retried once after a refresh. If refreshing fails the user
+ * is logged out with SESSION_EXPIRED_MESSAGE as the general error.
+ * 
+ * Errors are reported per field in `errors` (see utils/auth-validation) so
+ * forms can highlight the exact input; `errors.general` holds the rest.
+ * 
+ * Several accounts can be signed in at once (e.g. players sharing a club
+ * tablet). Each keeps its own tokens in `accounts`; `user`, `tokens` and
+ * `isAuthenticated` describe the active one, chosen with `switchAccount`.
+ * Only the active account's token is refreshed in the background; others are
+ * refreshed when switched to.
+ * 
+ * Persisted state is split: tokens and users' emails are kept in the
+ * keychain via expo-secure-store, only non-sensitive fields go to AsyncStorage.
+ * The payload is versioned; see store/auth-migrations before changing its shape.
+ * 
+ * New accounts must confirm their email before they can log in: signup (or a
+ * login attempt on an unverified account) sets `pendingVerification`, which is
+ * cleared by `verifyEmail(code)`.
  * 
  * Required API endpoints:
  * - POST /auth/login - Login with email, password, and username
  * - POST /auth/register - Register new user
+ * - POST /auth/verify-email - Confirm the emailed verification code
+ * - POST /auth/resend-verification - Send a new verification code
+ * - POST /auth/password-reset - Request a password reset token by email
+ * - POST /auth/password-reset/confirm - Set a new password with a reset token
+ * - PUT /auth/password - Change password
+ * - GET /users/username-available - Check username availability
+ * - POST /auth/refresh - Refresh the access token
  * - POST /auth/logout - Logout user
  * - GET /auth/me - Get current user info
  * - PUT /users/profile - Update user profile
  * - POST /users/avatar - Upload user avatar
+ * - POST /users/connections - Add a connection
+ * - DELETE /users/connections/:userId - Remove a connection
+ * 
+ * Profile edits, avatar uploads and connection changes are applied locally
+ * first and replayed by useProfileSyncStore, so they work offline.
  */
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
+      accounts: [],
+      activeUserId: null,
       user: null,
       isAuthenticated: false,
       isLoading: false,
-      error: null,
-      token: null,
+      errors: {},
+      tokens: null,
+      pendingVerification: null,
+      passwordResetRequest: IDLE_REQUEST,
+      passwordResetConfirm: IDLE_REQUEST,
+      passwordChange: IDLE_REQUEST,
       
-      checkAuth: async () => {
-        set({ isLoading: true });
-        try {
-          // In a real app, this would validate the token with the API
-          // GET /auth/me
-          // const response = await api.get('/auth/me');
-          // set({ user: response.data, isAuthenticated: true, isLoading: false });
-          
-          // For now, we'll use the mock current user if we have a token
-          const token = await AsyncStorage.getItem('auth_token');
-          if (token) {
-            set({ 
-              user: currentUser, 
-              isAuthenticated: true, 
-              token,
-              isLoading: false 
-            });
-          } else {
-            set({ 
-              user: null, 
-              isAuthenticated: false, 
-              token: null,
-              isLoading: false 
-            });
-          }
-        } catch (error) {
-          console.error('Auth check error:', error);
-          // If token validation fails, clear the token
-          await removeAuthToken();
-          set({ 
-            user: null, 
-            isAuthenticated: false, 
-            token: null,
-            isLoading: false 
-          });
+      checkAuth: () => {
+        if (authCheckInFlight) {
+          return authCheckInFlight;
         }
+        
+        const check = (async () => {
+          set({ isLoading: true });
+          try {
+            // Make sure the persisted accounts have been loaded before validating them
+            if (!useAuthStore.persist.hasHydrated()) {
+              await useAuthStore.persist.rehydrate();
+            }
+            
+            const { activeUserId } = get();
+            if (!activeUserId) {
+              set({ isLoading: false });
+              return;
+            }
+            
+            // Validates (and if needed refreshes) the active account's session
+            await get().switchAccount(activeUserId);
+            set({ isLoading: false });
+          } catch (error) {
+            console.error('Auth check error:', error);
+            set({ isLoading: false });
+          }
+        })();
+        
+        authCheckInFlight = check;
+        check.finally(() => {
+          authCheckInFlight = null;
+        });
+        return check;
       },
       
       login: async (email, password, username) => {
-        set({ isLoading: true, error: null });
+        set({ isLoading: true, errors: {} });
         
         try {
-          // In a real app with OAuth 2.0, this would be:
-          // POST /auth/login
-          // const response = await api.post('/auth/login', { email, password, username });
-          // await setAuthToken(response.data.token);
-          // set({ user: response.data.user, token: response.data.token, isAuthenticated: true, isLoading: false });
-          
-          // For now, we'll just check if the email exists in our mock users
-          const user = users.find(u => u.email === email && u.username === username);
-          
-          if (!user) {
-            throw new Error('Invalid credentials');
+          const fieldErrors = validateLogin(email, password, username);
+          if (hasFieldErrors(fieldErrors)) {
+            throw validationError(fieldErrors);
           }
           
-          // Mock token generation
-          const mockToken = `mock_token_${Math.random().toString(36).substring(2)}`;
-          await setAuthToken(mockToken);
+          const { user, tokens } = await authProvider.login(email.trim(), password, username.trim());
+          await leaveActiveAccount(user.id);
+          scheduleRefresh(tokens);
           
-          set({ 
-            user, 
-            token: mockToken,
-            isAuthenticated: true, 
+          // Signing in adds the account (or replaces its old session) and makes it active
+          set(state => ({ 
+            ...activeSession(upsertAccount(state.accounts, { user, tokens }), user.id),
+            pendingVerification: null,
             isLoading: false 
-          });
+          }));
         } catch (error) {
+          const needsVerification = error instanceof AuthError && error.code === 'email_not_verified';
           set({ 
-            error: error instanceof Error ? error.message : 'An error occurred', 
+            errors: toAuthErrors(error, 'An error occurred'), 
+            pendingVerification: needsVerification ? { email: email.trim() } : null,
             isLoading: false 
           });
         }
       },
       
       signup: async (name, email, password, username = '', location = '') => {
-        set({ isLoading: true, error: null });
+        set({ isLoading: true, errors: {} });
         
         try {
-          // In a real app with OAuth 2.0, this would be:
-          // POST /auth/register
-          // const response = await api.post('/auth/register', { name, email, password, username, location });
-          // Note: We don't set the token here as we want the user to login after registration
-          
-          // Check if email already exists
-          const existingUser = users.find(u => u.email === email);
-          if (existingUser) {
-            throw new Error('Email already in use');
+          const fieldErrors = validateSignup(name, email, password, username, location);
+          if (hasFieldErrors(fieldErrors)) {
+            throw validationError(fieldErrors);
           }
           
-          // Check if username already exists
-          if (username) {
-            const existingUsername = users.find(u => u.username === username);
-            if (existingUsername) {
-              throw new Error('Username already taken');
-            }
+          if (username && !(await authProvider.isUsernameAvailable(username))) {
+            throw validationError({ username: 'Username already taken' });
           }
           
-          // For now, we'll just create a mock user
-          const newUser: User = {
-            id: (users.length + 1).toString(),
-            name,
-            username: username || email.split('@')[0],
-            email,
-            avatar: 'https://images.unsplash.com/photo-1570295999919-56ceb5ecca61?q=80&w=200&auto=format&fit=crop',
-            bio: 'New snooker enthusiast',
-            location: location || '',
-            stats: {
-              winRate: 0,
-              highestBreak: 0,
-              averageBreak: 0,
-              potSuccessRate: 0,
-              gamesPlayed: 0,
-              totalPoints: 0,
-              skillLevel: 1
-            },
-            connections: [],
-            isOnline: true,
-            lastActive: new Date().toISOString()
-          };
+          // Make sure a username derived from the email is valid and not taken either
+          const resolvedUsername = username || await deriveUsername(email.trim(), authProvider.isUsernameAvailable);
           
-          // In a real app, we would not authenticate the user here
-          // We would just return success and let them login
-          set({ isLoading: false });
+          // Note: No session is started here as we want the user to login after registration
+          await authProvider.register({
+            name: name.trim(),
+            email: email.trim(),
+            password,
+            username: resolvedUsername,
+            location: location.trim(),
+          });
           
-          // We don't return the user anymore since the function is declared to return void
+          set({ pendingVerification: { email: email.trim() }, isLoading: false });
         } catch (error) {
           set({ 
-            error: error instanceof Error ? error.message : 'An error occurred', 
+            errors: toAuthErrors(error, 'An error occurred'), 
             isLoading: false 
           });
           throw error; // Re-throw to allow handling in the component
         }
       },
       
-      logout: async () => {
+      verifyEmail: async (code) => {
+        const pending = get().pendingVerification;
+        if (!pending) return;
+        
+        set({ isLoading: true, errors: {} });
+        
         try {
-          // In a real app with OAuth 2.0, this would be:
-          // POST /auth/logout
-          // await api.post('/auth/logout');
-          
-          // Remove token from storage
-          await removeAuthToken();
+          await authProvider.verifyEmail(pending.email, code);
           
+          // The user still logs in themselves once verified
+          set({ pendingVerification: null, isLoading: false });
+        } catch (error) {
           set({ 
-            user: null, 
-            token: null,
-            isAuthenticated: false 
+            errors: toAuthErrors(error, 'Failed to verify email'), 
+            isLoading: false 
           });
+          throw error;
+        }
+      },
+      
+      resendVerification: async () => {
+        const pending = get().pendingVerification;
+        if (!pending) return;
+        
+        set({ isLoading: true, errors: {} });
+        
+        try {
+          await authProvider.resendVerification(pending.email);
+          set({ isLoading: false });
         } catch (error) {
-          console.error('Logout error:', error);
-          // Even if the API call fails, we should still clear local state
-          await removeAuthToken();
           set({ 
-            user: null, 
-            token: null,
-            isAuthenticated: false 
+            errors: toAuthErrors(error, 'Failed to resend verification email'), 
+            isLoading: false 
           });
         }
       },
       
-      updateProfile: async (data) => {
-        set({ isLoading: true, error: null });
+      requestPasswordReset: async (email) => {
+        set({ passwordResetRequest: { ...IDLE_REQUEST, isLoading: true } });
         
         try {
-          // In a real app with OAuth 2.0, this would be:
-          // PUT /users/profile
-          // const response = await api.put('/users/profile', data);
-          // set({ user: response.data, isLoading: false });
+          const emailError = validateEmail(email);
+          if (emailError) {
+            throw validationError({ email: emailError });
+          }
           
-          // Update user data
-          set(state => ({
-            user: state.user ? { ...state.user, ...data } : null,
-            isLoading: false
-          }));
+          await authProvider.requestPasswordReset(email.trim());
+          set({ passwordResetRequest: { ...IDLE_REQUEST, isSuccess: true } });
         } catch (error) {
           set({ 
-            error: error instanceof Error ? error.message : 'Failed to update profile', 
-            isLoading: false 
+            passwordResetRequest: { ...IDLE_REQUEST, errors: toAuthErrors(error, 'Failed to request password reset') }
           });
         }
       },
       
-      uploadAvatar: async (uri) => {
-        set({ isLoading: true, error: null });
+      confirmPasswordReset: async (token, newPassword) => {
+        set({ passwordResetConfirm: { ...IDLE_REQUEST, isLoading: true } });
         
         try {
-          // In a real app with OAuth 2.0, this would be:
-          // POST /users/avatar
-          // const formData = new FormData();
-          // formData.append('avatar', { uri, type: 'image/jpeg', name: 'avatar.jpg' });
-          // const response = await api.post('/users/avatar', formData);
-          // set(state => ({
-          //   user: state.user ? { ...state.user, avatar: response.data.avatarUrl } : null,
-          //   isLoading: false
-          // }));
+          const fieldErrors = validatePasswordReset(token, newPassword);
+          if (hasFieldErrors(fieldErrors)) {
+            throw validationError(fieldErrors);
+          }
           
-          // Update user avatar
-          set(state => ({
-            user: state.user ? { ...state.user, avatar: uri } : null,
-            isLoading: false
-          }));
+          await authProvider.confirmPasswordReset(token.trim(), newPassword);
+          set({ passwordResetConfirm: { ...IDLE_REQUEST, isSuccess: true } });
         } catch (error) {
           set({ 
-            error: error instanceof Error ? error.message : 'Failed to upload avatar', 
-            isLoading: false 
+            passwordResetConfirm: {
+              ...IDLE_REQUEST,
+              errors: error instanceof AuthError && error.code === 'invalid_reset_token'
+                ? { resetToken: error.message }
+                : toAuthErrors(error, 'Failed to reset password')
+            }
           });
         }
       },
       
-      clearError: () => {
-        set({ error: null });
+      changePassword: async (currentPassword, newPassword) => {
+        set({ passwordChange: { ...IDLE_REQUEST, isLoading: true } });
+        
+        try {
+          const fieldErrors = validatePasswordChange(currentPassword, newPassword);
+          if (hasFieldErrors(fieldErrors)) {
+            throw validationError(fieldErrors);
+          }
+          
+          await authProvider.changePassword(currentPassword, newPassword);
+          set({ passwordChange: { ...IDLE_REQUEST, isSuccess: true } });
+        } catch (error) {
+          set({ 
+            passwordChange: { ...IDLE_REQUEST, errors: toAuthErrors(error, 'Failed to change password') }
+          });
+        }
+      },
+      
+      resetPasswordRequests: () => {
+        set({
+          passwordResetRequest: IDLE_REQUEST,
+          passwordResetConfirm: IDLE_REQUEST,
+          passwordChange: IDLE_REQUEST,
+        });
+      },
+      
+      switchAccount: async (userId) => {
+        const account = get().accounts.find(existing => existing.user.id === userId);
+        if (!account) {
+          throw new Error('Account is not signed in');
+        }
+        
+        await leaveActiveAccount(userId);
+        set(state => ({ ...activeSession(state.accounts, userId), errors: {} }));
+        
+        try {
+          let tokens = account.tokens;
+          if (isExpiring(tokens)) {
+            // refreshSession signs the account out if this fails
+            if (!(await get().refreshSession(userId))) {
+              return;
+            }
+            const refreshed = get().accounts.find(existing => existing.user.id === userId);
+            if (!refreshed) {
+              return;
+            }
+            tokens = refreshed.tokens;
+          } else {
+            scheduleRefresh(tokens);
+          }
+          
+          const serverUser = await authProvider.getCurrentUser(tokens.accessToken);
+          
+          // Keep local edits that haven't synced yet on top of the server copy
+          const { queue, flush } = useProfileSyncStore.getState();
+          get().syncUser(applyQueuedMutations(serverUser, queue));
+          flush();
+        } catch (error) {
+          // If token validation fails, sign this account out
+          if (error instanceof AuthError && error.code === 'invalid_token') {
+            endExpiredSession(userId);
+          }
+          throw error;
+        }
+      },
+      
+      getSignedInAccounts: () => {
+        return get().accounts.map(account => account.user);
+      },
+      
+      logout: async (userId) => {
+        const targetId = userId ?? get().activeUserId;
+        const account = get().accounts.find(existing => existing.user.id === targetId);
+        if (!account) return;
+        
+        const isActive = targetId === get().activeUserId;
+        if (isActive) {
+          await leaveActiveAccount(null);
+        }
+        
+        try {
+          await authProvider.logout(account.tokens.refreshToken);
+        } catch (error) {
+          // Even if the API call fails, we should still clear local state
+          console.error('Logout error:', error);
+        }
+        
+        if (isActive) {
+          cancelScheduledRefresh();
+        }
+        
+        // Other accounts stay signed in, but none becomes active automatically
+        set(state => activeSession(
+          state.accounts.filter(existing => existing.user.id !== targetId),
+          isActive ? null : state.activeUserId
+        ));
+      },
+      
+      refreshSession: (userId) => {
+        const targetId = userId ?? get().activeUserId;
+        if (!targetId) {
+          return Promise.resolve(null);
+        }
+        
+        const inFlight = refreshesInFlight.get(targetId);
+        if (inFlight) {
+          return inFlight;
+        }
+        
+        const refresh = (async () => {
+          const refreshToken = get().accounts.find(account => account.user.id === targetId)?.tokens.refreshToken;
+          
+          try {
+            if (!refreshToken) {
+              throw new AuthError('session_expired', SESSION_EXPIRED_MESSAGE);
+            }
+            
+            const tokens = await authProvider.refresh(refreshToken);
+            // Only the active account is refreshed in the background
+            if (targetId === get().activeUserId) {
+              scheduleRefresh(tokens);
+            }
+            set(state => activeSession(
+              updateAccount(state.accounts, targetId, account => ({ ...account, tokens })),
+              state.activeUserId
+            ));
+            
+            return tokens.accessToken;
+          } catch (error) {
+            console.error('Token refresh error:', error);
+            // Don't fall back to any cached user; this account's session is over
+            endExpiredSession(targetId);
+            
+            return null;
+          }
+        })();
+        
+        refreshesInFlight.set(targetId, refresh);
+        refresh.finally(() => refreshesInFlight.delete(targetId));
+        return refresh;
+      },
+      
+      updateProfile: async (data) => {
+        const { user } = get();
+        if (!user) return null;
+        
+        set({ errors: {} });
+        
+        try {
+          const fieldErrors = validateProfile(data);
+          if (hasFieldErrors(fieldErrors)) {
+            throw validationError(fieldErrors);
+          }
+          
+          // Offline, the server checks the username when the change syncs
+          if (
+            data.username !== undefined &&
+            data.username.toLowerCase() !== user.username.toLowerCase() &&
+            useProfileSyncStore.getState().isOnline &&
+            !(await authProvider.isUsernameAvailable(data.username))
+          ) {
+            throw validationError({ username: 'Username already taken' });
+          }
+        } catch (error) {
+          set({ errors: toAuthErrors(error, 'Failed to update profile') });
+          throw error;
+        }
+        
+        // Remember what the edited fields looked like, for conflict resolution on sync
+        const base = pickFields(user, Object.keys(data) as (keyof User)[]);
+        
+        get().syncUser({ ...user, ...data });
+        return useProfileSyncStore.getState().enqueue(user.id, { kind: 'patch', data, base });
+      },
+      
+      isUsernameAvailable: async (username) => {
+        const { user } = get();
+        if (user && user.username.toLowerCase() === username.toLowerCase()) {
+          return true;
+        }
+        return authProvider.isUsernameAvailable(username);
+      },
+      
+      uploadAvatar: async (uri) => {
+        const { user } = get();
+        if (!user) return null;
+        
+        // Show the local image until the upload has gone through
+        set({ errors: {} });
+        get().syncUser({ ...user, avatar: uri });
+        return useProfileSyncStore.getState().enqueue(user.id, { kind: 'avatar', uri, previousUri: user.avatar });
+      },
+      
+      addConnection: async (userId) => {
+        const { user } = get();
+        if (!user || user.connections.includes(userId)) return;
+        
+        get().syncUser({ ...user, connections: [...user.connections, userId] });
+        useProfileSyncStore.getState().enqueue(user.id, { kind: 'connection-add', targetUserId: userId });
+      },
+      
+      removeConnection: async (userId) => {
+        const { user } = get();
+        if (!user || !user.connections.includes(userId)) return;
+        
+        get().syncUser({ ...user, connections: user.connections.filter(id => id !== userId) });
+        useProfileSyncStore.getState().enqueue(user.id, { kind: 'connection-remove', targetUserId: userId });
+      },
+      
+      syncUser: (user) => {
+        set(state => activeSession(
+          updateAccount(state.accounts, user.id, account => ({ ...account, user })),
+          state.activeUserId
+        ));
+      },
+      
+      clearError: (field) => {
+        set(state => {
+          if (!field) {
+            return { errors: {} };
+          }
+          const { [field]: _cleared, ...errors } = state.errors;
+          return { errors };
+        });
       }
     }),
     {
       name: 'snookiq-auth',
-      storage: createJSONStorage(() => AsyncStorage),
+      storage: createJSONStorage(() => authStorage),
+      version: AUTH_STATE_VERSION,
+      migrate: migrateAuthState,
+      // Same-version payloads skip `migrate`, so validate them here as well
+      merge: (persistedState, currentState) => {
+        const { accounts, activeUserId } = sanitizePersistedAuthState(persistedState);
+        return { ...currentState, ...activeSession(accounts, activeUserId) };
+      },
+      // Loading flags and errors are never persisted
+      partialize: (state): PersistedAuthState => ({
+        accounts: state.accounts,
+        activeUserId: state.activeUserId,
+      }),
     }
   )
-);
\ No newline at end of file
+);
+
+/**
+ * Registers work to do for the active account before another account
+ * becomes active or it signs out, such as telling the server it went offline
+ */
+export const onActiveAccountLeaving = (listener: (userId: string) => Promise<void>) => {
+  leavingListeners.push(listener);
+};
+
+// The signed-in user, for actions that need one; throws when signed out
+export const requireCurrentUser = (): User => {
+  const { user } = useAuthStore.getState();
+  if (!user) {
+    throw new Error('You need to be logged in');
+  }
+  return user;
+};
+
+export const requireCurrentUserId = () => requireCurrentUser().id;
+
+installAuthInterceptor({
+  getAccessToken: () => useAuthStore.getState().tokens?.accessToken ?? null,
+  refreshAccessToken: () => useAuthStore.getState().refreshSession(),
+});
+
+connectProfileSync({
+  getActiveSession: () => {
+    const { user, tokens } = useAuthStore.getState();
+    return user && tokens ? { user, accessToken: tokens.accessToken } : null;
+  },
+  syncUser: user => useAuthStore.getState().syncUser(user),
+});
\ No newline at end of file
@@ -0,0 +1,179 @@
+export type AuthField =
+  | 'name'
+  | 'email'
+  | 'password'
+  | 'username'
+  | 'location'
+  | 'bio'
+  | 'currentPassword'
+  | 'newPassword'
+  | 'resetToken';
+
+// Per-field messages, keyed so forms can highlight the exact input
+export type FieldErrors<F extends string = AuthField> = Partial<Record<F, string>>;
+
+export const NAME_MAX_LENGTH = 50;
+export const LOCATION_MAX_LENGTH = 100;
+export const BIO_MAX_LENGTH = 300;
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+
+// Letters, digits, underscores and dots; must start with a letter
+const USERNAME_PATTERN = /^[a-z][a-z0-9_.]*$/i;
+const USERNAME_INVALID_CHARS = /[^a-z0-9_.]/gi;
+
+// Deliberately simple: anything@anything.tld, no whitespace
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+// Names that could be mistaken for staff accounts or clash with app routes
+export const RESERVED_USERNAMES = [
+  'admin',
+  'administrator',
+  'api',
+  'help',
+  'login',
+  'me',
+  'moderator',
+  'profile',
+  'root',
+  'settings',
+  'signup',
+  'snookiq',
+  'support',
+  'system',
+];
+
+export const validateName = (name: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Name is required';
+  if (trimmed.length > NAME_MAX_LENGTH) return `Name must be at most ${NAME_MAX_LENGTH} characters`;
+  return null;
+};
+
+export const validateEmail = (email: string): string | null => {
+  const trimmed = email.trim();
+  if (!trimmed) return 'Email is required';
+  if (!EMAIL_PATTERN.test(trimmed)) return 'Enter a valid email address';
+  return null;
+};
+
+export const validatePassword = (password: string): string | null => {
+  if (!password) return 'Password is required';
+  if (password.length < PASSWORD_MIN_LENGTH) return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  if (password.length > PASSWORD_MAX_LENGTH) return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  if (!/[a-z]/.test(password)) return 'Password must contain a lowercase letter';
+  if (!/[A-Z]/.test(password)) return 'Password must contain an uppercase letter';
+  if (!/[0-9]/.test(password)) return 'Password must contain a number';
+  return null;
+};
+
+export const validateUsername = (username: string): string | null => {
+  if (!username) return 'Username is required';
+  if (username.length < USERNAME_MIN_LENGTH) return `Username must be at least ${USERNAME_MIN_LENGTH} characters`;
+  if (username.length > USERNAME_MAX_LENGTH) return `Username must be at most ${USERNAME_MAX_LENGTH} characters`;
+  if (!USERNAME_PATTERN.test(username)) return 'Username must start with a letter and contain only letters, numbers, "_" and "."';
+  if (RESERVED_USERNAMES.includes(username.toLowerCase())) return 'This username is reserved';
+  return null;
+};
+
+export const validateLocation = (location: string): string | null => {
+  if (location.trim().length > LOCATION_MAX_LENGTH) return `Location must be at most ${LOCATION_MAX_LENGTH} characters`;
+  return null;
+};
+
+export const validateBio = (bio: string): string | null => {
+  if (bio.trim().length > BIO_MAX_LENGTH) return `Bio must be at most ${BIO_MAX_LENGTH} characters`;
+  return null;
+};
+
+const collect = <F extends string>(checks: Record<F, string | null>): FieldErrors<F> => {
+  const errors: FieldErrors<F> = {};
+  (Object.keys(checks) as F[]).forEach(field => {
+    const message = checks[field];
+    if (message) {
+      errors[field] = message;
+    }
+  });
+  return errors;
+};
+
+export const hasFieldErrors = (errors: FieldErrors<string>) => Object.keys(errors).length > 0;
+
+/**
+ * Login only checks that the fields are usable; the password policy is not
+ * applied so accounts created under older rules can still sign in.
+ */
+export const validateLogin = (email: string, password: string, username: string): FieldErrors =>
+  collect({
+    email: validateEmail(email),
+    password: password ? null : 'Password is required',
+    username: username.trim() ? null : 'Username is required',
+  });
+
+// `username` is optional at signup; one is derived from the email when omitted
+export const validateSignup = (
+  name: string,
+  email: string,
+  password: string,
+  username: string,
+  location: string
+): FieldErrors =>
+  collect({
+    name: validateName(name),
+    email: validateEmail(email),
+    password: validatePassword(password),
+    username: username ? validateUsername(username) : null,
+    location: validateLocation(location),
+  });
+
+/**
+ * Builds a valid, available username from an email address
+ *
+ * The local part is stripped to the allowed characters and suffixed with a
+ * number until `isAvailable` accepts it, e.g. "john.smith2".
+ */
+export const deriveUsername = async (
+  email: string,
+  isAvailable: (username: string) => Promise<boolean>
+): Promise<string> => {
+  let base = email.split('@')[0].replace(USERNAME_INVALID_CHARS, '').toLowerCase();
+  if (!/^[a-z]/.test(base)) {
+    base = `player${base}`;
+  }
+  base = base.slice(0, USERNAME_MAX_LENGTH - 4).padEnd(USERNAME_MIN_LENGTH, '0');
+  
+  let candidate = base;
+  for (let suffix = 2; validateUsername(candidate) || !(await isAvailable(candidate)); suffix++) {
+    candidate = `${base}${suffix}`;
+  }
+  return candidate;
+};
+
+// Only the fields present in `data` are checked
+export const validateProfile = (data: {
+  name?: string;
+  username?: string;
+  bio?: string;
+  location?: string;
+}): FieldErrors =>
+  collect({
+    name: data.name === undefined ? null : validateName(data.name),
+    username: data.username === undefined ? null : validateUsername(data.username),
+    bio: data.bio === undefined ? null : validateBio(data.bio),
+    location: data.location === undefined ? null : validateLocation(data.location),
+  });
+
+export const validatePasswordReset = (resetToken: string, newPassword: string): FieldErrors =>
+  collect({
+    resetToken: resetToken.trim() ? null : 'Reset code is required',
+    newPassword: validatePassword(newPassword),
+  });
+
+export const validatePasswordChange = (currentPassword: string, newPassword: string): FieldErrors =>
+  collect({
+    currentPassword: currentPassword ? null : 'Current password is required',
+    newPassword: validatePassword(newPassword) ??
+      (newPassword === currentPassword ? 'New password must be different from the current one' : null),
+  });
\ No newline at end of file
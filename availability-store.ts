@@ -0,0 +1,109 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireCurrentUserId } from '@/store/auth-store';
+
+/**
+ * A weekly time window in which a player can usually play
+ *
+ * `day` is 0 (Sunday) to 6 (Saturday), like Date.getDay(); times are minutes
+ * after midnight in the player's local time. Windows don't cross midnight.
+ */
+export interface AvailabilityWindow {
+  id: string;
+  day: number;
+  startMinute: number;
+  endMinute: number;
+}
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Shortest window worth declaring
+export const MIN_WINDOW_MINUTES = 60;
+
+interface AvailabilityState {
+  // Declared windows per player
+  windows: Record<string, AvailabilityWindow[]>;
+  getWindows: (userId: string) => AvailabilityWindow[];
+  addWindow: (window: Omit<AvailabilityWindow, 'id'>) => Promise<void>;
+  removeWindow: (windowId: string) => Promise<void>;
+}
+
+// Evening and weekend slots for the mock players
+const mockWindows: Record<string, AvailabilityWindow[]> = {
+  '1': [
+    { id: '1-1', day: 2, startMinute: 18 * 60, endMinute: 22 * 60 },
+    { id: '1-2', day: 6, startMinute: 10 * 60, endMinute: 16 * 60 }
+  ],
+  '2': [
+    { id: '2-1', day: 2, startMinute: 19 * 60, endMinute: 23 * 60 },
+    { id: '2-2', day: 4, startMinute: 18 * 60, endMinute: 21 * 60 }
+  ],
+  '3': [
+    { id: '3-1', day: 0, startMinute: 12 * 60, endMinute: 18 * 60 },
+    { id: '3-2', day: 6, startMinute: 14 * 60, endMinute: 20 * 60 }
+  ]
+};
+
+export const formatMinute = (minute: number) =>
+  `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+
+export const formatWindow = ({ day, startMinute, endMinute }: Omit<AvailabilityWindow, 'id'>) =>
+  `${DAY_NAMES[day]} ${formatMinute(startMinute)}-${formatMinute(endMinute)}`;
+
+/**
+ * Availability store using Zustand
+ *
+ * Players declare the weekly windows in which they can usually play; the
+ * matchmaking store prefers opponents whose windows overlap theirs.
+ *
+ * Required API endpoints:
+ * - GET /users/:id/availability - A player's windows
+ * - PUT /users/me/availability - Replace the current user's windows { windows }
+ */
+export const useAvailabilityStore = create<AvailabilityState>()(
+  persist(
+    (set, get) => ({
+      windows: mockWindows,
+
+      getWindows: (userId) =>
+        [...(get().windows[userId] ?? [])].sort((a, b) => a.day - b.day || a.startMinute - b.startMinute),
+
+      addWindow: async ({ day, startMinute, endMinute }) => {
+        const userId = requireCurrentUserId();
+        if (!Number.isInteger(day) || day < 0 || day > 6) {
+          throw new Error('Choose a day of the week');
+        }
+        if (startMinute < 0 || endMinute > 24 * 60 || endMinute - startMinute < MIN_WINDOW_MINUTES) {
+          throw new Error(`A window must be at least ${MIN_WINDOW_MINUTES} minutes long`);
+        }
+
+        const own = get().windows[userId] ?? [];
+        if (own.some(other => other.day === day && other.startMinute < endMinute && startMinute < other.endMinute)) {
+          throw new Error('This window overlaps one you already have');
+        }
+
+        const windows = [...own, { id: Date.now().toString(), day, startMinute, endMinute }];
+
+        // In a real app, this would use the API:
+        // await api.put('/users/me/availability', { windows });
+
+        set(state => ({ windows: { ...state.windows, [userId]: windows } }));
+      },
+
+      removeWindow: async (windowId) => {
+        const userId = requireCurrentUserId();
+        const windows = (get().windows[userId] ?? []).filter(window => window.id !== windowId);
+
+        // In a real app, this would use the API:
+        // await api.put('/users/me/availability', { windows });
+
+        set(state => ({ windows: { ...state.windows, [userId]: windows } }));
+      }
+    }),
+    {
+      name: 'snookiq-availability',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
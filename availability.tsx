@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import {
+  useAvailabilityStore,
+  DAY_NAMES,
+  MIN_WINDOW_MINUTES,
+  formatMinute,
+  formatWindow
+} from '@/store/availability-store';
+import colors from '@/constants/colors';
+
+const STEP_MINUTES = 30;
+const DAY_MINUTES = 24 * 60;
+
+const TimeStepper = ({ label, value, min, max, onChange }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <View style={styles.stepperRow}>
+    <Text style={styles.stepperLabel}>{label}</Text>
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value - STEP_MINUTES)}
+        disabled={value - STEP_MINUTES < min}
+      >
+        <Text style={styles.stepperButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{formatMinute(value)}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value + STEP_MINUTES)}
+        disabled={value + STEP_MINUTES > max}
+      >
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+export default function AvailabilityScreen() {
+  const { user } = useAuthStore();
+  const availabilityStore = useAvailabilityStore();
+
+  const [day, setDay] = useState(new Date().getDay());
+  const [startMinute, setStartMinute] = useState(18 * 60);
+  const [endMinute, setEndMinute] = useState(21 * 60);
+
+  const windows = user ? availabilityStore.getWindows(user.id) : [];
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update availability');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Availability',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.hint}>
+          Tell other players when you can usually play. Suggested opponents are matched on these times.
+        </Text>
+
+        {windows.length === 0 ? (
+          <Text style={styles.emptyText}>No times added yet</Text>
+        ) : (
+          windows.map(window => (
+            <View key={window.id} style={styles.windowRow}>
+              <Text style={styles.windowText}>{formatWindow(window)}</Text>
+              <TouchableOpacity onPress={() => run(() => availabilityStore.removeWindow(window.id))}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+
+        <Text style={styles.sectionTitle}>Add a time</Text>
+        <View style={styles.days}>
+          {DAY_NAMES.map((name, index) => (
+            <TouchableOpacity
+              key={name}
+              style={[styles.dayChip, index === day && styles.dayChipSelected]}
+              onPress={() => setDay(index)}
+            >
+              <Text style={styles.dayChipText}>{name.slice(0, 3)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TimeStepper
+          label="From"
+          value={startMinute}
+          min={0}
+          max={endMinute - MIN_WINDOW_MINUTES}
+          onChange={setStartMinute}
+        />
+        <TimeStepper
+          label="Until"
+          value={endMinute}
+          min={startMinute + MIN_WINDOW_MINUTES}
+          max={DAY_MINUTES}
+          onChange={setEndMinute}
+        />
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => run(() => availabilityStore.addWindow({ day, startMinute, endMinute }))}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  windowText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  removeText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  days: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  dayChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  dayChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  dayChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  stepperLabel: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: colors.text,
+  },
+  stepperValue: {
+    width: 64,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  addButtonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,21 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { CalendarEvent, buildIcsEvent } from '@/utils/ics';
+
+/**
+ * Saves an event as a .ics file and opens the share sheet, from which the
+ * player can add it to their calendar app
+ */
+export const shareCalendarEvent = async (event: CalendarEvent, fileName: string) => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}.ics`;
+  await FileSystem.writeAsStringAsync(uri, buildIcsEvent(event));
+  await Sharing.shareAsync(uri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Add to calendar',
+  });
+};
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Chat } from '@/types';
+import { useChatStore } from '@/store/chat-store';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+
+const isDirectChatBetween = (chat: Chat, userA: string, userB: string) =>
+  !chat.isGroup &&
+  chat.participantIds.length === 2 &&
+  chat.participantIds.includes(userA) &&
+  chat.participantIds.includes(userB);
+
+// Chats being created, so a double tap doesn't create the same chat twice
+const pendingDirectChats = new Map<string, Promise<Chat>>();
+
+/**
+ * The one-to-one chat between two players, created on first use
+ *
+ * In a real app, this would use the API:
+ * POST /chats/direct { userId } - returns the existing chat if there is one
+ */
+export const getOrCreateDirectChat = async (userA: string, userB: string): Promise<Chat> => {
+  if (userA === userB) {
+    throw new Error("You can't message yourself");
+  }
+
+  const existing = useChatStore.getState().chats.find(chat => isDirectChatBetween(chat, userA, userB));
+  if (existing) {
+    return existing;
+  }
+
+  const key = [userA, userB].sort().join(':');
+  const pending = pendingDirectChats.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const request = (async () => {
+    const now = new Date().toISOString();
+    const chat = await useChatStore.getState().createChat({
+      participantIds: [userA, userB],
+      isGroup: false,
+      name: '',
+      createdAt: now,
+      creatorId: userA,
+      lastMessageAt: now
+    });
+    if (!chat) {
+      throw new Error('Failed to create chat');
+    }
+    return chat;
+  })();
+
+  pendingDirectChats.set(key, request);
+  try {
+    return await request;
+  } finally {
+    pendingDirectChats.delete(key);
+  }
+};
+
+/**
+ * A group chat with members of a club, named after the club
+ *
+ * Only members can start one, and only with other approved members; the
+ * current user is always included.
+ *
+ * In a real app, this would use the API:
+ * POST /clubs/:id/chats { userIds }
+ */
+export const createClubGroupChat = async (clubId: string, memberIds: string[]): Promise<Chat> => {
+  const userId = requireCurrentUserId();
+  const clubStore = useClubStore.getState();
+  const club = clubStore.getClub(clubId);
+  if (!club) {
+    throw new Error('Club not found');
+  }
+  if (clubStore.getMembership(clubId, userId)?.status !== 'approved') {
+    throw new Error('Only club members can start a club chat');
+  }
+
+  const approvedIds = clubStore.getMembers(clubId).map(member => member.userId);
+  const participantIds = [userId, ...memberIds.filter(id => id !== userId && approvedIds.includes(id))];
+  if (participantIds.length < 2) {
+    throw new Error('Choose at least one other member');
+  }
+
+  const now = new Date().toISOString();
+  const chat = await useChatStore.getState().createChat({
+    participantIds,
+    isGroup: true,
+    name: club.name,
+    createdAt: now,
+    creatorId: userId,
+    lastMessageAt: now
+  });
+  if (!chat) {
+    throw new Error('Failed to create chat');
+  }
+  return chat;
+};
\ No newline at end of file
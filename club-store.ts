@@ -0,0 +1,354 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Club } from '@/types';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { mockProfiles } from '@/mocks/profiles';
+
+export interface ClubDetails {
+  id: string;
+  name: string;
+  location: string;
+  website?: string;
+  // All members, including those whose memberships aren't loaded on this device
+  memberCount: number;
+  createdAt: string;
+}
+
+export type MembershipStatus = 'pending' | 'approved';
+
+/**
+ * A player's membership of a club, or their request to join it
+ *
+ * `role` is the title shown on profiles ("Member", "Senior Member", ...).
+ * Admins can approve requests, change roles and record achievements.
+ */
+export interface Membership {
+  id: string;
+  clubId: string;
+  userId: string;
+  status: MembershipStatus;
+  role: string;
+  isAdmin: boolean;
+  achievements: string[];
+  requestedAt: string;
+  approvedAt: string | null;
+}
+
+export const MEMBER_ROLES = ['Member', 'Senior Member', 'Committee Member', 'Captain', 'Coach'];
+const DEFAULT_ROLE = MEMBER_ROLES[0];
+
+interface ClubState {
+  clubs: Record<string, ClubDetails>;
+  memberships: Record<string, Membership>;
+  getClub: (clubId: string) => ClubDetails | null;
+  getMembership: (clubId: string, userId: string) => Membership | null;
+  getMembers: (clubId: string) => Membership[];
+  getJoinRequests: (clubId: string) => Membership[];
+  isAdmin: (clubId: string, userId: string) => boolean;
+  // The user's approved memberships in the shape profiles show
+  getUserClubs: (userId: string) => Club[];
+  requestToJoin: (clubId: string) => Promise<void>;
+  cancelRequest: (clubId: string) => Promise<void>;
+  leaveClub: (clubId: string) => Promise<void>;
+  approveRequest: (clubId: string, userId: string) => Promise<void>;
+  declineRequest: (clubId: string, userId: string) => Promise<void>;
+  setRole: (clubId: string, userId: string, role: string) => Promise<void>;
+  setAdmin: (clubId: string, userId: string, isAdmin: boolean) => Promise<void>;
+  addAchievement: (clubId: string, userId: string, achievement: string) => Promise<void>;
+  removeAchievement: (clubId: string, userId: string, achievement: string) => Promise<void>;
+}
+
+const membershipKey = (clubId: string, userId: string) => `${clubId}:${userId}`;
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+// "January 2020" from the mock data, as an ISO date
+const parseMemberSince = (value: string) => {
+  const [month, year] = value.split(' ');
+  return new Date(Number(year), Math.max(0, MONTHS.indexOf(month)), 1).toISOString();
+};
+
+const formatMemberSince = (iso: string) => {
+  const date = new Date(iso);
+  return `${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+};
+
+/**
+ * Clubs and memberships from the mock profiles
+ *
+ * The first seeded member of each club becomes its admin.
+ */
+const seed = () => {
+  const clubs: Record<string, ClubDetails> = {};
+  const memberships: Record<string, Membership> = {};
+
+  Object.entries(mockProfiles).forEach(([userId, profile]) => {
+    profile.clubs.forEach(club => {
+      const joinedAt = parseMemberSince(club.memberSince);
+      const isFirstMember = !clubs[club.id];
+
+      clubs[club.id] = clubs[club.id] ?? {
+        id: club.id,
+        name: club.name,
+        location: club.location,
+        website: club.website,
+        memberCount: club.memberCount,
+        createdAt: joinedAt
+      };
+      memberships[membershipKey(club.id, userId)] = {
+        id: membershipKey(club.id, userId),
+        clubId: club.id,
+        userId,
+        status: 'approved',
+        role: club.role ?? DEFAULT_ROLE,
+        isAdmin: isFirstMember,
+        achievements: club.achievements ?? [],
+        requestedAt: joinedAt,
+        approvedAt: joinedAt
+      };
+    });
+  });
+
+  return { clubs, memberships };
+};
+
+/**
+ * Club store using Zustand
+ *
+ * Players ask to join a club and become members once an admin approves
+ * them; their membership date is the approval date. Admins manage roles and
+ * achievements. A club always keeps at least one admin while it has members.
+ *
+ * Required API endpoints:
+ * - GET /clubs/:id - Club details
+ * - GET /clubs/:id/members - Members and, for admins, join requests
+ * - GET /users/:id/clubs - A user's memberships
+ * - POST /clubs/:id/requests - Ask to join
+ * - DELETE /clubs/:id/requests - Cancel a join request
+ * - DELETE /clubs/:id/members/me - Leave a club
+ * - POST /clubs/:id/requests/:userId/approve - Approve a request (admin)
+ * - DELETE /clubs/:id/requests/:userId - Decline a request (admin)
+ * - PATCH /clubs/:id/members/:userId - Change role or admin rights (admin)
+ * - POST /clubs/:id/members/:userId/achievements - Record an achievement (admin)
+ * - DELETE /clubs/:id/members/:userId/achievements - Remove an achievement (admin)
+ */
+export const useClubStore = create<ClubState>()(
+  persist(
+    (set, get) => {
+      // Profiles load memberships as the `clubs` section, refetched after every change
+      const save = (membership: Membership) => {
+        set(state => ({ memberships: { ...state.memberships, [membership.id]: membership } }));
+        useProfileDataStore.getState().invalidate(membership.userId, 'clubs');
+      };
+
+      const remove = ({ id, userId }: Membership) => {
+        set(state => {
+          const { [id]: _removed, ...memberships } = state.memberships;
+          return { memberships };
+        });
+        useProfileDataStore.getState().invalidate(userId, 'clubs');
+      };
+
+      const adjustMemberCount = (clubId: string, change: number) => {
+        set(state => {
+          const club = state.clubs[clubId];
+          if (!club) return state;
+          return { clubs: { ...state.clubs, [clubId]: { ...club, memberCount: Math.max(0, club.memberCount + change) } } };
+        });
+      };
+
+      const requireAdmin = (clubId: string) => {
+        const userId = requireCurrentUserId();
+        if (!get().isAdmin(clubId, userId)) {
+          throw new Error('Only club admins can do this');
+        }
+        return userId;
+      };
+
+      const requireMember = (clubId: string, userId: string) => {
+        const membership = get().getMembership(clubId, userId);
+        if (membership?.status !== 'approved') {
+          throw new Error('This player is not a member of the club');
+        }
+        return membership;
+      };
+
+      return {
+        ...seed(),
+
+        getClub: (clubId) => get().clubs[clubId] ?? null,
+
+        getMembership: (clubId, userId) => get().memberships[membershipKey(clubId, userId)] ?? null,
+
+        getMembers: (clubId) =>
+          Object.values(get().memberships)
+            .filter(membership => membership.clubId === clubId && membership.status === 'approved')
+            .sort((a, b) => Number(b.isAdmin) - Number(a.isAdmin) || (a.approvedAt ?? '').localeCompare(b.approvedAt ?? '')),
+
+        getJoinRequests: (clubId) =>
+          Object.values(get().memberships)
+            .filter(membership => membership.clubId === clubId && membership.status === 'pending')
+            .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt)),
+
+        isAdmin: (clubId, userId) => {
+          const membership = get().getMembership(clubId, userId);
+          return membership?.status === 'approved' && membership.isAdmin;
+        },
+
+        getUserClubs: (userId) =>
+          Object.values(get().memberships)
+            .filter(membership => membership.userId === userId && membership.status === 'approved')
+            .flatMap(membership => {
+              const club = get().getClub(membership.clubId);
+              if (!club) return [];
+
+              return [{
+                id: club.id,
+                name: club.name,
+                location: club.location,
+                memberSince: formatMemberSince(membership.approvedAt ?? membership.requestedAt),
+                role: membership.isAdmin && membership.role === DEFAULT_ROLE ? 'Admin' : membership.role,
+                achievements: membership.achievements,
+                memberCount: club.memberCount,
+                website: club.website
+              }];
+            }),
+
+        requestToJoin: async (clubId) => {
+          const userId = requireCurrentUserId();
+          if (!get().getClub(clubId)) {
+            throw new Error('Club not found');
+          }
+          if (get().getMembership(clubId, userId)) return;
+
+          // In a real app, this would use the API:
+          // await api.post(`/clubs/${clubId}/requests`);
+
+          save({
+            id: membershipKey(clubId, userId),
+            clubId,
+            userId,
+            status: 'pending',
+            role: DEFAULT_ROLE,
+            isAdmin: false,
+            achievements: [],
+            requestedAt: new Date().toISOString(),
+            approvedAt: null
+          });
+        },
+
+        cancelRequest: async (clubId) => {
+          const userId = requireCurrentUserId();
+          const membership = get().getMembership(clubId, userId);
+          if (membership?.status !== 'pending') return;
+
+          // In a real app, this would use the API:
+          // await api.delete(`/clubs/${clubId}/requests`);
+
+          remove(membership);
+        },
+
+        leaveClub: async (clubId) => {
+          const userId = requireCurrentUserId();
+          const membership = get().getMembership(clubId, userId);
+          if (membership?.status !== 'approved') return;
+
+          const members = get().getMembers(clubId);
+          const isLastAdmin = membership.isAdmin && !members.some(member => member.isAdmin && member.userId !== userId);
+          if (isLastAdmin && members.length > 1) {
+            throw new Error('Make another member an admin before leaving the club');
+          }
+
+          // In a real app, this would use the API:
+          // await api.delete(`/clubs/${clubId}/members/me`);
+
+          remove(membership);
+          adjustMemberCount(clubId, -1);
+        },
+
+        approveRequest: async (clubId, userId) => {
+          requireAdmin(clubId);
+          const membership = get().getMembership(clubId, userId);
+          if (membership?.status !== 'pending') {
+            throw new Error('There is no request to approve');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/clubs/${clubId}/requests/${userId}/approve`);
+
+          save({ ...membership, status: 'approved', approvedAt: new Date().toISOString() });
+          adjustMemberCount(clubId, 1);
+        },
+
+        declineRequest: async (clubId, userId) => {
+          requireAdmin(clubId);
+          const membership = get().getMembership(clubId, userId);
+          if (membership?.status !== 'pending') return;
+
+          // In a real app, this would use the API:
+          // await api.delete(`/clubs/${clubId}/requests/${userId}`);
+
+          remove(membership);
+        },
+
+        setRole: async (clubId, userId, role) => {
+          requireAdmin(clubId);
+          const membership = requireMember(clubId, userId);
+          if (!role.trim()) {
+            throw new Error('Role is required');
+          }
+
+          // In a real app, this would use the API:
+          // await api.patch(`/clubs/${clubId}/members/${userId}`, { role });
+
+          save({ ...membership, role: role.trim() });
+        },
+
+        setAdmin: async (clubId, userId, isAdmin) => {
+          const adminId = requireAdmin(clubId);
+          const membership = requireMember(clubId, userId);
+          if (!isAdmin && userId === adminId && !get().getMembers(clubId).some(member => member.isAdmin && member.userId !== adminId)) {
+            throw new Error('A club needs at least one admin');
+          }
+
+          // In a real app, this would use the API:
+          // await api.patch(`/clubs/${clubId}/members/${userId}`, { isAdmin });
+
+          save({ ...membership, isAdmin });
+        },
+
+        addAchievement: async (clubId, userId, achievement) => {
+          requireAdmin(clubId);
+          const membership = requireMember(clubId, userId);
+          const trimmed = achievement.trim();
+          if (!trimmed) {
+            throw new Error('Achievement is required');
+          }
+          if (membership.achievements.includes(trimmed)) return;
+
+          // In a real app, this would use the API:
+          // await api.post(`/clubs/${clubId}/members/${userId}/achievements`, { achievement: trimmed });
+
+          save({ ...membership, achievements: [...membership.achievements, trimmed] });
+        },
+
+        removeAchievement: async (clubId, userId, achievement) => {
+          requireAdmin(clubId);
+          const membership = requireMember(clubId, userId);
+
+          // In a real app, this would use the API:
+          // await api.delete(`/clubs/${clubId}/members/${userId}/achievements`, { data: { achievement } });
+
+          save({ ...membership, achievements: membership.achievements.filter(item => item !== achievement) });
+        }
+      };
+    },
+    {
+      name: 'snookiq-clubs',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,454 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Linking,
+  Alert
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore, Membership, MEMBER_ROLES } from '@/store/club-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import { useChatStore } from '@/store/chat-store';
+import { createClubGroupChat } from '@/store/chat-threads';
+import { deepLinkHref } from '@/utils/deep-links';
+import colors from '@/constants/colors';
+
+const runClubAction = async (action: () => Promise<void>) => {
+  try {
+    await action();
+  } catch (error) {
+    console.error('Error updating club:', error);
+    Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update club');
+  }
+};
+
+interface MemberRowProps {
+  membership: Membership;
+  onPress: () => void;
+  children?: React.ReactNode;
+}
+
+// One member or applicant, with their name loaded from their profile
+const MemberRow = ({ membership, onPress, children }: MemberRowProps) => {
+  const { data: user } = useProfileSection(membership.userId, 'user');
+
+  return (
+    <View style={styles.memberCard}>
+      <TouchableOpacity style={styles.memberRow} onPress={onPress}>
+        {user?.avatar ? (
+          <Image source={{ uri: user.avatar }} style={styles.memberAvatar} />
+        ) : (
+          <View style={styles.memberAvatar} />
+        )}
+        <View style={styles.memberInfo}>
+          <Text style={styles.memberName}>{user?.name ?? 'Loading...'}</Text>
+          <Text style={styles.memberRole}>
+            {membership.status === 'pending'
+              ? `Requested ${new Date(membership.requestedAt).toLocaleDateString()}`
+              : `${membership.role}${membership.isAdmin ? ' · Admin' : ''}`}
+          </Text>
+        </View>
+      </TouchableOpacity>
+      {children}
+    </View>
+  );
+};
+
+export default function ClubScreen() {
+  const router = useRouter();
+  const { clubId } = useLocalSearchParams<{ clubId: string }>();
+  const { activeUserId } = useAuthStore();
+  const clubStore = useClubStore();
+  const { setActiveChat } = useChatStore();
+
+  // Member whose role and achievements an admin is editing
+  const [managingUserId, setManagingUserId] = useState<string | null>(null);
+  const [achievement, setAchievement] = useState('');
+  // Members picked for a new group chat; null when not picking
+  const [chatMemberIds, setChatMemberIds] = useState<string[] | null>(null);
+
+  const club = clubId ? clubStore.getClub(clubId) : null;
+
+  if (!club) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Club' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>Club not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const members = clubStore.getMembers(club.id);
+  const membership = activeUserId ? clubStore.getMembership(club.id, activeUserId) : null;
+  const isAdmin = activeUserId ? clubStore.isAdmin(club.id, activeUserId) : false;
+  const joinRequests = isAdmin ? clubStore.getJoinRequests(club.id) : [];
+
+  const handleMembershipAction = () => {
+    if (!membership) {
+      runClubAction(() => clubStore.requestToJoin(club.id));
+    } else if (membership.status === 'pending') {
+      runClubAction(() => clubStore.cancelRequest(club.id));
+    } else {
+      Alert.alert('Leave club', `Leave ${club.name}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Leave', style: 'destructive', onPress: () => runClubAction(() => clubStore.leaveClub(club.id)) }
+      ]);
+    }
+  };
+
+  const handleAddAchievement = (userId: string) => runClubAction(async () => {
+    await clubStore.addAchievement(club.id, userId, achievement);
+    setAchievement('');
+  });
+
+  const openProfile = (userId: string) => router.push(`/profile?userId=${userId}`);
+
+  const toggleChatMember = (userId: string) => {
+    setChatMemberIds(current =>
+      current && (current.includes(userId) ? current.filter(id => id !== userId) : [...current, userId])
+    );
+  };
+
+  const handleCreateGroupChat = () => runClubAction(async () => {
+    const chat = await createClubGroupChat(club.id, chatMemberIds ?? []);
+    setChatMemberIds(null);
+    setActiveChat(chat);
+    router.push(deepLinkHref({ type: 'chat', chatId: chat.id }));
+  });
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: club.name,
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.clubCard}>
+          <Text style={styles.clubName}>{club.name}</Text>
+          <Text style={styles.clubDetail}>{club.location}</Text>
+          <Text style={styles.clubDetail}>{club.memberCount} {club.memberCount === 1 ? 'member' : 'members'}</Text>
+          {club.website && (
+            <TouchableOpacity onPress={() => Linking.openURL(club.website!)}>
+              <Text style={styles.link}>{club.website}</Text>
+            </TouchableOpacity>
+          )}
+
+          {activeUserId && (
+            <TouchableOpacity
+              style={[styles.button, membership && styles.secondaryButton]}
+              onPress={handleMembershipAction}
+            >
+              <Text style={styles.buttonText}>
+                {!membership ? 'Request to Join' : membership.status === 'pending' ? 'Cancel Request' : 'Leave Club'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {joinRequests.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Join requests</Text>
+            {joinRequests.map(request => (
+              <MemberRow key={request.id} membership={request} onPress={() => openProfile(request.userId)}>
+                <View style={styles.actions}>
+                  <TouchableOpacity onPress={() => runClubAction(() => clubStore.declineRequest(club.id, request.userId))}>
+                    <Text style={styles.destructiveAction}>Decline</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => runClubAction(() => clubStore.approveRequest(club.id, request.userId))}>
+                    <Text style={styles.action}>Approve</Text>
+                  </TouchableOpacity>
+                </View>
+              </MemberRow>
+            ))}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>Members</Text>
+        {membership?.status === 'approved' && members.length > 1 && (
+          chatMemberIds === null ? (
+            <TouchableOpacity style={[styles.button, styles.chatButton]} onPress={() => setChatMemberIds([])}>
+              <Text style={styles.buttonText}>Start a group chat</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.chatPicker}>
+              <Text style={styles.memberRole}>Choose the members to add</Text>
+              <View style={styles.actions}>
+                <TouchableOpacity onPress={() => setChatMemberIds(null)}>
+                  <Text style={styles.secondaryAction}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setChatMemberIds(members.map(member => member.userId))}>
+                  <Text style={styles.action}>Everyone</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={handleCreateGroupChat} disabled={chatMemberIds.length === 0}>
+                  <Text style={styles.action}>Create ({chatMemberIds.filter(id => id !== activeUserId).length})</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )
+        )}
+        {members.map(member => {
+          const isManaging = isAdmin && managingUserId === member.userId;
+
+          return (
+            <MemberRow key={member.id} membership={member} onPress={() => openProfile(member.userId)}>
+              {chatMemberIds !== null && member.userId !== activeUserId && (
+                <TouchableOpacity onPress={() => toggleChatMember(member.userId)}>
+                  <Text style={chatMemberIds.includes(member.userId) ? styles.action : styles.secondaryAction}>
+                    {chatMemberIds.includes(member.userId) ? '✓ Added to chat' : 'Add to chat'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {member.achievements.map(item => (
+                <View key={item} style={styles.achievementRow}>
+                  <Text style={styles.achievement}>🏆 {item}</Text>
+                  {isManaging && (
+                    <TouchableOpacity onPress={() => runClubAction(() => clubStore.removeAchievement(club.id, member.userId, item))}>
+                      <Text style={styles.destructiveAction}>Remove</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+
+              {isAdmin && !isManaging && (
+                <TouchableOpacity onPress={() => setManagingUserId(member.userId)}>
+                  <Text style={styles.action}>Manage</Text>
+                </TouchableOpacity>
+              )}
+
+              {isManaging && (
+                <View style={styles.managePanel}>
+                  <View style={styles.roleChips}>
+                    {MEMBER_ROLES.map(role => (
+                      <TouchableOpacity
+                        key={role}
+                        style={[styles.roleChip, role === member.role && styles.roleChipSelected]}
+                        onPress={() => runClubAction(() => clubStore.setRole(club.id, member.userId, role))}
+                      >
+                        <Text style={styles.roleChipText}>{role}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <TouchableOpacity onPress={() => runClubAction(() => clubStore.setAdmin(club.id, member.userId, !member.isAdmin))}>
+                    <Text style={styles.action}>{member.isAdmin ? 'Remove admin rights' : 'Make admin'}</Text>
+                  </TouchableOpacity>
+
+                  <View style={styles.achievementInput}>
+                    <TextInput
+                      style={styles.input}
+                      value={achievement}
+                      onChangeText={setAchievement}
+                      placeholder="Record an achievement"
+                      placeholderTextColor={colors.textSecondary}
+                    />
+                    <TouchableOpacity onPress={() => handleAddAchievement(member.userId)} disabled={!achievement.trim()}>
+                      <Text style={styles.action}>Add</Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  <TouchableOpacity onPress={() => { setManagingUserId(null); setAchievement(''); }}>
+                    <Text style={styles.secondaryAction}>Done</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </MemberRow>
+          );
+        })}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  clubCard: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 16,
+  },
+  clubName: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 4,
+  },
+  clubDetail: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  link: {
+    fontSize: 14,
+    color: colors.primary,
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  secondaryButton: {
+    backgroundColor: colors.background,
+  },
+  chatButton: {
+    marginTop: 0,
+    marginBottom: 12,
+  },
+  chatPicker: {
+    marginBottom: 12,
+  },
+  buttonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  memberCard: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+    backgroundColor: colors.background,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  memberRole: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 8,
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  secondaryAction: {
+    color: colors.textSecondary,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  destructiveAction: {
+    color: colors.error,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  achievementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  achievement: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text,
+    marginTop: 6,
+  },
+  managePanel: {
+    marginTop: 8,
+  },
+  roleChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  roleChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  roleChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  roleChipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  achievementInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: colors.text,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import colors from '@/constants/colors';
+
+export default function ClubsScreen() {
+  const router = useRouter();
+  const { activeUserId } = useAuthStore();
+  const clubStore = useClubStore();
+
+  const clubs = Object.values(clubStore.clubs).sort((a, b) => a.name.localeCompare(b.name));
+
+  const getStatusLabel = (clubId: string) => {
+    const membership = activeUserId ? clubStore.getMembership(clubId, activeUserId) : null;
+    if (!membership) return null;
+    if (membership.status === 'pending') return 'Requested';
+    return clubStore.isAdmin(clubId, membership.userId) ? 'Admin' : 'Member';
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Clubs',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <FlatList
+        data={clubs}
+        keyExtractor={club => club.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={<Text style={styles.emptyText}>No clubs yet</Text>}
+        renderItem={({ item: club }) => {
+          const status = getStatusLabel(club.id);
+
+          return (
+            <TouchableOpacity
+              style={styles.clubCard}
+              onPress={() => router.push(`/club?clubId=${club.id}`)}
+            >
+              <View style={styles.clubInfo}>
+                <Text style={styles.clubName}>{club.name}</Text>
+                <Text style={styles.clubDetail}>
+                  {club.location} · {club.memberCount} {club.memberCount === 1 ? 'member' : 'members'}
+                </Text>
+              </View>
+              {status && <Text style={styles.status}>{status}</Text>}
+            </TouchableOpacity>
+          );
+        }}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  clubCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  clubInfo: {
+    flex: 1,
+  },
+  clubName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  clubDetail: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+});
\ No newline at end of file
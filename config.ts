@@ -0,0 +1,24 @@
+/**
+ * Runtime configuration
+ *
+ * Values are read from EXPO_PUBLIC_* environment variables so the app can be
+ * pointed at a different backend without touching the stores, e.g.
+ *
+ *   EXPO_PUBLIC_AUTH_PROVIDER=http npx expo start
+ *
+ * runs the app against whatever server the `api` client is configured for
+ * (a local stand-in server during development).
+ */
+export type BackendMode = 'mock' | 'http';
+
+const parseBackendMode = (value: string | undefined): BackendMode =>
+  value === 'http' ? 'http' : 'mock';
+
+const config = {
+  // Which AuthProvider implementation useAuthStore talks to
+  authProvider: parseBackendMode(process.env.EXPO_PUBLIC_AUTH_PROVIDER),
+  // Where profile sections are loaded from; follows the auth provider unless set
+  profileData: parseBackendMode(process.env.EXPO_PUBLIC_PROFILE_DATA ?? process.env.EXPO_PUBLIC_AUTH_PROVIDER),
+};
+
+export default config;
\ No newline at end of file
@@ -0,0 +1,301 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuthStore, requireCurrentUserId } from '@/store/auth-store';
+import { useMatchStore } from '@/store/match-store';
+import { runOptimistic } from '@/utils/optimistic';
+
+export type ConnectionStatus = 'pending' | 'accepted' | 'declined' | 'blocked';
+
+/**
+ * One record per pair of players, shared by both sides
+ *
+ * `requesterId` sent the request; for blocked pairs `blockedBy` is the player
+ * who blocked the other.
+ */
+export interface Connection {
+  id: string;
+  requesterId: string;
+  receiverId: string;
+  status: ConnectionStatus;
+  blockedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A connection as seen by one of the two players
+export type ConnectionView =
+  | 'none'
+  | 'request-sent'
+  | 'request-received'
+  | 'connected'
+  | 'declined'
+  | 'blocked'
+  | 'blocked-by-them';
+
+interface ConnectionState {
+  connections: Record<string, Connection>;
+  getConnection: (userA: string, userB: string) => Connection | null;
+  getView: (viewerId: string, otherId: string) => ConnectionView;
+  getConnectedIds: (userId: string) => string[];
+  isBlocked: (userA: string, userB: string) => boolean;
+  sendRequest: (otherId: string) => Promise<void>;
+  // Sends the request and a match request as one unit; rejects with an OptimisticUpdateError
+  sendRequestWithMatch: (otherId: string) => Promise<void>;
+  withdrawRequest: (otherId: string) => Promise<void>;
+  acceptRequest: (otherId: string) => Promise<void>;
+  declineRequest: (otherId: string) => Promise<void>;
+  removeConnection: (otherId: string) => Promise<void>;
+  block: (otherId: string) => Promise<void>;
+  unblock: (otherId: string) => Promise<void>;
+}
+
+export const pairKey = (userA: string, userB: string) => [userA, userB].sort().join(':');
+
+/**
+ * Keeps User.connections of both players in line with an accepted (or ended)
+ * connection. The signed-in player's list syncs through the profile outbox;
+ * the other player's list is updated by the server, and locally when that
+ * player is also signed in on this device.
+ */
+const syncUserConnections = async (userId: string, otherId: string, connected: boolean) => {
+  const auth = useAuthStore.getState();
+  
+  if (connected) {
+    await auth.addConnection(otherId);
+  } else {
+    await auth.removeConnection(otherId);
+  }
+  
+  const otherAccount = auth.accounts.find(account => account.user.id === otherId);
+  if (otherAccount) {
+    const others = otherAccount.user.connections.filter(id => id !== userId);
+    auth.syncUser({ ...otherAccount.user, connections: connected ? [...others, userId] : others });
+  }
+};
+
+/**
+ * Connection store using Zustand
+ * 
+ * Connections need the other player's consent: a request stays pending until
+ * the receiver accepts or declines it. Either player can block the other,
+ * which ends any connection and hides pending requests.
+ * 
+ * Required API endpoints:
+ * - GET /connections - Connections involving the current user
+ * - POST /connections/requests - Send a request { userId }
+ * - DELETE /connections/requests/:userId - Withdraw a request
+ * - POST /connections/requests/:userId/accept - Accept a request
+ * - POST /connections/requests/:userId/decline - Decline a request
+ * - DELETE /connections/:userId - Remove a connection
+ * - POST /connections/:userId/block - Block a user
+ * - DELETE /connections/:userId/block - Unblock a user
+ */
+export const useConnectionStore = create<ConnectionState>()(
+  persist(
+    (set, get) => {
+      const save = (connection: Connection) => {
+        set(state => ({ connections: { ...state.connections, [connection.id]: connection } }));
+      };
+      
+      const remove = (id: string) => {
+        set(state => {
+          const { [id]: _removed, ...connections } = state.connections;
+          return { connections };
+        });
+      };
+      
+      return {
+        connections: {},
+        
+        getConnection: (userA, userB) => get().connections[pairKey(userA, userB)] ?? null,
+        
+        getView: (viewerId, otherId) => {
+          const connection = get().getConnection(viewerId, otherId);
+          
+          switch (connection?.status) {
+            case 'pending':
+              return connection.requesterId === viewerId ? 'request-sent' : 'request-received';
+            case 'accepted':
+              return 'connected';
+            case 'declined':
+              // Only the requester learns that the request was declined
+              return connection.requesterId === viewerId ? 'declined' : 'none';
+            case 'blocked':
+              return connection.blockedBy === viewerId ? 'blocked' : 'blocked-by-them';
+            default:
+              return 'none';
+          }
+        },
+        
+        getConnectedIds: (userId) =>
+          Object.values(get().connections)
+            .filter(connection =>
+              connection.status === 'accepted' &&
+              (connection.requesterId === userId || connection.receiverId === userId)
+            )
+            .map(connection => (connection.requesterId === userId ? connection.receiverId : connection.requesterId)),
+        
+        isBlocked: (userA, userB) => get().getConnection(userA, userB)?.status === 'blocked',
+        
+        sendRequest: async (otherId) => {
+          const userId = requireCurrentUserId();
+          if (userId === otherId) {
+            throw new Error("You can't connect with yourself");
+          }
+          
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status === 'blocked') {
+            throw new Error('This player is not available');
+          }
+          if (existing?.status === 'accepted' || (existing?.status === 'pending' && existing.requesterId === userId)) {
+            return;
+          }
+          if (existing?.status === 'pending') {
+            // They already asked us; sending back counts as accepting
+            await get().acceptRequest(otherId);
+            return;
+          }
+          
+          // In a real app, this would use the API:
+          // await api.post('/connections/requests', { userId: otherId });
+          
+          const now = new Date().toISOString();
+          save({
+            id: pairKey(userId, otherId),
+            requesterId: userId,
+            receiverId: otherId,
+            status: 'pending',
+            blockedBy: null,
+            createdAt: now,
+            updatedAt: now
+          });
+        },
+        
+        sendRequestWithMatch: async (otherId) => {
+          const userId = requireCurrentUserId();
+          // sendRequest may create a request, accept theirs or change nothing
+          const previous = get().getConnection(userId, otherId);
+          
+          await runOptimistic([
+            {
+              description: 'send the connection request',
+              run: () => get().sendRequest(otherId),
+              // Puts back whatever was there before, including a request we accepted
+              undo: async () => {
+                const connectedByRequest =
+                  get().getConnection(userId, otherId)?.status === 'accepted' && previous?.status !== 'accepted';
+                
+                if (previous) {
+                  save(previous);
+                } else {
+                  remove(pairKey(userId, otherId));
+                }
+                if (connectedByRequest) {
+                  await syncUserConnections(userId, otherId, false);
+                }
+              },
+            },
+            {
+              description: 'send the match request',
+              run: () => useMatchStore.getState().createMatch({
+                requesterId: userId,
+                receiverId: otherId,
+                status: 'pending',
+                createdAt: new Date().toISOString()
+              }),
+            },
+          ]);
+        },
+        
+        withdrawRequest: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status !== 'pending' || existing.requesterId !== userId) return;
+          
+          // In a real app, this would use the API:
+          // await api.delete(`/connections/requests/${otherId}`);
+          
+          remove(existing.id);
+        },
+        
+        acceptRequest: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status !== 'pending' || existing.receiverId !== userId) {
+            throw new Error('There is no request to accept');
+          }
+          
+          // In a real app, this would use the API:
+          // await api.post(`/connections/requests/${otherId}/accept`);
+          
+          save({ ...existing, status: 'accepted', updatedAt: new Date().toISOString() });
+          await syncUserConnections(userId, otherId, true);
+        },
+        
+        declineRequest: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status !== 'pending' || existing.receiverId !== userId) return;
+          
+          // In a real app, this would use the API:
+          // await api.post(`/connections/requests/${otherId}/decline`);
+          
+          save({ ...existing, status: 'declined', updatedAt: new Date().toISOString() });
+        },
+        
+        removeConnection: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status !== 'accepted') return;
+          
+          // In a real app, this would use the API:
+          // await api.delete(`/connections/${otherId}`);
+          
+          remove(existing.id);
+          await syncUserConnections(userId, otherId, false);
+        },
+        
+        block: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status === 'blocked') return;
+          
+          // In a real app, this would use the API:
+          // await api.post(`/connections/${otherId}/block`);
+          
+          const now = new Date().toISOString();
+          save({
+            id: pairKey(userId, otherId),
+            requesterId: existing?.requesterId ?? userId,
+            receiverId: existing?.receiverId ?? otherId,
+            status: 'blocked',
+            blockedBy: userId,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+          });
+          
+          if (existing?.status === 'accepted') {
+            await syncUserConnections(userId, otherId, false);
+          }
+        },
+        
+        unblock: async (otherId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getConnection(userId, otherId);
+          if (existing?.status !== 'blocked' || existing.blockedBy !== userId) return;
+          
+          // In a real app, this would use the API:
+          // await api.delete(`/connections/${otherId}/block`);
+          
+          // Unblocking doesn't restore the old connection
+          remove(existing.id);
+        }
+      };
+    },
+    {
+      name: 'snookiq-connections',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { buildDeepLink, deepLinkHref, deferredDeepLinkPath, parseDeepLink } from '@/utils/deep-links';
+
+describe('parseDeepLink', () => {
+  it('reads chat and profile links with the app scheme', () => {
+    expect(parseDeepLink('snookiq://chat/12')).toEqual({ type: 'chat', chatId: '12' });
+    expect(parseDeepLink('snookiq://profile/user-7')).toEqual({ type: 'profile', userId: 'user-7' });
+  });
+
+  it('reads the path the router receives', () => {
+    expect(parseDeepLink('/chat/12')).toEqual({ type: 'chat', chatId: '12' });
+    expect(parseDeepLink('profile/3/')).toEqual({ type: 'profile', userId: '3' });
+  });
+
+  it('ignores query strings and fragments', () => {
+    expect(parseDeepLink('snookiq://profile/3?ref=share')).toEqual({ type: 'profile', userId: '3' });
+    expect(parseDeepLink('snookiq://chat/12#latest')).toEqual({ type: 'chat', chatId: '12' });
+  });
+
+  it('decodes percent-encoded ids', () => {
+    expect(parseDeepLink('snookiq://chat/abc%2D1')).toEqual({ type: 'chat', chatId: 'abc-1' });
+  });
+
+  it('rejects unknown screens, missing ids and extra segments', () => {
+    expect(parseDeepLink('snookiq://settings/1')).toBeNull();
+    expect(parseDeepLink('snookiq://chat')).toBeNull();
+    expect(parseDeepLink('snookiq://chat/12/messages')).toBeNull();
+    expect(parseDeepLink('')).toBeNull();
+  });
+
+  it('rejects ids that are not plain ids', () => {
+    expect(parseDeepLink('snookiq://profile/..%2Fadmin')).toBeNull();
+    expect(parseDeepLink('snookiq://profile/a%20b')).toBeNull();
+    expect(parseDeepLink('snookiq://profile/%E0%A4%A')).toBeNull();
+  });
+
+  it('rejects links for another scheme', () => {
+    expect(parseDeepLink('https://example.com/profile/3')).toBeNull();
+  });
+});
+
+describe('buildDeepLink', () => {
+  it('builds links that parse back to the same screen', () => {
+    const chat = { type: 'chat', chatId: 'chat-42' } as const;
+    const profile = { type: 'profile', userId: '7' } as const;
+
+    expect(buildDeepLink(chat)).toBe('snookiq://chat/chat-42');
+    expect(parseDeepLink(buildDeepLink(chat))).toEqual(chat);
+    expect(parseDeepLink(buildDeepLink(profile))).toEqual(profile);
+  });
+});
+
+describe('deepLinkHref', () => {
+  it('opens chats from the network tab and profiles on the profile screen', () => {
+    expect(deepLinkHref({ type: 'chat', chatId: '12' })).toEqual({
+      pathname: '/(tabs)/network',
+      params: { openChat: '12' },
+    });
+    expect(deepLinkHref({ type: 'profile', userId: '3' })).toEqual({
+      pathname: '/profile',
+      params: { userId: '3' },
+    });
+  });
+});
+
+describe('deferredDeepLinkPath', () => {
+  it('points at the link screen with the link in its query', () => {
+    expect(deferredDeepLinkPath({ type: 'profile', userId: '3' })).toBe('/link?type=profile&id=3');
+    expect(deferredDeepLinkPath({ type: 'chat', chatId: 'a b' })).toBe('/link?type=chat&id=a%20b');
+  });
+});
\ No newline at end of file
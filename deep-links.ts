@@ -0,0 +1,67 @@
+import { Href } from 'expo-router';
+
+export const DEEP_LINK_SCHEME = 'snookiq';
+
+/**
+ * Screens the app can be opened at from outside
+ *
+ * - snookiq://chat/<chatId>
+ * - snookiq://profile/<userId>
+ */
+export type DeepLink =
+  | { type: 'chat'; chatId: string }
+  | { type: 'profile'; userId: string };
+
+const ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * Reads a deep link from a full URL ("snookiq://chat/12") or the path the
+ * router receives ("/chat/12"); null for anything else
+ */
+export const parseDeepLink = (url: string): DeepLink | null => {
+  const path = url
+    .replace(new RegExp(`^${DEEP_LINK_SCHEME}://`), '')
+    .replace(/[?#].*$/, '');
+  const [type, rawId, ...rest] = path.split('/').filter(Boolean);
+
+  let id: string;
+  try {
+    id = decodeURIComponent(rawId ?? '');
+  } catch {
+    return null;
+  }
+  if (rest.length > 0 || !ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  switch (type) {
+    case 'chat':
+      return { type: 'chat', chatId: id };
+    case 'profile':
+      return { type: 'profile', userId: id };
+    default:
+      return null;
+  }
+};
+
+export const buildDeepLink = (link: DeepLink) =>
+  link.type === 'chat'
+    ? `${DEEP_LINK_SCHEME}://chat/${encodeURIComponent(link.chatId)}`
+    : `${DEEP_LINK_SCHEME}://profile/${encodeURIComponent(link.userId)}`;
+
+/**
+ * The in-app route a deep link opens
+ */
+export const deepLinkHref = (link: DeepLink): Href =>
+  link.type === 'chat'
+    ? { pathname: '/(tabs)/network', params: { openChat: link.chatId } }
+    : { pathname: '/profile', params: { userId: link.userId } };
+
+/**
+ * Path of the screen that opens a deep link once the signed-in session is
+ * known (see link.tsx)
+ */
+export const deferredDeepLinkPath = (link: DeepLink) =>
+  link.type === 'chat'
+    ? `/link?type=chat&id=${encodeURIComponent(link.chatId)}`
+    : `/link?type=profile&id=${encodeURIComponent(link.userId)}`;
\ No newline at end of file
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ability } from '@/types';
+import { AbilityRadarChart } from '@/components/profile/AbilityRadarChart';
+import { useAuthStore } from '@/store/auth-store';
+import { useAbilityStore } from '@/store/ability-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import {
+  ABILITY_MIN,
+  ABILITY_MAX,
+  ABILITY_NAMES,
+  suggestAbilities
+} from '@/utils/ability-suggestions';
+import colors from '@/constants/colors';
+
+const DEFAULT_RATING = 5;
+
+// Every standard ability, plus any custom ones the player already rated
+const withAllAbilities = (abilities: Ability[]): Ability[] => [
+  ...ABILITY_NAMES.map(name => abilities.find(ability => ability.name === name) ?? { name, value: DEFAULT_RATING }),
+  ...abilities.filter(ability => !ABILITY_NAMES.includes(ability.name)),
+];
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric'
+});
+
+export default function EditAbilitiesScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { getHistory, getLatest, saveAssessment } = useAbilityStore();
+  const abilitySection = useProfileSection(user?.id, 'abilities');
+
+  const history = user ? getHistory(user.id) : [];
+  const latest = user ? getLatest(user.id) : null;
+  const suggestions = user ? suggestAbilities(user.stats) : {};
+
+  const [draft, setDraft] = useState<Ability[]>(() =>
+    withAllAbilities(latest?.abilities ?? abilitySection.data ?? [])
+  );
+  // Assessment overlaid on the chart; defaults to the latest saved one
+  const [comparisonId, setComparisonId] = useState<string | null>(latest?.id ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const comparison = history.find(assessment => assessment.id === comparisonId) ?? null;
+
+  const setRating = (name: string, value: number) => {
+    const clamped = Math.min(ABILITY_MAX, Math.max(ABILITY_MIN, value));
+    setDraft(current => current.map(ability => (ability.name === name ? { ...ability, value: clamped } : ability)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveAssessment(draft);
+      router.back();
+    } catch (error) {
+      console.error('Error saving abilities:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save abilities');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Edit Abilities' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>You need to be logged in to edit your abilities</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Edit Abilities',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+          headerRight: () => (
+            <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={styles.headerAction}>Save</Text>
+              )}
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <AbilityRadarChart
+          abilities={draft}
+          comparison={comparison?.abilities}
+          comparisonLabel={comparison ? formatDate(comparison.createdAt) : undefined}
+          isEditable={false}
+        />
+
+        <Text style={styles.sectionTitle}>Rate yourself</Text>
+        {draft.map(ability => {
+          const suggested = suggestions[ability.name];
+
+          return (
+            <View key={ability.name} style={styles.abilityRow}>
+              <View style={styles.abilityInfo}>
+                <Text style={styles.abilityName}>{ability.name}</Text>
+                {suggested !== undefined && (
+                  <TouchableOpacity
+                    onPress={() => setRating(ability.name, suggested)}
+                    disabled={suggested === ability.value}
+                  >
+                    <Text style={styles.suggestionText}>
+                      {suggested === ability.value
+                        ? `Matches your stats (${suggested})`
+                        : `Your stats suggest ${suggested} · Use`}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setRating(ability.name, ability.value - 1)}
+                  disabled={ability.value <= ABILITY_MIN}
+                >
+                  <Text style={styles.stepperButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>{ability.value}</Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => setRating(ability.name, ability.value + 1)}
+                  disabled={ability.value >= ABILITY_MAX}
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+
+        {history.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Compare with</Text>
+            {[...history].reverse().map(assessment => {
+              const isSelected = assessment.id === comparisonId;
+
+              return (
+                <TouchableOpacity
+                  key={assessment.id}
+                  style={[styles.historyRow, isSelected && styles.historyRowSelected]}
+                  onPress={() => setComparisonId(isSelected ? null : assessment.id)}
+                >
+                  <Text style={styles.historyDate}>{formatDate(assessment.createdAt)}</Text>
+                  <Text style={styles.historySummary} numberOfLines={1}>
+                    {assessment.abilities.map(ability => `${ability.name} ${ability.value}`).join(' · ')}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  headerAction: {
+    color: colors.primary,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  abilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  abilityInfo: {
+    flex: 1,
+  },
+  abilityName: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  suggestionText: {
+    marginTop: 2,
+    fontSize: 13,
+    color: colors.primary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: colors.text,
+  },
+  stepperValue: {
+    width: 32,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  historyRow: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.card,
+  },
+  historyRowSelected: {
+    borderColor: colors.primary,
+  },
+  historyDate: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  historySummary: {
+    marginTop: 2,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,410 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Image,
+  Switch,
+  Alert
+} from 'react-native';
+import { Stack, useNavigation, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import * as ImageManipulator from 'expo-image-manipulator';
+import { useAuthStore } from '@/store/auth-store';
+import { useProfileSyncStore } from '@/store/profile-sync-store';
+import { usePresenceStore } from '@/store/presence-store';
+import { AuthErrors } from '@/services/auth-errors';
+import { validateProfile, BIO_MAX_LENGTH } from '@/utils/auth-validation';
+import colors from '@/constants/colors';
+
+type EditableField = 'name' | 'username' | 'bio' | 'location';
+type FormValues = Record<EditableField, string>;
+
+// Avatars are uploaded as square JPEGs of this size
+const AVATAR_SIZE = 512;
+const USERNAME_CHECK_DELAY_MS = 500;
+
+const FIELDS: { key: EditableField; label: string; multiline?: boolean; autoCapitalize?: 'none' | 'words' | 'sentences' }[] = [
+  { key: 'name', label: 'Name', autoCapitalize: 'words' },
+  { key: 'username', label: 'Username', autoCapitalize: 'none' },
+  { key: 'bio', label: 'Bio', multiline: true, autoCapitalize: 'sentences' },
+  { key: 'location', label: 'Location', autoCapitalize: 'words' },
+];
+
+export default function EditProfileScreen() {
+  const router = useRouter();
+  const navigation = useNavigation();
+  const { user, errors: storeErrors, updateProfile, uploadAvatar, isUsernameAvailable, clearError } = useAuthStore();
+  const { flushEntries } = useProfileSyncStore();
+
+  const initialValues = useRef<FormValues>({
+    name: user?.name ?? '',
+    username: user?.username ?? '',
+    bio: user?.bio ?? '',
+    location: user?.location ?? '',
+  }).current;
+
+  const [values, setValues] = useState<FormValues>(initialValues);
+  const [avatarUri, setAvatarUri] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<AuthErrors>({});
+  const [usernameStatus, setUsernameStatus] = useState<'idle' | 'checking' | 'available' | 'taken'>('idle');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isProcessingAvatar, setIsProcessingAvatar] = useState(false);
+  const presenceStore = usePresenceStore();
+  const isPresenceHidden = user ? presenceStore.isHidden(user.id) : false;
+  // Set once saved so leaving the screen doesn't prompt
+  const skipDiscardPrompt = useRef(false);
+
+  const changedFields = (Object.keys(values) as EditableField[]).filter(key => values[key] !== initialValues[key]);
+  const isDirty = changedFields.length > 0 || avatarUri !== null;
+
+  // Errors reported by the store (server checks) take over from client-side ones
+  const errors: AuthErrors = { ...fieldErrors, ...storeErrors };
+
+  useEffect(() => {
+    return () => clearError();
+  }, []);
+
+  // Ask before throwing away unsaved changes
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('beforeRemove', (event) => {
+      if (!isDirty || skipDiscardPrompt.current) return;
+
+      event.preventDefault();
+      Alert.alert(
+        'Discard changes?',
+        'You have unsaved changes to your profile.',
+        [
+          { text: 'Keep Editing', style: 'cancel' },
+          { text: 'Discard', style: 'destructive', onPress: () => navigation.dispatch(event.data.action) }
+        ]
+      );
+    });
+
+    return unsubscribe;
+  }, [navigation, isDirty]);
+
+  // Debounced username availability check
+  useEffect(() => {
+    const username = values.username.trim();
+    if (username === initialValues.username || validateProfile({ username }).username) {
+      setUsernameStatus('idle');
+      return;
+    }
+
+    setUsernameStatus('checking');
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const available = await isUsernameAvailable(username);
+        if (!cancelled) {
+          setUsernameStatus(available ? 'available' : 'taken');
+        }
+      } catch (error) {
+        // Not fatal: the username is checked again on save
+        if (!cancelled) {
+          setUsernameStatus('idle');
+        }
+      }
+    }, USERNAME_CHECK_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [values.username]);
+
+  const handleChange = (key: EditableField, value: string) => {
+    setValues(current => ({ ...current, [key]: value }));
+    setFieldErrors(current => ({ ...current, [key]: undefined }));
+    clearError(key);
+  };
+
+  const handlePickAvatar = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert('Permission needed', 'Allow access to your photos to change your avatar.');
+      return;
+    }
+
+    // allowsEditing lets the user crop to a square before we get the image
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 1,
+    });
+
+    if (result.canceled || !result.assets?.length) return;
+
+    setIsProcessingAvatar(true);
+    try {
+      const resized = await ImageManipulator.manipulateAsync(
+        result.assets[0].uri,
+        [{ resize: { width: AVATAR_SIZE, height: AVATAR_SIZE } }],
+        { compress: 0.8, format: ImageManipulator.SaveFormat.JPEG }
+      );
+      setAvatarUri(resized.uri);
+    } catch (error) {
+      console.error('Error processing avatar:', error);
+      Alert.alert('Error', 'Failed to process the selected image');
+    } finally {
+      setIsProcessingAvatar(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !isDirty) {
+      router.back();
+      return;
+    }
+
+    const data: Partial<FormValues> = {};
+    changedFields.forEach(key => {
+      data[key] = values[key].trim();
+    });
+
+    const validationErrors = validateProfile(data);
+    if (usernameStatus === 'taken') {
+      validationErrors.username = 'Username already taken';
+    }
+    if (Object.keys(validationErrors).length > 0) {
+      setFieldErrors(validationErrors);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const queuedIds: string[] = [];
+      if (changedFields.length > 0) {
+        const id = await updateProfile(data);
+        if (id) queuedIds.push(id);
+      }
+      if (avatarUri) {
+        const id = await uploadAvatar(avatarUri);
+        if (id) queuedIds.push(id);
+      }
+
+      // Wait for this save's changes to sync so server-side rejections show up on the right field
+      const serverErrors = await flushEntries(queuedIds);
+      if (Object.keys(serverErrors).length > 0) {
+        setFieldErrors(serverErrors);
+        return;
+      }
+
+      skipDiscardPrompt.current = true;
+      router.back();
+    } catch (error) {
+      // Field errors are in the store; anything else is shown as a general error
+      console.error('Error saving profile:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Edit Profile' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>You need to be logged in to edit your profile</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Edit Profile',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+          headerRight: () => (
+            <TouchableOpacity onPress={handleSave} disabled={isSaving || isProcessingAvatar}>
+              {isSaving ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : (
+                <Text style={styles.saveText}>Save</Text>
+              )}
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.avatarContainer}>
+          <Image source={{ uri: avatarUri ?? user.avatar }} style={styles.avatar} />
+          <TouchableOpacity onPress={handlePickAvatar} disabled={isProcessingAvatar}>
+            {isProcessingAvatar ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={styles.changeAvatarText}>Change Photo</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {errors.general && (
+          <Text style={[styles.errorText, styles.generalError]}>{errors.general}</Text>
+        )}
+
+        {FIELDS.map(({ key, label, multiline, autoCapitalize }) => (
+          <View key={key} style={styles.field}>
+            <Text style={styles.label}>{label}</Text>
+            <TextInput
+              style={[styles.input, multiline && styles.multilineInput, errors[key] && styles.inputError]}
+              value={values[key]}
+              onChangeText={(value) => handleChange(key, value)}
+              multiline={multiline}
+              maxLength={key === 'bio' ? BIO_MAX_LENGTH : undefined}
+              autoCapitalize={autoCapitalize}
+              autoCorrect={key !== 'username'}
+              placeholderTextColor={colors.textSecondary}
+            />
+            {errors[key] ? (
+              <Text style={styles.errorText}>{errors[key]}</Text>
+            ) : key === 'username' && usernameStatus !== 'idle' ? (
+              <Text style={usernameStatus === 'taken' ? styles.errorText : styles.hintText}>
+                {usernameStatus === 'checking'
+                  ? 'Checking availability...'
+                  : usernameStatus === 'available'
+                    ? 'Username is available'
+                    : 'Username already taken'}
+              </Text>
+            ) : key === 'bio' ? (
+              <Text style={styles.hintText}>{values.bio.length}/{BIO_MAX_LENGTH}</Text>
+            ) : null}
+          </View>
+        ))}
+
+        {/* Applies right away rather than on Save */}
+        <View style={styles.switchRow}>
+          <View style={styles.switchLabel}>
+            <Text style={styles.label}>Show when I'm online</Text>
+            <Text style={styles.hintText}>When off, other players see you as offline with no last seen time</Text>
+          </View>
+          <Switch
+            value={!isPresenceHidden}
+            onValueChange={(visible) => {
+              presenceStore.setHidden(!visible).catch(error => {
+                console.error('Error updating online status:', error);
+                Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update online status');
+              });
+            }}
+            trackColor={{ true: colors.primary }}
+          />
+        </View>
+
+        <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/privacy')}>
+          <Text style={styles.label}>Privacy settings</Text>
+          <Text style={styles.changeAvatarText}>Edit</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  saveText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  avatarContainer: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    marginBottom: 12,
+  },
+  changeAvatarText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  field: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+    borderWidth: 1,
+    borderColor: colors.card,
+  },
+  multilineInput: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  errorText: {
+    marginTop: 4,
+    fontSize: 13,
+    color: colors.error,
+  },
+  generalError: {
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  hintText: {
+    marginTop: 4,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  switchLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Skill } from '@/types';
+import { useAuthStore } from '@/store/auth-store';
+import { useSkillStore, SKILL_LEVELS } from '@/store/skill-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import colors from '@/constants/colors';
+
+const LEVEL_LABELS: Record<Skill['level'], string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  expert: 'Expert',
+};
+
+const LevelPicker = ({ value, onChange }: { value: Skill['level']; onChange: (level: Skill['level']) => void }) => (
+  <View style={styles.levelPicker}>
+    {SKILL_LEVELS.map(level => (
+      <TouchableOpacity
+        key={level}
+        style={[styles.levelChip, level === value && styles.levelChipSelected]}
+        onPress={() => onChange(level)}
+      >
+        <Text style={[styles.levelChipText, level === value && styles.levelChipTextSelected]}>
+          {LEVEL_LABELS[level]}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+export default function EditSkillsScreen() {
+  const { user } = useAuthStore();
+  const skillStore = useSkillStore();
+  const skillSection = useProfileSection(user?.id, 'skills');
+
+  const [newName, setNewName] = useState('');
+  const [newLevel, setNewLevel] = useState<Skill['level']>('intermediate');
+
+  const skills = user ? skillStore.getSkills(user.id) ?? skillSection.data ?? [] : [];
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating skills:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update skills');
+    }
+  };
+
+  const handleAdd = () => run(async () => {
+    await skillStore.addSkill(newName, newLevel, skills);
+    setNewName('');
+  });
+
+  const handleRemove = (skill: Skill) => {
+    Alert.alert('Remove skill', `Remove ${skill.name}? Its endorsements will be removed too.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => run(() => skillStore.removeSkill(skill.id, skills)) }
+    ]);
+  };
+
+  if (!user) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Edit Skills' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>You need to be logged in to edit your skills</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Edit Skills',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {skills.length === 0 && (
+          <Text style={styles.emptyText}>You haven't added any skills yet.</Text>
+        )}
+
+        {skills.map(skill => (
+          <View key={skill.id} style={styles.skillCard}>
+            <View style={styles.skillHeader}>
+              <Text style={styles.skillName}>{skill.name}</Text>
+              <TouchableOpacity onPress={() => handleRemove(skill)}>
+                <Text style={styles.removeText}>Remove</Text>
+              </TouchableOpacity>
+            </View>
+            <LevelPicker
+              value={skill.level}
+              onChange={(level) => run(() => skillStore.updateSkillLevel(skill.id, level, skills))}
+            />
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Add a skill</Text>
+        <View style={styles.skillCard}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="e.g. Long Potting"
+            placeholderTextColor={colors.textSecondary}
+            returnKeyType="done"
+            onSubmitEditing={handleAdd}
+          />
+          <LevelPicker value={newLevel} onChange={setNewLevel} />
+          <TouchableOpacity
+            style={[styles.addButton, !newName.trim() && styles.addButtonDisabled]}
+            onPress={handleAdd}
+            disabled={!newName.trim()}
+          >
+            <Text style={styles.addButtonText}>Add Skill</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  skillCard: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  skillHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  skillName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  removeText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  levelPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  levelChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  levelChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  levelChipText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  levelChipTextSelected: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+  },
+  addButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
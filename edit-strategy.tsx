@@ -0,0 +1,361 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  useStrategyStore,
+  BallColor,
+  TableDiagram,
+  STRATEGY_TAGS,
+  STRATEGY_TITLE_MAX_LENGTH,
+  STRATEGY_DESCRIPTION_MAX_LENGTH
+} from '@/store/strategy-store';
+import { TableDiagramView, BALL_COLORS } from '@/components/strategy/TableDiagramView';
+import colors from '@/constants/colors';
+
+const BALLS = Object.keys(BALL_COLORS) as BallColor[];
+
+export default function EditStrategyScreen() {
+  const router = useRouter();
+  const { strategyId } = useLocalSearchParams<{ strategyId?: string }>();
+  const strategyStore = useStrategyStore();
+  const existing = strategyId ? strategyStore.getArticle(strategyId) : null;
+
+  const [title, setTitle] = useState(existing?.title ?? '');
+  const [description, setDescription] = useState(existing?.description ?? '');
+  const [body, setBody] = useState(existing?.body ?? '');
+  const [tags, setTags] = useState<string[]>(existing?.tags ?? []);
+  const [diagrams, setDiagrams] = useState<TableDiagram[]>(existing?.diagrams ?? []);
+  // Ball placed when the table of the diagram being edited is tapped
+  const [selectedBall, setSelectedBall] = useState<BallColor>('red');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleTag = (tag: string) => {
+    setTags(current => (current.includes(tag) ? current.filter(item => item !== tag) : [...current, tag]));
+  };
+
+  const updateDiagram = (id: string, update: (diagram: TableDiagram) => TableDiagram) => {
+    setDiagrams(current => current.map(diagram => (diagram.id === id ? update(diagram) : diagram)));
+  };
+
+  const addDiagram = () => {
+    setDiagrams(current => [...current, { id: Date.now().toString(), caption: '', balls: [] }]);
+  };
+
+  const removeDiagram = (id: string) => {
+    setDiagrams(current => current.filter(diagram => diagram.id !== id));
+  };
+
+  const save = async (publish: boolean) => {
+    setIsSaving(true);
+    try {
+      const article = await strategyStore.saveDraft({ title, description, body, tags, diagrams }, existing?.id);
+      if (publish) {
+        await strategyStore.publish(article.id);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Error saving strategy:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save strategy');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    if (!existing) return;
+    try {
+      await strategyStore.unpublish(existing.id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to unpublish strategy');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!existing) return;
+    Alert.alert('Delete strategy', `Delete "${existing.title}"? This can't be undone.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await strategyStore.deleteArticle(existing.id);
+            router.back();
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete strategy');
+          }
+        }
+      }
+    ]);
+  };
+
+  const isPublished = existing?.status === 'published';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: existing ? 'Edit Strategy' : 'New Strategy',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <Text style={styles.label}>Title</Text>
+        <TextInput
+          style={styles.input}
+          value={title}
+          onChangeText={setTitle}
+          maxLength={STRATEGY_TITLE_MAX_LENGTH}
+          placeholder="e.g. Playing safe off the baulk cushion"
+          placeholderTextColor={colors.textSecondary}
+        />
+
+        <Text style={styles.label}>Summary</Text>
+        <TextInput
+          style={[styles.input, styles.summaryInput]}
+          value={description}
+          onChangeText={setDescription}
+          maxLength={STRATEGY_DESCRIPTION_MAX_LENGTH}
+          multiline
+          placeholder="Shown on your profile"
+          placeholderTextColor={colors.textSecondary}
+        />
+
+        <Text style={styles.label}>Article (Markdown)</Text>
+        <TextInput
+          style={[styles.input, styles.bodyInput]}
+          value={body}
+          onChangeText={setBody}
+          multiline
+          autoCapitalize="sentences"
+          placeholder={'## When to play it\n\nUse **bold**, lists and headings...'}
+          placeholderTextColor={colors.textSecondary}
+        />
+
+        <Text style={styles.label}>Tags</Text>
+        <View style={styles.chips}>
+          {Object.entries(STRATEGY_TAGS).map(([tag, label]) => (
+            <TouchableOpacity
+              key={tag}
+              style={[styles.chip, tags.includes(tag) && styles.chipSelected]}
+              onPress={() => toggleTag(tag)}
+            >
+              <Text style={styles.chipText}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Table diagrams</Text>
+        {diagrams.length > 0 && (
+          <>
+            <Text style={styles.hint}>Tap the table to place the selected ball, tap a ball to remove it.</Text>
+            <View style={styles.chips}>
+              {BALLS.map(ball => (
+                <TouchableOpacity
+                  key={ball}
+                  style={[
+                    styles.ballSwatch,
+                    { backgroundColor: BALL_COLORS[ball] },
+                    ball === selectedBall && styles.ballSwatchSelected
+                  ]}
+                  onPress={() => setSelectedBall(ball)}
+                />
+              ))}
+            </View>
+          </>
+        )}
+        {diagrams.map(diagram => (
+          <View key={diagram.id} style={styles.diagramCard}>
+            <TableDiagramView
+              diagram={diagram}
+              onPressTable={(x, y) => updateDiagram(diagram.id, current => ({
+                ...current,
+                balls: [...current.balls, { ball: selectedBall, x, y }]
+              }))}
+              onPressBall={(index) => updateDiagram(diagram.id, current => ({
+                ...current,
+                balls: current.balls.filter((_, ballIndex) => ballIndex !== index)
+              }))}
+            />
+            <TextInput
+              style={styles.input}
+              value={diagram.caption}
+              onChangeText={(caption) => updateDiagram(diagram.id, current => ({ ...current, caption }))}
+              placeholder="Caption"
+              placeholderTextColor={colors.textSecondary}
+            />
+            <TouchableOpacity onPress={() => removeDiagram(diagram.id)}>
+              <Text style={styles.destructiveAction}>Remove diagram</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity onPress={addDiagram}>
+          <Text style={styles.action}>+ Add diagram</Text>
+        </TouchableOpacity>
+
+        {isSaving ? (
+          <ActivityIndicator style={styles.saving} color={colors.primary} />
+        ) : (
+          <View style={styles.buttons}>
+            {!isPublished && (
+              <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={() => save(false)}>
+                <Text style={styles.buttonText}>Save Draft</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.button} onPress={() => save(true)}>
+              <Text style={styles.buttonText}>{isPublished ? 'Save' : 'Publish'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {existing && (
+          <View style={styles.footerActions}>
+            {isPublished && (
+              <TouchableOpacity onPress={handleUnpublish}>
+                <Text style={styles.action}>Move back to drafts</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={handleDelete}>
+              <Text style={styles.destructiveAction}>Delete strategy</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 16,
+    marginBottom: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+  },
+  summaryInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  bodyInput: {
+    minHeight: 200,
+    textAlignVertical: 'top',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  ballSwatch: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  ballSwatchSelected: {
+    borderColor: colors.primary,
+  },
+  diagramCard: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  destructiveAction: {
+    color: colors.error,
+    fontWeight: 'bold',
+    marginTop: 8,
+  },
+  saving: {
+    marginTop: 24,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: colors.card,
+  },
+  buttonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  footerActions: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+});
\ No newline at end of file
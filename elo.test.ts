@@ -0,0 +1,87 @@
+import {
+  INITIAL_RATING,
+  PROVISIONAL_GAMES,
+  expectedScore,
+  kFactor,
+  ratingForSkillLevel,
+  skillLevelForRating,
+  updateRatings,
+} from '@/utils/elo';
+
+const newPlayer = (rating = INITIAL_RATING) => ({ rating, gamesPlayed: 0 });
+const establishedPlayer = (rating = INITIAL_RATING) => ({ rating, gamesPlayed: PROVISIONAL_GAMES });
+
+describe('expectedScore', () => {
+  it('gives evenly rated players an even chance', () => {
+    expect(expectedScore(1500, 1500)).toBe(0.5);
+  });
+
+  it('favours the higher rated player, 10 to 1 at 400 points', () => {
+    expect(expectedScore(1600, 1200)).toBeCloseTo(10 / 11);
+    expect(expectedScore(1200, 1600) + expectedScore(1600, 1200)).toBeCloseTo(1);
+  });
+});
+
+describe('kFactor', () => {
+  it('moves provisional players faster', () => {
+    expect(kFactor(0)).toBe(40);
+    expect(kFactor(PROVISIONAL_GAMES - 1)).toBe(40);
+    expect(kFactor(PROVISIONAL_GAMES)).toBe(20);
+  });
+});
+
+describe('updateRatings', () => {
+  it('moves evenly rated players by half the K-factor', () => {
+    expect(updateRatings(newPlayer(), newPlayer(), 1)).toEqual([1220, 1180]);
+    expect(updateRatings(establishedPlayer(), establishedPlayer(), 0)).toEqual([1190, 1210]);
+  });
+
+  it('leaves evenly rated players where they are after a draw', () => {
+    expect(updateRatings(newPlayer(), newPlayer(), 0.5)).toEqual([1200, 1200]);
+  });
+
+  it("uses each player's own K-factor", () => {
+    expect(updateRatings(newPlayer(), establishedPlayer(), 1)).toEqual([1220, 1190]);
+  });
+
+  it('rewards an upset more than an expected win', () => {
+    const [upset] = updateRatings(establishedPlayer(1200), establishedPlayer(1600), 1);
+    const [expected] = updateRatings(establishedPlayer(1600), establishedPlayer(1200), 1);
+
+    expect(upset - 1200).toBeGreaterThan(expected - 1600);
+  });
+});
+
+describe('skillLevelForRating', () => {
+  it('maps ratings onto levels 1-10', () => {
+    expect(skillLevelForRating(0)).toBe(1);
+    expect(skillLevelForRating(899)).toBe(1);
+    expect(skillLevelForRating(900)).toBe(2);
+    expect(skillLevelForRating(INITIAL_RATING)).toBe(5);
+    expect(skillLevelForRating(2500)).toBe(10);
+  });
+
+  it('never goes below level 1', () => {
+    expect(skillLevelForRating(-100)).toBe(1);
+  });
+});
+
+describe('ratingForSkillLevel', () => {
+  it("returns the middle of the level's range", () => {
+    expect(ratingForSkillLevel(1)).toBe(450);
+    expect(ratingForSkillLevel(5)).toBe(1250);
+    expect(ratingForSkillLevel(10)).toBe(2000);
+  });
+
+  it('rounds and clamps levels outside 1-10', () => {
+    expect(ratingForSkillLevel(4.6)).toBe(ratingForSkillLevel(5));
+    expect(ratingForSkillLevel(0)).toBe(ratingForSkillLevel(1));
+    expect(ratingForSkillLevel(12)).toBe(ratingForSkillLevel(10));
+  });
+
+  it('lands on the same level it came from', () => {
+    for (let level = 1; level <= 10; level++) {
+      expect(skillLevelForRating(ratingForSkillLevel(level))).toBe(level);
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,66 @@
+/**
+ * Elo ratings for snooker matches
+ *
+ * Every player starts at INITIAL_RATING. New players move faster (a larger
+ * K-factor) until they have played PROVISIONAL_GAMES rated matches.
+ */
+export const INITIAL_RATING = 1200;
+export const PROVISIONAL_GAMES = 20;
+const PROVISIONAL_K = 40;
+const ESTABLISHED_K = 20;
+
+/**
+ * Lowest rating of each skillLevel, from level 1 upwards
+ */
+export const SKILL_LEVEL_THRESHOLDS = [0, 900, 1000, 1100, 1200, 1300, 1400, 1550, 1700, 1900];
+
+// 1 for a win, 0.5 for a draw, 0 for a loss
+export type MatchOutcome = 1 | 0.5 | 0;
+
+export interface RatedPlayer {
+  rating: number;
+  gamesPlayed: number;
+}
+
+/**
+ * Probability (0-1) that a player rated `rating` beats one rated `opponentRating`
+ */
+export const expectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+export const kFactor = (gamesPlayed: number) =>
+  gamesPlayed < PROVISIONAL_GAMES ? PROVISIONAL_K : ESTABLISHED_K;
+
+/**
+ * New ratings of both players after a match; `outcome` is from the first
+ * player's point of view. Ratings are rounded to whole points.
+ */
+export const updateRatings = (
+  player: RatedPlayer,
+  opponent: RatedPlayer,
+  outcome: MatchOutcome
+): [number, number] => {
+  const expected = expectedScore(player.rating, opponent.rating);
+
+  return [
+    Math.round(player.rating + kFactor(player.gamesPlayed) * (outcome - expected)),
+    Math.round(opponent.rating + kFactor(opponent.gamesPlayed) * ((1 - outcome) - (1 - expected))),
+  ];
+};
+
+/**
+ * skillLevel (1-10) of a rating
+ */
+export const skillLevelForRating = (rating: number) =>
+  Math.max(1, SKILL_LEVEL_THRESHOLDS.filter(threshold => rating >= threshold).length);
+
+/**
+ * Starting rating for an experienced player who only has a skillLevel, such
+ * as accounts created before ratings existed: the middle of the level's range
+ */
+export const ratingForSkillLevel = (skillLevel: number) => {
+  const level = Math.min(SKILL_LEVEL_THRESHOLDS.length, Math.max(1, Math.round(skillLevel)));
+  const low = SKILL_LEVEL_THRESHOLDS[level - 1];
+  const high = SKILL_LEVEL_THRESHOLDS[level] ?? low + 200;
+  return Math.round((low + high) / 2);
+};
\ No newline at end of file
@@ -0,0 +1,159 @@
+import { isAxiosError } from 'axios';
+import { User } from '@/types';
+import api from '@/api';
+import { AuthProvider, AuthTokens } from '@/services/auth-provider';
+import { AuthError } from '@/services/auth-errors';
+
+interface TokenResponse {
+  accessToken: string;
+  refreshToken: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+}
+
+// Body of auth errors that need a specific AuthError
+interface AuthErrorResponse {
+  code?: string;
+}
+
+// React Native's FormData takes a file descriptor where the web takes a Blob
+interface FormDataFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+declare global {
+  interface FormData {
+    append(name: string, value: FormDataFile): void;
+  }
+}
+
+const toAuthTokens = (data: TokenResponse): AuthTokens => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  expiresAt: Date.now() + data.expiresIn * 1000,
+});
+
+/**
+ * Auth provider backed by the REST API
+ *
+ * Endpoints:
+ * - POST /auth/login - Login with email, password, and username
+ * - POST /auth/register - Register new user
+ * - POST /auth/verify-email - Confirm the code emailed after registration
+ * - POST /auth/resend-verification - Email a new verification code
+ * - POST /auth/password-reset - Email a password reset token
+ * - POST /auth/password-reset/confirm - Set a new password using a reset token
+ * - PUT /auth/password - Change the password of the signed-in user
+ * - GET /users/username-available?username= - Check whether a username is free
+ * - POST /auth/refresh - Exchange a refresh token for a new token pair
+ * - POST /auth/logout - Logout user (revokes the refresh token)
+ * - GET /auth/me - Get current user info
+ * - PUT /users/profile - Update user profile
+ * - POST /users/avatar - Upload user avatar
+ * - POST /users/connections - Add a connection
+ * - DELETE /users/connections/:userId - Remove a connection
+ *
+ * Token responses have the shape { accessToken, refreshToken, expiresIn }.
+ * Logging in to an unverified account fails with `{ code: 'email_not_verified' }`.
+ */
+export const httpAuthProvider: AuthProvider = {
+  login: async (email, password, username) => {
+    let response;
+    try {
+      response = await api.post('/auth/login', { email, password, username });
+    } catch (error) {
+      if (isAxiosError<AuthErrorResponse>(error)) {
+        if (error.response?.data?.code === 'email_not_verified') {
+          throw new AuthError('email_not_verified', 'Please verify your email before logging in');
+        }
+        if (error.response?.status === 401) {
+          throw new AuthError('invalid_credentials', 'Invalid credentials');
+        }
+      }
+      throw error;
+    }
+
+    return {
+      user: response.data.user as User,
+      tokens: toAuthTokens(response.data),
+    };
+  },
+
+  register: async ({ name, email, password, username, location }) => {
+    // No tokens are returned here as we want the user to login after registration
+    await api.post('/auth/register', { name, email, password, username, location });
+  },
+
+  verifyEmail: async (email, code) => {
+    await api.post('/auth/verify-email', { email, code });
+  },
+
+  resendVerification: async (email) => {
+    await api.post('/auth/resend-verification', { email });
+  },
+
+  isUsernameAvailable: async (username) => {
+    const response = await api.get('/users/username-available', { params: { username } });
+    return Boolean(response.data.available);
+  },
+
+  requestPasswordReset: async (email) => {
+    await api.post('/auth/password-reset', { email });
+  },
+
+  confirmPasswordReset: async (token, newPassword) => {
+    try {
+      await api.post('/auth/password-reset/confirm', { token, newPassword });
+    } catch (error) {
+      if (isAxiosError<AuthErrorResponse>(error) && error.response?.data?.code === 'invalid_reset_token') {
+        throw new AuthError('invalid_reset_token', 'The reset code is invalid or has expired');
+      }
+      throw error;
+    }
+  },
+
+  changePassword: async (currentPassword, newPassword) => {
+    await api.put('/auth/password', { currentPassword, newPassword });
+  },
+
+  logout: async (refreshToken) => {
+    await api.post('/auth/logout', { refreshToken });
+  },
+
+  refresh: async (refreshToken) => {
+    const response = await api.post('/auth/refresh', { refreshToken });
+    return toAuthTokens(response.data);
+  },
+
+  getCurrentUser: async () => {
+    // The access token is sent by the api client's Authorization header
+    const response = await api.get('/auth/me');
+    return response.data as User;
+  },
+
+  updateProfile: async (data) => {
+    const response = await api.put('/users/profile', data);
+    return response.data as User;
+  },
+
+  uploadAvatar: async (uri) => {
+    const formData = new FormData();
+    const avatar: FormDataFile = { uri, type: 'image/jpeg', name: 'avatar.jpg' };
+    formData.append('avatar', avatar);
+
+    const response = await api.post('/users/avatar', formData);
+    return response.data.avatarUrl as string;
+  },
+
+  addConnection: async (userId) => {
+    const response = await api.post('/users/connections', { userId });
+    return response.data as User;
+  },
+
+  removeConnection: async (userId) => {
+    const response = await api.delete(`/users/connections/${userId}`);
+    return response.data as User;
+  },
+};
\ No newline at end of file
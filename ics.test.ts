@@ -0,0 +1,96 @@
+import { CalendarEvent, buildIcsEvent } from '@/utils/ics';
+
+const NOW = new Date(Date.UTC(2026, 9, 19, 8, 5, 9));
+
+const makeEvent = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+  uid: 'match-1@snookiq',
+  start: new Date(Date.UTC(2026, 10, 2, 18, 30)),
+  end: new Date(Date.UTC(2026, 10, 2, 20, 30)),
+  summary: 'Match vs Player 2',
+  ...overrides,
+});
+
+const lines = (ics: string) => ics.split('\r\n').slice(0, -1);
+
+// Undoes line folding, so properties can be read whole
+const unfold = (ics: string) => lines(ics.replace(/\r\n /g, ''));
+
+const octets = (line: string) => new TextEncoder().encode(line).length;
+
+describe('buildIcsEvent', () => {
+  it('wraps one event in a calendar with CRLF line endings', () => {
+    const ics = buildIcsEvent(makeEvent(), NOW);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(lines(ics)).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//SnookIQ//Matches//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'BEGIN:VEVENT',
+      'UID:match-1@snookiq',
+      'SEQUENCE:0',
+      'DTSTAMP:20261019T080509Z',
+      'DTSTART:20261102T183000Z',
+      'DTEND:20261102T203000Z',
+      'SUMMARY:Match vs Player 2',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ]);
+  });
+
+  it('writes dates in UTC whatever the offset they were created with', () => {
+    const ics = buildIcsEvent(makeEvent({ start: new Date('2026-11-02T19:30:00+01:00') }), NOW);
+
+    expect(unfold(ics)).toContain('DTSTART:20261102T183000Z');
+  });
+
+  it('includes the location, description and sequence when given', () => {
+    const ics = buildIcsEvent(makeEvent({ location: 'Crucible', description: 'Best of 7', sequence: 2 }), NOW);
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining(['LOCATION:Crucible', 'DESCRIPTION:Best of 7', 'SEQUENCE:2']));
+  });
+
+  it('escapes backslashes, semicolons, commas and newlines in text', () => {
+    const ics = buildIcsEvent(makeEvent({
+      summary: 'Frames; breaks, fouls',
+      location: 'C:\\Clubs',
+      description: 'First line\nSecond line\r\nThird line',
+    }), NOW);
+
+    expect(unfold(ics)).toEqual(expect.arrayContaining([
+      'SUMMARY:Frames\\; breaks\\, fouls',
+      'LOCATION:C:\\\\Clubs',
+      'DESCRIPTION:First line\\nSecond line\\nThird line',
+    ]));
+  });
+
+  it('folds lines longer than 75 octets and unfolds back to the same text', () => {
+    const description = 'Safety first. '.repeat(20).trim();
+    const ics = buildIcsEvent(makeEvent({ description }), NOW);
+
+    const folded = lines(ics).filter(line => line.startsWith('DESCRIPTION:') || line.startsWith(' '));
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every(line => octets(line) <= 75)).toBe(true);
+    expect(octets(folded[0])).toBe(75);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}`);
+  });
+
+  it('counts multi-byte characters in octets and never splits them', () => {
+    const location = 'Café Snooker, Zürich 🎱 '.repeat(6).trim();
+    const ics = buildIcsEvent(makeEvent({ location }), NOW);
+
+    expect(lines(ics).every(line => octets(line) <= 75)).toBe(true);
+    expect(ics).not.toContain('\uFFFD');
+    expect(unfold(ics)).toContain(`LOCATION:${location.replace(/,/g, '\\,')}`);
+  });
+
+  it('leaves lines of exactly 75 octets alone', () => {
+    const summary = 'x'.repeat(75 - 'SUMMARY:'.length);
+    const ics = buildIcsEvent(makeEvent({ summary }), NOW);
+
+    expect(lines(ics)).toContain(`SUMMARY:${summary}`);
+  });
+});
\ No newline at end of file
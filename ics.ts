@@ -0,0 +1,81 @@
+/**
+ * Minimal iCalendar (RFC 5545) export for single events
+ */
+export interface CalendarEvent {
+  // Stable across exports so calendars update the event instead of duplicating it
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  location?: string;
+  description?: string;
+  // Bumped when the event changes
+  sequence?: number;
+}
+
+const PRODUCT_ID = '-//SnookIQ//Matches//EN';
+// Lines longer than this many octets (UTF-8) are folded
+const MAX_LINE_OCTETS = 75;
+
+// 2024-05-01T18:30:00.000Z -> 20240501T183000Z
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+// Continuation lines start with a space, which counts towards their length
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  // for...of walks code points, so characters are never split
+  for (const char of line) {
+    const length = utf8Length(char);
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += length;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+};
+
+/**
+ * A VCALENDAR document with one VEVENT, ready to save as a .ics file
+ */
+export const buildIcsEvent = (event: CalendarEvent, now = new Date()) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTAMP:${formatDate(now)}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
\ No newline at end of file
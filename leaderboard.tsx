@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+  TouchableOpacity
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { useRatingStore, LeaderboardFilter } from '@/store/rating-store';
+import { skillLevelForRating } from '@/utils/elo';
+import colors from '@/constants/colors';
+
+export default function LeaderboardScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ location?: string; clubId?: string }>();
+  const { user } = useAuthStore();
+  const clubStore = useClubStore();
+  const ratingStore = useRatingStore();
+
+  const [locationInput, setLocationInput] = useState(params.location ?? '');
+  const [filter, setFilter] = useState<LeaderboardFilter>({ location: params.location, clubId: params.clubId });
+
+  const leaderboard = ratingStore.getLeaderboard(filter);
+  const clubs = Object.values(clubStore.clubs).sort((a, b) => a.name.localeCompare(b.name));
+  // "London, UK" -> "London"
+  const homeTown = user?.location.split(',')[0].trim();
+
+  useEffect(() => {
+    ratingStore.fetchLeaderboard(filter);
+  }, [filter.location, filter.clubId]);
+
+  const applyLocation = (location: string) => {
+    setLocationInput(location);
+    setFilter(current => ({ ...current, location: location.trim() || undefined }));
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Leaderboard',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.input}
+          value={locationInput}
+          onChangeText={setLocationInput}
+          onSubmitEditing={() => applyLocation(locationInput)}
+          returnKeyType="search"
+          placeholder="Filter by location"
+          placeholderTextColor={colors.textSecondary}
+        />
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+          {homeTown && (
+            <TouchableOpacity
+              style={[styles.chip, filter.location === homeTown && styles.chipSelected]}
+              onPress={() => applyLocation(filter.location === homeTown ? '' : homeTown)}
+            >
+              <Text style={styles.chipText}>Near me</Text>
+            </TouchableOpacity>
+          )}
+          {clubs.map(club => (
+            <TouchableOpacity
+              key={club.id}
+              style={[styles.chip, filter.clubId === club.id && styles.chipSelected]}
+              onPress={() => setFilter(current => ({ ...current, clubId: current.clubId === club.id ? undefined : club.id }))}
+            >
+              <Text style={styles.chipText}>{club.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {leaderboard.isLoading && leaderboard.entries.length === 0 ? (
+        <ActivityIndicator style={styles.loading} color={colors.primary} />
+      ) : leaderboard.error ? (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{leaderboard.error}</Text>
+          <TouchableOpacity onPress={() => ratingStore.fetchLeaderboard(filter)}>
+            <Text style={styles.action}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={leaderboard.entries}
+          keyExtractor={entry => entry.userId}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={<Text style={styles.emptyText}>No players match these filters</Text>}
+          renderItem={({ item: entry }) => (
+            <TouchableOpacity
+              style={[styles.row, entry.userId === user?.id && styles.ownRow]}
+              onPress={() => router.push(`/profile?userId=${entry.userId}`)}
+            >
+              <Text style={styles.rank}>{entry.rank}</Text>
+              <Image source={{ uri: entry.avatar }} style={styles.avatar} />
+              <View style={styles.playerInfo}>
+                <Text style={styles.name}>{entry.name}</Text>
+                <Text style={styles.location}>{entry.location}</Text>
+              </View>
+              <View style={styles.ratingInfo}>
+                <Text style={styles.rating}>{entry.rating}</Text>
+                <Text style={styles.level}>Level {skillLevelForRating(entry.rating)}</Text>
+              </View>
+            </TouchableOpacity>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  input: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: colors.text,
+  },
+  chips: {
+    paddingVertical: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  loading: {
+    marginTop: 24,
+  },
+  centered: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+    marginTop: 12,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  ownRow: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  rank: {
+    width: 32,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 12,
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  location: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  ratingInfo: {
+    alignItems: 'flex-end',
+  },
+  rating: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  level: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React, { useEffect } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { deepLinkHref, parseDeepLink } from '@/utils/deep-links';
+import colors from '@/constants/colors';
+
+/**
+ * Opens a deep link (see +native-intent) once the signed-in session is known
+ *
+ * On a cold start the persisted accounts are still loading when the link
+ * arrives; profiles opened then would load as a signed-out viewer and chats
+ * wouldn't be found. Chat links need a signed-in user; without one the app
+ * opens at its start screen instead.
+ */
+export default function LinkScreen() {
+  const router = useRouter();
+  const { type, id } = useLocalSearchParams<{ type: string; id: string }>();
+  const link = type && id ? parseDeepLink(`${type}/${id}`) : null;
+
+  useEffect(() => {
+    if (!link) return;
+    let cancelled = false;
+
+    (async () => {
+      const auth = useAuthStore.getState();
+      // Joins the start-up check when it is still running rather than starting another
+      if (!useAuthStore.persist.hasHydrated() || auth.isLoading) {
+        await auth.checkAuth();
+      }
+      if (cancelled) return;
+
+      if (link.type === 'chat' && !useAuthStore.getState().activeUserId) {
+        router.replace('/');
+      } else {
+        router.replace(deepLinkHref(link));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, id]);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      <View style={styles.centered}>
+        {link ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : (
+          <Text style={styles.errorText}>This link can't be opened</Text>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,56 @@
+import * as Notifications from 'expo-notifications';
+
+// How long before a match each reminder fires
+export const REMINDER_OFFSETS_MINUTES = [24 * 60, 60];
+
+interface ReminderDetails {
+  matchId: string;
+  startsAt: string;
+  opponentName: string;
+  venueName: string;
+}
+
+const describeOffset = (minutes: number) =>
+  minutes >= 24 * 60 ? 'tomorrow' : minutes >= 60 ? `in ${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `in ${minutes} minutes`;
+
+const hasPermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+};
+
+/**
+ * Local reminders for scheduled matches
+ *
+ * Reminders live on this device only, so each device schedules its own
+ * when a fixture is agreed. Reminders whose time has already passed are
+ * skipped. Resolves to the scheduled notification ids; empty when
+ * notifications are not allowed.
+ */
+export const scheduleMatchReminders = async (details: ReminderDetails): Promise<string[]> => {
+  if (!(await hasPermission())) {
+    return [];
+  }
+
+  const startsAt = new Date(details.startsAt).getTime();
+  const upcoming = REMINDER_OFFSETS_MINUTES.filter(offset => startsAt - offset * 60 * 1000 > Date.now());
+
+  return Promise.all(upcoming.map(offset =>
+    Notifications.scheduleNotificationAsync({
+      content: {
+        title: `Match ${describeOffset(offset)}`,
+        body: `You're playing ${details.opponentName} at ${details.venueName}`,
+        data: { matchId: details.matchId },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(startsAt - offset * 60 * 1000),
+      },
+    })
+  ));
+};
+
+export const cancelMatchReminders = async (notificationIds: string[]) => {
+  await Promise.all(notificationIds.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+};
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useMatchStore } from '@/store/match-store';
+import { useRatingStore } from '@/store/rating-store';
+import { updatePlayerStats } from '@/store/player-stats';
+import { FrameRecord, MatchScore, aggregatePlayerStats, mergeMatchStats, validateFrame } from '@/utils/match-stats';
+
+/**
+ * - in-progress: frames are being recorded
+ * - submitted: one player submitted the result and waits for the other
+ * - confirmed: both players agreed; the result counts towards stats
+ * - disputed: the other player rejected the result; frames can be corrected
+ */
+export type MatchResultStatus = 'in-progress' | 'submitted' | 'confirmed' | 'disputed';
+
+export interface MatchResult extends MatchScore {
+  status: MatchResultStatus;
+  // Players who agreed to the current frames
+  confirmedBy: string[];
+  disputeReason: string | null;
+  createdAt: string;
+  updatedAt: string;
+  confirmedAt: string | null;
+}
+
+interface MatchResultState {
+  results: Record<string, MatchResult>;
+  getResult: (matchId: string) => MatchResult | null;
+  getConfirmedResults: () => MatchResult[];
+  startScoring: (matchId: string) => Promise<MatchResult>;
+  addFrame: (matchId: string, frame: Omit<FrameRecord, 'id'>) => Promise<void>;
+  removeFrame: (matchId: string, frameId: string) => Promise<void>;
+  submitResult: (matchId: string) => Promise<void>;
+  confirmResult: (matchId: string) => Promise<void>;
+  disputeResult: (matchId: string, reason: string) => Promise<void>;
+}
+
+/**
+ * Match result store using Zustand
+ *
+ * Scores accepted match requests frame by frame. A result only counts once
+ * both players have confirmed it; then the match is marked completed, both
+ * players' stats are recomputed from all their confirmed results (see
+ * utils/match-stats) and their ratings are updated. Changing the frames
+ * clears earlier confirmations.
+ *
+ * Required API endpoints:
+ * - GET /matches/:id/result - The result of a match
+ * - PUT /matches/:id/result - Save the frames { frames }
+ * - POST /matches/:id/result/submit - Submit for confirmation
+ * - POST /matches/:id/result/confirm - Confirm the result
+ * - POST /matches/:id/result/dispute - Reject the result { reason }
+ */
+export const useMatchResultStore = create<MatchResultState>()(
+  persist(
+    (set, get) => {
+      const save = (result: MatchResult) => {
+        set(state => ({
+          results: { ...state.results, [result.matchId]: { ...result, updatedAt: new Date().toISOString() } }
+        }));
+      };
+
+      const requirePlayer = (matchId: string) => {
+        const userId = requireCurrentUserId();
+        const result = get().getResult(matchId);
+        if (!result) {
+          throw new Error('This match has not been scored yet');
+        }
+        if (!result.playerIds.includes(userId)) {
+          throw new Error('Only the two players can change a match result');
+        }
+        return { userId, result };
+      };
+
+      const requireEditable = (matchId: string) => {
+        const { userId, result } = requirePlayer(matchId);
+        if (result.status === 'submitted' || result.status === 'confirmed') {
+          throw new Error('This result has been submitted and can no longer be changed');
+        }
+        return { userId, result };
+      };
+
+      return {
+        results: {},
+
+        getResult: (matchId) => get().results[matchId] ?? null,
+
+        getConfirmedResults: () =>
+          Object.values(get().results).filter(result => result.status === 'confirmed'),
+
+        startScoring: async (matchId) => {
+          const userId = requireCurrentUserId();
+          const existing = get().getResult(matchId);
+          if (existing) return existing;
+
+          const match = useMatchStore.getState().matches.find(item => item.id === matchId);
+          if (!match || (match.requesterId !== userId && match.receiverId !== userId)) {
+            throw new Error('Match not found');
+          }
+          if (match.status !== 'accepted') {
+            throw new Error('Only accepted matches can be scored');
+          }
+
+          // In a real app, this would use the API:
+          // await api.put(`/matches/${matchId}/result`, { frames: [] });
+
+          const now = new Date().toISOString();
+          const result: MatchResult = {
+            matchId,
+            playerIds: [match.requesterId, match.receiverId],
+            frames: [],
+            status: 'in-progress',
+            confirmedBy: [],
+            disputeReason: null,
+            createdAt: now,
+            updatedAt: now,
+            confirmedAt: null
+          };
+          save(result);
+          return result;
+        },
+
+        addFrame: async (matchId, frame) => {
+          const { result } = requireEditable(matchId);
+          const record: FrameRecord = { ...frame, id: Date.now().toString() };
+
+          const problem = validateFrame(record, result.playerIds);
+          if (problem) {
+            throw new Error(problem);
+          }
+
+          // In a real app, this would use the API:
+          // await api.put(`/matches/${matchId}/result`, { frames: [...result.frames, record] });
+
+          save({ ...result, frames: [...result.frames, record], confirmedBy: [] });
+        },
+
+        removeFrame: async (matchId, frameId) => {
+          const { result } = requireEditable(matchId);
+
+          // In a real app, this would use the API:
+          // await api.put(`/matches/${matchId}/result`, { frames });
+
+          save({ ...result, frames: result.frames.filter(frame => frame.id !== frameId), confirmedBy: [] });
+        },
+
+        submitResult: async (matchId) => {
+          const { userId, result } = requireEditable(matchId);
+          if (result.frames.length === 0) {
+            throw new Error('Record at least one frame before submitting');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/result/submit`);
+
+          save({ ...result, status: 'submitted', confirmedBy: [userId], disputeReason: null });
+        },
+
+        confirmResult: async (matchId) => {
+          const { userId, result } = requirePlayer(matchId);
+          if (result.status !== 'submitted') {
+            throw new Error('There is no result to confirm');
+          }
+          if (result.confirmedBy.includes(userId)) {
+            throw new Error('Waiting for your opponent to confirm');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/result/confirm`);
+
+          const confirmedBy = [...result.confirmedBy, userId];
+          const isConfirmed = result.playerIds.every(playerId => confirmedBy.includes(playerId));
+          save({
+            ...result,
+            confirmedBy,
+            status: isConfirmed ? 'confirmed' : 'submitted',
+            confirmedAt: isConfirmed ? new Date().toISOString() : null
+          });
+
+          if (isConfirmed) {
+            useMatchStore.setState(state => ({
+              matches: state.matches.map(match => (match.id === matchId ? { ...match, status: 'completed' } : match))
+            }));
+            // Rated first: a player's starting rating depends on the games they had played before
+            const confirmed = get().results[matchId];
+            await useRatingStore.getState().rateMatch(confirmed);
+            // Add this match to each player's existing stats
+            await Promise.all(result.playerIds.map(playerId =>
+              updatePlayerStats(playerId, stats => mergeMatchStats(stats, aggregatePlayerStats(playerId, [confirmed])))
+            ));
+          }
+        },
+
+        disputeResult: async (matchId, reason) => {
+          const { userId, result } = requirePlayer(matchId);
+          if (result.status !== 'submitted' || result.confirmedBy.includes(userId)) {
+            throw new Error('There is no result to dispute');
+          }
+          if (!reason.trim()) {
+            throw new Error('Please say what is wrong with the result');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/result/dispute`, { reason });
+
+          save({ ...result, status: 'disputed', confirmedBy: [], disputeReason: reason.trim() });
+        }
+      };
+    },
+    {
+      name: 'snookiq-match-results',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { useMatchStore } from '@/store/match-store';
+import { findPlayer } from '@/store/player-stats';
+import { scheduleMatchReminders, cancelMatchReminders } from '@/services/match-reminders';
+import { shareCalendarEvent } from '@/services/calendar-export';
+
+export interface Venue {
+  clubId: string;
+  name: string;
+  location: string;
+}
+
+export interface FixtureProposal {
+  startsAt: string;
+  durationMinutes: number;
+  venue: Venue;
+  proposedBy: string;
+  proposedAt: string;
+}
+
+// What a player fills in to propose a time
+export interface FixtureSlot {
+  startsAt: string;
+  durationMinutes: number;
+  clubId: string;
+}
+
+/**
+ * - proposed: waiting for the other player to accept or counter-propose
+ * - agreed: both players accepted the current proposal
+ * - cancelled: either player called the fixture off; a new one can be proposed
+ */
+export type FixtureStatus = 'proposed' | 'agreed' | 'cancelled';
+
+export interface MatchFixture {
+  matchId: string;
+  playerIds: [string, string];
+  status: FixtureStatus;
+  proposal: FixtureProposal;
+  // Proposals replaced by counter-proposals or rescheduling, oldest first
+  previousProposals: FixtureProposal[];
+  // Bumped on every change so exported calendar events update in place
+  sequence: number;
+  cancelledBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const MIN_DURATION_MINUTES = 30;
+export const MAX_DURATION_MINUTES = 6 * 60;
+
+interface MatchScheduleState {
+  fixtures: Record<string, MatchFixture>;
+  // Reminder notification ids on this device, per match
+  reminders: Record<string, string[]>;
+  getFixture: (matchId: string) => MatchFixture | null;
+  // Agreed fixtures that haven't started yet, soonest first
+  getUpcoming: (userId: string) => MatchFixture[];
+  propose: (matchId: string, slot: FixtureSlot) => Promise<void>;
+  counterPropose: (matchId: string, slot: FixtureSlot) => Promise<void>;
+  accept: (matchId: string) => Promise<void>;
+  reschedule: (matchId: string, slot: FixtureSlot) => Promise<void>;
+  cancel: (matchId: string) => Promise<void>;
+  exportToCalendar: (matchId: string) => Promise<void>;
+}
+
+// Only open match requests can be scheduled
+const requireSchedulableMatch = (matchId: string, userId: string) => {
+  const match = useMatchStore.getState().matches.find(item => item.id === matchId);
+  if (!match || (match.requesterId !== userId && match.receiverId !== userId)) {
+    throw new Error('Match not found');
+  }
+  if (match.status !== 'pending' && match.status !== 'accepted') {
+    throw new Error('This match can no longer be scheduled');
+  }
+  return match;
+};
+
+// Venues are the proposing player's clubs
+const toProposal = (userId: string, { startsAt, durationMinutes, clubId }: FixtureSlot): FixtureProposal => {
+  const start = new Date(startsAt);
+  if (Number.isNaN(start.getTime()) || start.getTime() <= Date.now()) {
+    throw new Error('Choose a time in the future');
+  }
+  if (durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) {
+    throw new Error(`Matches last between ${MIN_DURATION_MINUTES} minutes and ${MAX_DURATION_MINUTES / 60} hours`);
+  }
+
+  const club = useClubStore.getState().getUserClubs(userId).find(item => item.id === clubId);
+  if (!club) {
+    throw new Error('Choose one of your clubs as the venue');
+  }
+
+  return {
+    startsAt: start.toISOString(),
+    durationMinutes,
+    venue: { clubId: club.id, name: club.name, location: club.location },
+    proposedBy: userId,
+    proposedAt: new Date().toISOString()
+  };
+};
+
+const opponentOf = (fixture: MatchFixture, userId: string) =>
+  fixture.playerIds[0] === userId ? fixture.playerIds[1] : fixture.playerIds[0];
+
+/**
+ * Match schedule store using Zustand
+ *
+ * Players agree on a time and venue for a match request: one proposes, the
+ * other accepts or counter-proposes, and an agreed fixture can be
+ * rescheduled (back to a proposal) or cancelled by either player. Agreed
+ * fixtures get local reminders and can be exported as calendar events.
+ *
+ * Required API endpoints:
+ * - GET /matches/:id/fixture - The match's fixture
+ * - POST /matches/:id/fixture - Propose a fixture { startsAt, durationMinutes, clubId }
+ * - PUT /matches/:id/fixture/proposal - Counter-propose or reschedule { startsAt, durationMinutes, clubId }
+ * - POST /matches/:id/fixture/accept - Accept the current proposal
+ * - POST /matches/:id/fixture/cancel - Cancel the fixture
+ */
+export const useMatchScheduleStore = create<MatchScheduleState>()(
+  persist(
+    (set, get) => {
+      const save = (fixture: MatchFixture) => {
+        set(state => ({
+          fixtures: { ...state.fixtures, [fixture.matchId]: { ...fixture, updatedAt: new Date().toISOString() } }
+        }));
+      };
+
+      const requirePlayer = (matchId: string) => {
+        const userId = requireCurrentUserId();
+        const fixture = get().getFixture(matchId);
+        if (!fixture || !fixture.playerIds.includes(userId)) {
+          throw new Error('This match has not been scheduled yet');
+        }
+        return { userId, fixture };
+      };
+
+      const clearReminders = async (matchId: string) => {
+        const ids = get().reminders[matchId] ?? [];
+        set(state => {
+          const { [matchId]: _cleared, ...reminders } = state.reminders;
+          return { reminders };
+        });
+        await cancelMatchReminders(ids);
+      };
+
+      const replaceProposal = (fixture: MatchFixture, proposal: FixtureProposal): MatchFixture => ({
+        ...fixture,
+        status: 'proposed',
+        proposal,
+        previousProposals: [...fixture.previousProposals, fixture.proposal],
+        sequence: fixture.sequence + 1
+      });
+
+      return {
+        fixtures: {},
+        reminders: {},
+
+        getFixture: (matchId) => get().fixtures[matchId] ?? null,
+
+        getUpcoming: (userId) =>
+          Object.values(get().fixtures)
+            .filter(fixture =>
+              fixture.status === 'agreed' &&
+              fixture.playerIds.includes(userId) &&
+              new Date(fixture.proposal.startsAt).getTime() > Date.now()
+            )
+            .sort((a, b) => a.proposal.startsAt.localeCompare(b.proposal.startsAt)),
+
+        propose: async (matchId, slot) => {
+          const userId = requireCurrentUserId();
+          const match = requireSchedulableMatch(matchId, userId);
+          const existing = get().getFixture(matchId);
+          if (existing && existing.status !== 'cancelled') {
+            throw new Error('This match already has a proposed time');
+          }
+          const proposal = toProposal(userId, slot);
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/fixture`, slot);
+
+          const now = new Date().toISOString();
+          save({
+            matchId,
+            playerIds: [match.requesterId, match.receiverId],
+            status: 'proposed',
+            proposal,
+            previousProposals: existing ? [...existing.previousProposals, existing.proposal] : [],
+            sequence: existing ? existing.sequence + 1 : 0,
+            cancelledBy: null,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now
+          });
+        },
+
+        counterPropose: async (matchId, slot) => {
+          const { userId, fixture } = requirePlayer(matchId);
+          if (fixture.status !== 'proposed' || fixture.proposal.proposedBy === userId) {
+            throw new Error('There is no proposal to answer');
+          }
+          const proposal = toProposal(userId, slot);
+
+          // In a real app, this would use the API:
+          // await api.put(`/matches/${matchId}/fixture/proposal`, slot);
+
+          save(replaceProposal(fixture, proposal));
+        },
+
+        accept: async (matchId) => {
+          const { userId, fixture } = requirePlayer(matchId);
+          if (fixture.status !== 'proposed') {
+            throw new Error('There is no proposal to accept');
+          }
+          if (fixture.proposal.proposedBy === userId) {
+            throw new Error('Waiting for your opponent to accept');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/fixture/accept`);
+
+          save({ ...fixture, status: 'agreed', sequence: fixture.sequence + 1 });
+
+          const opponent = await findPlayer(opponentOf(fixture, userId));
+          const reminderIds = await scheduleMatchReminders({
+            matchId,
+            startsAt: fixture.proposal.startsAt,
+            opponentName: opponent?.name ?? 'your opponent',
+            venueName: fixture.proposal.venue.name
+          });
+          set(state => ({ reminders: { ...state.reminders, [matchId]: reminderIds } }));
+        },
+
+        reschedule: async (matchId, slot) => {
+          const { userId, fixture } = requirePlayer(matchId);
+          if (fixture.status !== 'agreed') {
+            throw new Error('Only agreed fixtures can be rescheduled');
+          }
+          const proposal = toProposal(userId, slot);
+
+          // In a real app, this would use the API:
+          // await api.put(`/matches/${matchId}/fixture/proposal`, slot);
+
+          save(replaceProposal(fixture, proposal));
+          await clearReminders(matchId);
+        },
+
+        cancel: async (matchId) => {
+          const { userId, fixture } = requirePlayer(matchId);
+          if (fixture.status === 'cancelled') return;
+
+          // In a real app, this would use the API:
+          // await api.post(`/matches/${matchId}/fixture/cancel`);
+
+          save({ ...fixture, status: 'cancelled', cancelledBy: userId, sequence: fixture.sequence + 1 });
+          await clearReminders(matchId);
+        },
+
+        exportToCalendar: async (matchId) => {
+          const { userId, fixture } = requirePlayer(matchId);
+          if (fixture.status !== 'agreed') {
+            throw new Error('Only agreed fixtures can be added to a calendar');
+          }
+
+          const opponent = await findPlayer(opponentOf(fixture, userId));
+          const start = new Date(fixture.proposal.startsAt);
+          const { venue } = fixture.proposal;
+
+          await shareCalendarEvent({
+            uid: `match-${matchId}@snookiq`,
+            start,
+            end: new Date(start.getTime() + fixture.proposal.durationMinutes * 60 * 1000),
+            summary: `Snooker vs ${opponent?.name ?? 'opponent'}`,
+            location: [venue.name, venue.location].filter(Boolean).join(', '),
+            description: 'Scheduled on SnookIQ',
+            sequence: fixture.sequence
+          }, `match-${matchId}`);
+        }
+      };
+    },
+    {
+      name: 'snookiq-match-schedules',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
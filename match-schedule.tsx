@@ -0,0 +1,415 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { useMatchStore } from '@/store/match-store';
+import {
+  useMatchScheduleStore,
+  FixtureProposal,
+  MIN_DURATION_MINUTES,
+  MAX_DURATION_MINUTES
+} from '@/store/match-schedule-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import { formatMinute } from '@/store/availability-store';
+import colors from '@/constants/colors';
+
+const STEP_MINUTES = 30;
+const DAYS_AHEAD = 14;
+const DAY_MINUTES = 24 * 60;
+
+const runScheduleAction = async (action: () => Promise<void>) => {
+  try {
+    await action();
+  } catch (error) {
+    console.error('Error updating match schedule:', error);
+    Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update match schedule');
+  }
+};
+
+const formatProposal = (proposal: FixtureProposal) => {
+  const start = new Date(proposal.startsAt);
+  return `${start.toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long' })} at ${start.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+// Midnight today plus `days`
+const dayStart = (days: number) => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + days);
+  return date;
+};
+
+const Stepper = ({ label, value, format, min, max, onChange }: {
+  label: string;
+  value: number;
+  format: (value: number) => string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <View style={styles.stepperRow}>
+    <Text style={styles.stepperLabel}>{label}</Text>
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value - STEP_MINUTES)}
+        disabled={value - STEP_MINUTES < min}
+      >
+        <Text style={styles.stepperButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{format(value)}</Text>
+      <TouchableOpacity
+        style={styles.stepperButton}
+        onPress={() => onChange(value + STEP_MINUTES)}
+        disabled={value + STEP_MINUTES > max}
+      >
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+export default function MatchScheduleScreen() {
+  const { matchId } = useLocalSearchParams<{ matchId: string }>();
+  const { activeUserId } = useAuthStore();
+  const clubStore = useClubStore();
+  const { matches } = useMatchStore();
+  const scheduleStore = useMatchScheduleStore();
+
+  const match = matches.find(item => item.id === matchId);
+  const fixture = matchId ? scheduleStore.getFixture(matchId) : null;
+  const opponentId = match && activeUserId
+    ? (match.requesterId === activeUserId ? match.receiverId : match.requesterId)
+    : undefined;
+  const { data: opponent } = useProfileSection(opponentId, 'user');
+  const ownClubs = activeUserId ? clubStore.getUserClubs(activeUserId) : [];
+
+  // The slot being proposed
+  const [dayOffset, setDayOffset] = useState(1);
+  const [startMinute, setStartMinute] = useState(19 * 60);
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [clubId, setClubId] = useState<string | undefined>(undefined);
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (!matchId || !match || !activeUserId || !opponentId) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Schedule Match' }} />
+        <View style={styles.centered}>
+          <Text style={styles.mutedText}>This match can't be scheduled</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const opponentName = opponent?.name ?? 'Your opponent';
+  const isOpen = !fixture || fixture.status === 'cancelled';
+  const awaitingMe = fixture?.status === 'proposed' && fixture.proposal.proposedBy !== activeUserId;
+  const showForm = isOpen || isEditing;
+
+  const slot = () => ({
+    startsAt: new Date(dayStart(dayOffset).getTime() + startMinute * 60 * 1000).toISOString(),
+    durationMinutes,
+    clubId: clubId ?? ownClubs[0]?.id ?? ''
+  });
+
+  const handleSubmit = () => runScheduleAction(async () => {
+    if (isOpen) {
+      await scheduleStore.propose(matchId, slot());
+    } else if (fixture?.status === 'agreed') {
+      await scheduleStore.reschedule(matchId, slot());
+    } else {
+      await scheduleStore.counterPropose(matchId, slot());
+    }
+    setIsEditing(false);
+  });
+
+  const handleCancel = () => {
+    Alert.alert('Cancel fixture', `Call off the match with ${opponentName}?`, [
+      { text: 'Keep', style: 'cancel' },
+      { text: 'Cancel fixture', style: 'destructive', onPress: () => runScheduleAction(() => scheduleStore.cancel(matchId)) }
+    ]);
+  };
+
+  const statusText = !fixture
+    ? `Propose a time and venue to play ${opponentName}.`
+    : fixture.status === 'cancelled'
+      ? `${fixture.cancelledBy === activeUserId ? 'You' : opponentName} cancelled this fixture. Propose a new time.`
+      : fixture.status === 'agreed'
+        ? 'Fixture agreed'
+        : awaitingMe
+          ? `${opponentName} proposed this time`
+          : `Waiting for ${opponentName} to answer`;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Schedule Match',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.statusText}>{statusText}</Text>
+
+        {fixture && fixture.status !== 'cancelled' && (
+          <View style={styles.card}>
+            <Text style={styles.fixtureTime}>{formatProposal(fixture.proposal)}</Text>
+            <Text style={styles.fixtureDetails}>
+              {fixture.proposal.venue.name} · {fixture.proposal.venue.location}
+            </Text>
+            <Text style={styles.fixtureDetails}>
+              {fixture.proposal.durationMinutes / 60} hours
+            </Text>
+
+            {awaitingMe && (
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => runScheduleAction(() => scheduleStore.accept(matchId))}
+              >
+                <Text style={styles.primaryButtonText}>Accept</Text>
+              </TouchableOpacity>
+            )}
+            {fixture.status === 'agreed' && (
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => runScheduleAction(() => scheduleStore.exportToCalendar(matchId))}
+              >
+                <Text style={styles.primaryButtonText}>Add to calendar</Text>
+              </TouchableOpacity>
+            )}
+
+            <View style={styles.actions}>
+              {(awaitingMe || fixture.status === 'agreed') && !isEditing && (
+                <TouchableOpacity onPress={() => setIsEditing(true)}>
+                  <Text style={styles.action}>
+                    {fixture.status === 'agreed' ? 'Reschedule' : 'Suggest another time'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={handleCancel}>
+                <Text style={styles.cancelAction}>Cancel fixture</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {showForm && (
+          <>
+            <Text style={styles.sectionTitle}>Day</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+              {Array.from({ length: DAYS_AHEAD }, (_, offset) => (
+                <TouchableOpacity
+                  key={offset}
+                  style={[styles.chip, offset === dayOffset && styles.chipSelected]}
+                  onPress={() => setDayOffset(offset)}
+                >
+                  <Text style={styles.chipText}>
+                    {dayStart(offset).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Stepper
+              label="Start"
+              value={startMinute}
+              format={formatMinute}
+              min={0}
+              max={DAY_MINUTES - STEP_MINUTES}
+              onChange={setStartMinute}
+            />
+            <Stepper
+              label="Duration"
+              value={durationMinutes}
+              format={minutes => `${minutes / 60} h`}
+              min={MIN_DURATION_MINUTES}
+              max={MAX_DURATION_MINUTES}
+              onChange={setDurationMinutes}
+            />
+
+            <Text style={styles.sectionTitle}>Venue</Text>
+            {ownClubs.length === 0 ? (
+              <Text style={styles.mutedText}>Join a club to use it as a venue</Text>
+            ) : (
+              <View style={styles.venues}>
+                {ownClubs.map(club => (
+                  <TouchableOpacity
+                    key={club.id}
+                    style={[styles.chip, club.id === (clubId ?? ownClubs[0].id) && styles.chipSelected]}
+                    onPress={() => setClubId(club.id)}
+                  >
+                    <Text style={styles.chipText}>{club.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, ownClubs.length === 0 && styles.disabledButton]}
+              onPress={handleSubmit}
+              disabled={ownClubs.length === 0}
+            >
+              <Text style={styles.primaryButtonText}>
+                {isOpen ? 'Propose' : fixture?.status === 'agreed' ? 'Propose new time' : 'Send counter-proposal'}
+              </Text>
+            </TouchableOpacity>
+            {isEditing && (
+              <TouchableOpacity style={styles.centered} onPress={() => setIsEditing(false)}>
+                <Text style={styles.action}>Back</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+  },
+  centered: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  mutedText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  statusText: {
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 16,
+  },
+  fixtureTime: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  fixtureDetails: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 16,
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  cancelAction: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  chips: {
+    paddingBottom: 12,
+  },
+  venues: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  stepperLabel: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    color: colors.text,
+  },
+  stepperValue: {
+    width: 64,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,466 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useMatchResultStore } from '@/store/match-result-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import {
+  BreakRecord,
+  FoulRecord,
+  PotRecord,
+  getFramesWon,
+  MIN_FOUL_POINTS,
+  MAX_FOUL_POINTS
+} from '@/utils/match-stats';
+import colors from '@/constants/colors';
+
+const EMPTY_POTS: PotRecord = { attempted: 0, potted: 0 };
+
+const runResultAction = async (action: () => Promise<void>) => {
+  try {
+    await action();
+  } catch (error) {
+    console.error('Error updating match result:', error);
+    Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update match result');
+  }
+};
+
+const Counter = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <View style={styles.counter}>
+    <Text style={styles.counterLabel}>{label}</Text>
+    <View style={styles.counterControls}>
+      <TouchableOpacity style={styles.counterButton} onPress={() => onChange(Math.max(0, value - 1))}>
+        <Text style={styles.counterButtonText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.counterValue}>{value}</Text>
+      <TouchableOpacity style={styles.counterButton} onPress={() => onChange(value + 1)}>
+        <Text style={styles.counterButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+export default function MatchScoreScreen() {
+  const { matchId } = useLocalSearchParams<{ matchId: string }>();
+  const { activeUserId } = useAuthStore();
+  const resultStore = useMatchResultStore();
+  const result = matchId ? resultStore.getResult(matchId) : null;
+
+  const [firstId, secondId] = result?.playerIds ?? [undefined, undefined];
+  const { data: first } = useProfileSection(firstId, 'user');
+  const { data: second } = useProfileSection(secondId, 'user');
+
+  // The frame being entered
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [breaks, setBreaks] = useState<BreakRecord[]>([]);
+  const [fouls, setFouls] = useState<FoulRecord[]>([]);
+  const [pots, setPots] = useState<Record<string, PotRecord>>({});
+  const [breakInput, setBreakInput] = useState<Record<string, string>>({});
+  const [disputeReason, setDisputeReason] = useState('');
+
+  // Scoring starts the first time either player opens the match
+  useEffect(() => {
+    if (matchId && !result && activeUserId) {
+      runResultAction(async () => {
+        await resultStore.startScoring(matchId);
+      });
+    }
+  }, [matchId, activeUserId]);
+
+  if (!result || !firstId || !secondId) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Match' }} />
+        <View style={styles.centered}>
+          <Text style={styles.mutedText}>This match can't be scored</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const names: Record<string, string> = {
+    [firstId]: first?.name ?? 'Player 1',
+    [secondId]: second?.name ?? 'Player 2',
+  };
+  const framesWon = getFramesWon(result);
+  const isPlayer = activeUserId !== null && result.playerIds.includes(activeUserId);
+  const isEditable = isPlayer && (result.status === 'in-progress' || result.status === 'disputed');
+  const awaitingMe = activeUserId !== null && isPlayer &&
+    result.status === 'submitted' && !result.confirmedBy.includes(activeUserId);
+
+  const resetFrame = () => {
+    setScores({});
+    setBreaks([]);
+    setFouls([]);
+    setPots({});
+    setBreakInput({});
+  };
+
+  const handleAddBreak = (playerId: string) => {
+    const points = Number(breakInput[playerId]);
+    if (!Number.isInteger(points) || points < 1) return;
+    setBreaks(current => [...current, { playerId, points }]);
+    setBreakInput(current => ({ ...current, [playerId]: '' }));
+  };
+
+  const handleAddFrame = () => runResultAction(async () => {
+    const frameScores = Object.fromEntries(result.playerIds.map(playerId => [playerId, Number(scores[playerId]) || 0]));
+    const winnerId = frameScores[firstId] >= frameScores[secondId] ? firstId : secondId;
+
+    await resultStore.addFrame(result.matchId, { scores: frameScores, breaks, fouls, pots, winnerId });
+    resetFrame();
+  });
+
+  const handleDispute = () => runResultAction(async () => {
+    await resultStore.disputeResult(result.matchId, disputeReason);
+    setDisputeReason('');
+  });
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Match Score',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.scoreboard}>
+          <Text style={styles.playerName}>{names[firstId]}</Text>
+          <Text style={styles.frameScore}>{framesWon[firstId]} – {framesWon[secondId]}</Text>
+          <Text style={[styles.playerName, styles.playerNameRight]}>{names[secondId]}</Text>
+        </View>
+
+        {result.status === 'submitted' && (
+          <Text style={styles.status}>
+            {awaitingMe ? 'Check the frames and confirm the result.' : 'Waiting for your opponent to confirm.'}
+          </Text>
+        )}
+        {result.status === 'confirmed' && (
+          <Text style={styles.status}>Result confirmed by both players.</Text>
+        )}
+        {result.status === 'disputed' && (
+          <Text style={[styles.status, styles.errorText]}>Result disputed: {result.disputeReason}</Text>
+        )}
+
+        {result.frames.map((frame, index) => (
+          <View key={frame.id} style={styles.frameCard}>
+            <View style={styles.frameHeader}>
+              <Text style={styles.frameTitle}>
+                Frame {index + 1}: {frame.scores[firstId]} – {frame.scores[secondId]}
+              </Text>
+              {isEditable && (
+                <TouchableOpacity onPress={() => runResultAction(() => resultStore.removeFrame(result.matchId, frame.id))}>
+                  <Text style={styles.destructiveAction}>Remove</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            <Text style={styles.mutedText}>Won by {names[frame.winnerId]}</Text>
+            {frame.breaks.length > 0 && (
+              <Text style={styles.mutedText}>
+                Breaks: {frame.breaks.map(item => `${names[item.playerId]} ${item.points}`).join(', ')}
+              </Text>
+            )}
+            {frame.fouls.length > 0 && (
+              <Text style={styles.mutedText}>
+                Fouls: {frame.fouls.map(item => `${names[item.playerId]} ${item.points}`).join(', ')}
+              </Text>
+            )}
+          </View>
+        ))}
+
+        {isEditable && (
+          <View style={styles.frameCard}>
+            <Text style={styles.frameTitle}>Frame {result.frames.length + 1}</Text>
+            {result.playerIds.map(playerId => {
+              const playerPots = pots[playerId] ?? EMPTY_POTS;
+
+              return (
+                <View key={playerId} style={styles.playerEntry}>
+                  <Text style={styles.playerEntryName}>{names[playerId]}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={scores[playerId] ?? ''}
+                    onChangeText={(value) => setScores(current => ({ ...current, [playerId]: value.replace(/[^0-9]/g, '') }))}
+                    keyboardType="number-pad"
+                    placeholder="Frame score"
+                    placeholderTextColor={colors.textSecondary}
+                  />
+
+                  <View style={styles.inlineRow}>
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      value={breakInput[playerId] ?? ''}
+                      onChangeText={(value) => setBreakInput(current => ({ ...current, [playerId]: value.replace(/[^0-9]/g, '') }))}
+                      keyboardType="number-pad"
+                      placeholder="Break"
+                      placeholderTextColor={colors.textSecondary}
+                    />
+                    <TouchableOpacity onPress={() => handleAddBreak(playerId)}>
+                      <Text style={styles.action}>Add break</Text>
+                    </TouchableOpacity>
+                  </View>
+                  {breaks.some(item => item.playerId === playerId) && (
+                    <Text style={styles.mutedText}>
+                      Breaks: {breaks.filter(item => item.playerId === playerId).map(item => item.points).join(', ')}
+                    </Text>
+                  )}
+
+                  <View style={styles.inlineRow}>
+                    <Text style={styles.counterLabel}>Foul</Text>
+                    {Array.from({ length: MAX_FOUL_POINTS - MIN_FOUL_POINTS + 1 }, (_, offset) => MIN_FOUL_POINTS + offset).map(points => (
+                      <TouchableOpacity
+                        key={points}
+                        style={styles.foulChip}
+                        onPress={() => setFouls(current => [...current, { playerId, points }])}
+                      >
+                        <Text style={styles.foulChipText}>{points}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  {fouls.some(item => item.playerId === playerId) && (
+                    <Text style={styles.mutedText}>
+                      Fouls: {fouls.filter(item => item.playerId === playerId).map(item => item.points).join(', ')}
+                    </Text>
+                  )}
+
+                  <View style={styles.inlineRow}>
+                    <Counter
+                      label="Pots tried"
+                      value={playerPots.attempted}
+                      onChange={(attempted) => setPots(current => ({ ...current, [playerId]: { ...playerPots, attempted } }))}
+                    />
+                    <Counter
+                      label="Potted"
+                      value={playerPots.potted}
+                      onChange={(potted) => setPots(current => ({ ...current, [playerId]: { ...playerPots, potted } }))}
+                    />
+                  </View>
+                </View>
+              );
+            })}
+
+            <TouchableOpacity style={styles.button} onPress={handleAddFrame}>
+              <Text style={styles.buttonText}>Save Frame</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {isEditable && result.frames.length > 0 && (
+          <TouchableOpacity
+            style={styles.button}
+            onPress={() => runResultAction(() => resultStore.submitResult(result.matchId))}
+          >
+            <Text style={styles.buttonText}>Submit Result</Text>
+          </TouchableOpacity>
+        )}
+
+        {awaitingMe && (
+          <>
+            <TouchableOpacity
+              style={styles.button}
+              onPress={() => runResultAction(() => resultStore.confirmResult(result.matchId))}
+            >
+              <Text style={styles.buttonText}>Confirm Result</Text>
+            </TouchableOpacity>
+            <TextInput
+              style={[styles.input, styles.disputeInput]}
+              value={disputeReason}
+              onChangeText={setDisputeReason}
+              placeholder="What's wrong with this result?"
+              placeholderTextColor={colors.textSecondary}
+            />
+            <TouchableOpacity onPress={handleDispute} disabled={!disputeReason.trim()}>
+              <Text style={styles.destructiveAction}>Dispute Result</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  scoreboard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 16,
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  playerNameRight: {
+    textAlign: 'right',
+  },
+  frameScore: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginHorizontal: 12,
+  },
+  status: {
+    fontSize: 14,
+    color: colors.text,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  errorText: {
+    color: colors.error,
+  },
+  mutedText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  frameCard: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  frameHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  frameTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  playerEntry: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: colors.textSecondary,
+  },
+  playerEntryName: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    color: colors.text,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  foulChip: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  foulChipText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  counter: {
+    flex: 1,
+  },
+  counterLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  counterControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  counterButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.background,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  counterButtonText: {
+    fontSize: 16,
+    color: colors.text,
+  },
+  counterValue: {
+    width: 36,
+    textAlign: 'center',
+    fontSize: 16,
+    color: colors.text,
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  destructiveAction: {
+    color: colors.error,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  button: {
+    backgroundColor: colors.primary,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  disputeInput: {
+    marginTop: 16,
+  },
+});
\ No newline at end of file
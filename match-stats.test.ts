@@ -0,0 +1,157 @@
+import {
+  FrameRecord,
+  MatchScore,
+  aggregatePlayerStats,
+  getMatchWinner,
+  mergeMatchStats,
+  validateFrame,
+} from '@/utils/match-stats';
+
+const PLAYERS: [string, string] = ['1', '2'];
+
+const makeFrame = (overrides: Partial<FrameRecord> = {}): FrameRecord => ({
+  id: 'frame-1',
+  scores: { '1': 72, '2': 35 },
+  breaks: [{ playerId: '1', points: 54 }],
+  fouls: [{ playerId: '2', points: 4 }],
+  pots: { '1': { attempted: 20, potted: 15 }, '2': { attempted: 12, potted: 6 } },
+  winnerId: '1',
+  ...overrides,
+});
+
+const makeMatch = (matchId: string, frames: FrameRecord[], playerIds = PLAYERS): MatchScore => ({
+  matchId,
+  playerIds,
+  frames,
+});
+
+describe('validateFrame', () => {
+  it('accepts a consistent frame', () => {
+    expect(validateFrame(makeFrame(), PLAYERS)).toBeNull();
+  });
+
+  it('rejects a winner who is not playing or has the lower score', () => {
+    expect(validateFrame(makeFrame({ winnerId: '3' }), PLAYERS)).toBe('The frame winner must be one of the players');
+    expect(validateFrame(makeFrame({ winnerId: '2' }), PLAYERS)).toBe('The frame winner must have the higher score');
+  });
+
+  it('rejects negative, fractional and level scores', () => {
+    expect(validateFrame(makeFrame({ scores: { '1': -1, '2': 0 } }), PLAYERS)).toBe('Scores must be whole numbers');
+    expect(validateFrame(makeFrame({ scores: { '1': 40.5, '2': 0 } }), PLAYERS)).toBe('Scores must be whole numbers');
+    expect(validateFrame(makeFrame({ scores: { '1': 40, '2': 40 } }), PLAYERS)).toBe('A frame cannot end level');
+  });
+
+  it('rejects breaks outside 1-147 and fouls outside 4-7', () => {
+    expect(validateFrame(makeFrame({ breaks: [{ playerId: '1', points: 148 }], scores: { '1': 150, '2': 0 } }), PLAYERS))
+      .toBe('Breaks must be between 1 and 147');
+    expect(validateFrame(makeFrame({ breaks: [{ playerId: '1', points: 0 }] }), PLAYERS))
+      .toBe('Breaks must be between 1 and 147');
+    expect(validateFrame(makeFrame({ fouls: [{ playerId: '2', points: 3 }] }), PLAYERS))
+      .toBe('Fouls must be worth 4 to 7 points');
+    expect(validateFrame(makeFrame({ fouls: [{ playerId: '2', points: 8 }] }), PLAYERS))
+      .toBe('Fouls must be worth 4 to 7 points');
+  });
+
+  it('rejects more balls potted than attempted', () => {
+    expect(validateFrame(makeFrame({ pots: { '1': { attempted: 5, potted: 6 } } }), PLAYERS))
+      .toBe('Balls potted cannot exceed pots attempted');
+  });
+
+  it("rejects breaks that add up to more than the player's score", () => {
+    const breaks = [{ playerId: '1', points: 50 }, { playerId: '1', points: 30 }];
+    expect(validateFrame(makeFrame({ breaks }), PLAYERS)).toBe("A player's breaks cannot add up to more than their score");
+  });
+});
+
+describe('getMatchWinner', () => {
+  it('returns the player with more frames, or null when level', () => {
+    const won = makeFrame();
+    const lost = makeFrame({ id: 'frame-2', scores: { '1': 10, '2': 60 }, breaks: [], winnerId: '2' });
+
+    expect(getMatchWinner(makeMatch('m1', [won, won, lost]))).toBe('1');
+    expect(getMatchWinner(makeMatch('m1', [won, lost]))).toBeNull();
+    expect(getMatchWinner(makeMatch('m1', []))).toBeNull();
+  });
+});
+
+describe('aggregatePlayerStats', () => {
+  it('returns zeros for a player without matches', () => {
+    expect(aggregatePlayerStats('1', [])).toEqual({
+      gamesPlayed: 0,
+      winRate: 0,
+      highestBreak: 0,
+      averageBreak: 0,
+      potSuccessRate: 0,
+      totalPoints: 0,
+    });
+  });
+
+  it('aggregates frames, breaks and pots across matches', () => {
+    const first = makeMatch('m1', [
+      makeFrame({ breaks: [{ playerId: '1', points: 54 }, { playerId: '2', points: 20 }] }),
+    ]);
+    const second = makeMatch('m2', [
+      makeFrame({
+        scores: { '1': 30, '2': 80 },
+        breaks: [{ playerId: '1', points: 25 }, { playerId: '2', points: 62 }],
+        pots: { '1': { attempted: 10, potted: 5 } },
+        winnerId: '2',
+      }),
+    ]);
+
+    expect(aggregatePlayerStats('1', [first, second])).toEqual({
+      gamesPlayed: 2,
+      winRate: 50,
+      highestBreak: 54,
+      averageBreak: 39.5,
+      potSuccessRate: 66.7,
+      totalPoints: 102,
+    });
+  });
+
+  it("ignores matches the player didn't take part in", () => {
+    const other = makeMatch('m3', [makeFrame({ scores: { '3': 70, '4': 10 }, breaks: [], pots: {}, winnerId: '3' })], ['3', '4']);
+
+    expect(aggregatePlayerStats('1', [other]).gamesPlayed).toBe(0);
+  });
+});
+
+describe('mergeMatchStats', () => {
+  const current = {
+    gamesPlayed: 9,
+    winRate: 60,
+    highestBreak: 87,
+    averageBreak: 30,
+    potSuccessRate: 70,
+    totalPoints: 500,
+  };
+
+  it('adds a new match to the existing stats, weighting rates by games', () => {
+    const added = aggregatePlayerStats('1', [makeMatch('m1', [makeFrame()])]);
+
+    expect(mergeMatchStats(current, added)).toEqual({
+      gamesPlayed: 10,
+      winRate: 64,
+      highestBreak: 87,
+      averageBreak: 32.4,
+      potSuccessRate: 70.5,
+      totalPoints: 572,
+    });
+  });
+
+  it('keeps the averages when the new match has no breaks or pot counts', () => {
+    const added = aggregatePlayerStats('1', [makeMatch('m1', [makeFrame({ breaks: [], pots: {} })])]);
+    const merged = mergeMatchStats(current, added);
+
+    expect(merged.averageBreak).toBe(30);
+    expect(merged.potSuccessRate).toBe(70);
+    expect(merged.gamesPlayed).toBe(10);
+  });
+
+  it('takes the new stats as they are for a first match', () => {
+    const empty = aggregatePlayerStats('1', []);
+    const added = aggregatePlayerStats('1', [makeMatch('m1', [makeFrame()])]);
+
+    expect(mergeMatchStats(empty, added)).toEqual(added);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { User } from '@/types';
+
+export interface BreakRecord {
+  playerId: string;
+  points: number;
+}
+
+export interface FoulRecord {
+  // Player who committed the foul; the points go to the opponent
+  playerId: string;
+  points: number;
+}
+
+export interface PotRecord {
+  attempted: number;
+  potted: number;
+}
+
+export interface FrameRecord {
+  id: string;
+  // Frame score per player id
+  scores: Record<string, number>;
+  breaks: BreakRecord[];
+  fouls: FoulRecord[];
+  pots: Record<string, PotRecord>;
+  winnerId: string;
+}
+
+export interface MatchScore {
+  matchId: string;
+  playerIds: [string, string];
+  frames: FrameRecord[];
+}
+
+export type MatchStats = Omit<User['stats'], 'skillLevel'>;
+
+// Foul values in snooker are between 4 and 7 points
+export const MIN_FOUL_POINTS = 4;
+export const MAX_FOUL_POINTS = 7;
+export const MAX_BREAK = 147;
+
+const round = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * Frames won by each player
+ */
+export const getFramesWon = (match: MatchScore): Record<string, number> =>
+  Object.fromEntries(
+    match.playerIds.map(playerId => [playerId, match.frames.filter(frame => frame.winnerId === playerId).length])
+  );
+
+/**
+ * The player who won more frames, or null for a draw or an empty match
+ */
+export const getMatchWinner = (match: MatchScore): string | null => {
+  const [first, second] = match.playerIds;
+  const won = getFramesWon(match);
+  if (won[first] === won[second]) return null;
+  return won[first] > won[second] ? first : second;
+};
+
+/**
+ * Checks that a frame is internally consistent; returns a message or null
+ */
+export const validateFrame = (frame: FrameRecord, playerIds: [string, string]): string | null => {
+  if (!playerIds.includes(frame.winnerId)) {
+    return 'The frame winner must be one of the players';
+  }
+  const [first, second] = playerIds;
+  const scores = playerIds.map(playerId => frame.scores[playerId] ?? 0);
+  if (scores.some(score => !Number.isInteger(score) || score < 0)) {
+    return 'Scores must be whole numbers';
+  }
+  if (scores[0] === scores[1]) {
+    return 'A frame cannot end level';
+  }
+  const leader = scores[0] > scores[1] ? first : second;
+  if (leader !== frame.winnerId) {
+    return 'The frame winner must have the higher score';
+  }
+  if (frame.breaks.some(item => !playerIds.includes(item.playerId) || item.points < 1 || item.points > MAX_BREAK)) {
+    return `Breaks must be between 1 and ${MAX_BREAK}`;
+  }
+  if (frame.fouls.some(item => !playerIds.includes(item.playerId) || item.points < MIN_FOUL_POINTS || item.points > MAX_FOUL_POINTS)) {
+    return `Fouls must be worth ${MIN_FOUL_POINTS} to ${MAX_FOUL_POINTS} points`;
+  }
+  if (Object.values(frame.pots).some(pots => pots.potted < 0 || pots.potted > pots.attempted)) {
+    return 'Balls potted cannot exceed pots attempted';
+  }
+  for (const playerId of playerIds) {
+    const breakPoints = frame.breaks
+      .filter(item => item.playerId === playerId)
+      .reduce((sum, item) => sum + item.points, 0);
+    if (breakPoints > (frame.scores[playerId] ?? 0)) {
+      return "A player's breaks cannot add up to more than their score";
+    }
+  }
+  return null;
+};
+
+/**
+ * Aggregates a player's stats from their confirmed matches
+ *
+ * Pure: the result depends only on the matches passed in. Matches the
+ * player didn't take part in are ignored. Rates are percentages.
+ */
+export const aggregatePlayerStats = (playerId: string, matches: MatchScore[]): MatchStats => {
+  const played = matches.filter(match => match.playerIds.includes(playerId));
+  const frames = played.flatMap(match => match.frames);
+  const breaks = frames.flatMap(frame => frame.breaks.filter(item => item.playerId === playerId).map(item => item.points));
+  const pots = frames.reduce(
+    (total, frame) => ({
+      attempted: total.attempted + (frame.pots[playerId]?.attempted ?? 0),
+      potted: total.potted + (frame.pots[playerId]?.potted ?? 0)
+    }),
+    { attempted: 0, potted: 0 }
+  );
+  const wins = played.filter(match => getMatchWinner(match) === playerId).length;
+
+  return {
+    gamesPlayed: played.length,
+    winRate: played.length ? round((wins / played.length) * 100) : 0,
+    highestBreak: breaks.length ? Math.max(...breaks) : 0,
+    averageBreak: breaks.length ? round(breaks.reduce((sum, points) => sum + points, 0) / breaks.length) : 0,
+    potSuccessRate: pots.attempted ? round((pots.potted / pots.attempted) * 100) : 0,
+    totalPoints: frames.reduce((sum, frame) => sum + (frame.scores[playerId] ?? 0), 0),
+  };
+};
+
+/**
+ * Adds the stats of newly confirmed matches to a player's existing stats
+ *
+ * Stored stats don't keep the counts behind their rates, so rates and
+ * averages are weighted by games played. A match without breaks or pot
+ * counts leaves those averages as they were.
+ */
+export const mergeMatchStats = (current: MatchStats, added: MatchStats): MatchStats => {
+  const gamesPlayed = current.gamesPlayed + added.gamesPlayed;
+  const weighted = (key: 'winRate' | 'averageBreak' | 'potSuccessRate', hasData = true) =>
+    hasData && gamesPlayed
+      ? round((current[key] * current.gamesPlayed + added[key] * added.gamesPlayed) / gamesPlayed)
+      : current[key];
+
+  return {
+    gamesPlayed,
+    winRate: weighted('winRate'),
+    highestBreak: Math.max(current.highestBreak, added.highestBreak),
+    averageBreak: weighted('averageBreak', added.averageBreak > 0),
+    potSuccessRate: weighted('potSuccessRate', added.potSuccessRate > 0),
+    totalPoints: current.totalPoints + added.totalPoints,
+  };
+};
\ No newline at end of file
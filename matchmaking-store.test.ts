@@ -0,0 +1,131 @@
+import { User } from '@/types';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { useMatchmakingStore } from '@/store/matchmaking-store';
+import { useRatingStore } from '@/store/rating-store';
+import { mockPrivacyApi } from '@/services/privacy-api';
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySection } from '@/utils/profile-privacy';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: async () => null,
+  setItemAsync: async () => undefined,
+  deleteItemAsync: async () => undefined,
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: jest.fn() },
+}));
+
+jest.mock('@/api', () => ({
+  __esModule: true,
+  default: { interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } } },
+  removeAuthToken: jest.fn(),
+}));
+
+jest.mock('@/store/match-store', () => ({
+  useMatchStore: { getState: () => ({ matches: [] }) },
+}));
+
+const mockAccounts: { user: User; emailVerified: boolean }[] = [];
+
+jest.mock('@/services/user-registry', () => ({
+  mockUserRegistry: {
+    list: async () => mockAccounts,
+    findById: async (id: string) => mockAccounts.find(account => account.user.id === id) ?? null,
+  },
+}));
+
+const makeUser = (id: string, skillLevel: number): User => ({
+  id,
+  name: `Player ${id}`,
+  username: `player${id}`,
+  email: `player${id}@example.com`,
+  avatar: `https://example.com/${id}.jpg`,
+  location: 'London, UK',
+  stats: {
+    winRate: 0,
+    highestBreak: 0,
+    averageBreak: 0,
+    potSuccessRate: 0,
+    gamesPlayed: 0,
+    totalPoints: 0,
+    skillLevel,
+  },
+  connections: [],
+  isOnline: false,
+  lastActive: '2020-01-01T00:00:00.000Z',
+});
+
+const viewer = makeUser('1', 5);
+const open = makeUser('2', 5);
+const hidesStats = makeUser('3', 5);
+const hidesClubs = makeUser('4', 5);
+
+const CLUB = { id: 'club-1', name: 'Crucible Club', location: 'London, UK', memberCount: 4, createdAt: '2020-01-01' };
+
+const hideSection = (userId: string, section: PrivacySection) =>
+  mockPrivacyApi.updateSettings(userId, {
+    ...DEFAULT_PRIVACY_SETTINGS,
+    sections: { ...DEFAULT_PRIVACY_SETTINGS.sections, [section]: 'nobody' },
+  });
+
+const suggestionFor = (userId: string) =>
+  useMatchmakingStore.getState().suggestions.find(suggestion => suggestion.userId === userId);
+
+beforeAll(async () => {
+  mockAccounts.push(...[viewer, open, hidesStats, hidesClubs].map(user => ({ user, emailVerified: true })));
+  await hideSection(hidesStats.id, 'stats');
+  await hideSection(hidesClubs.id, 'clubs');
+
+  useAuthStore.setState({ user: viewer, activeUserId: viewer.id, isAuthenticated: true });
+  useClubStore.setState({
+    clubs: { [CLUB.id]: CLUB },
+    memberships: Object.fromEntries(mockAccounts.map(({ user }) => [`${CLUB.id}:${user.id}`, {
+      id: `${CLUB.id}:${user.id}`,
+      clubId: CLUB.id,
+      userId: user.id,
+      status: 'approved',
+      role: 'Member',
+      isAdmin: false,
+      achievements: [],
+      requestedAt: '2020-01-01T00:00:00.000Z',
+      approvedAt: '2020-01-01T00:00:00.000Z',
+    }])),
+  });
+  useRatingStore.setState({ history: {} });
+});
+
+describe('opponent suggestions', () => {
+  beforeAll(() => useMatchmakingStore.getState().fetchSuggestions());
+
+  it('scores and shows the level and shared clubs of players who share them', () => {
+    expect(suggestionFor(open.id)).toEqual(expect.objectContaining({
+      rating: useRatingStore.getState().getRating(open.id, open),
+      skillLevel: 5,
+      reasons: expect.arrayContaining(['Similar level', `Same club (${CLUB.name})`]),
+    }));
+  });
+
+  it('leaves out the rating and level of players who hide their stats', () => {
+    const suggestion = suggestionFor(hidesStats.id);
+
+    expect(suggestion).toBeDefined();
+    expect(suggestion).not.toHaveProperty('rating');
+    expect(suggestion).not.toHaveProperty('skillLevel');
+    expect(suggestion?.reasons).not.toContain('Similar level');
+    expect(suggestion?.score).toBeLessThan(suggestionFor(open.id)!.score);
+  });
+
+  it('neither scores nor names the clubs of players who hide them', () => {
+    const suggestion = suggestionFor(hidesClubs.id);
+
+    expect(suggestion).toBeDefined();
+    expect(suggestion?.reasons.join(' ')).not.toContain(CLUB.name);
+    expect(suggestion?.score).toBeLessThan(suggestionFor(open.id)!.score);
+  });
+});
\ No newline at end of file
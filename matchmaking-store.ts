@@ -0,0 +1,135 @@
+import { create } from 'zustand';
+import { User } from '@/types';
+import api from '@/api';
+import config from '@/constants/config';
+import { requireCurrentUser } from '@/store/auth-store';
+import { useAvailabilityStore } from '@/store/availability-store';
+import { useClubStore } from '@/store/club-store';
+import { useConnectionStore } from '@/store/connection-store';
+import { useMatchStore } from '@/store/match-store';
+import { useRatingStore } from '@/store/rating-store';
+import { mockUserRegistry } from '@/services/user-registry';
+import { listMockPlayer } from '@/services/profile-api';
+import { MatchmakingPlayer, scoreOpponent } from '@/utils/matchmaking';
+import { skillLevelForRating } from '@/utils/elo';
+
+export interface OpponentSuggestion {
+  userId: string;
+  name: string;
+  avatar: string;
+  location: string;
+  // Left out when the player hides their stats from the user
+  rating?: number;
+  skillLevel?: number;
+  score: number;
+  reasons: string[];
+}
+
+interface MatchmakingState {
+  suggestions: OpponentSuggestion[];
+  isLoading: boolean;
+  error: string | null;
+  fetchSuggestions: () => Promise<void>;
+}
+
+const MAX_SUGGESTIONS = 10;
+
+const toPlayer = (user: User): MatchmakingPlayer => ({
+  user,
+  rating: useRatingStore.getState().getRating(user.id, user),
+  clubs: useClubStore.getState().getUserClubs(user.id).map(({ id, name }) => ({ id, name })),
+  windows: useAvailabilityStore.getState().getWindows(user.id)
+});
+
+// Players with a pending or accepted match against each other are already paired up
+const haveOpenMatch = (userId: string, otherId: string) =>
+  useMatchStore.getState().matches.some(match =>
+    (match.status === 'pending' || match.status === 'accepted') &&
+    ((match.requesterId === userId && match.receiverId === otherId) ||
+      (match.requesterId === otherId && match.receiverId === userId))
+  );
+
+/**
+ * Matchmaking store using Zustand
+ *
+ * Suggests opponents for the current user, ranked by closeness in rating,
+ * location, shared clubs, recent activity and overlapping availability (see
+ * utils/matchmaking). Blocked players, players whose profile is hidden from
+ * the user and players the user already has an open match with are left out;
+ * stats and clubs a player hides from the user are neither scored nor shown.
+ *
+ * Required API endpoints:
+ * - GET /matchmaking/suggestions - Suggested opponents for the current user
+ */
+export const useMatchmakingStore = create<MatchmakingState>()((set) => {
+  // The mock server scores every registered player the user may see
+  const loadMockSuggestions = async (user: User): Promise<OpponentSuggestion[]> => {
+    const connections = useConnectionStore.getState();
+    const player = toPlayer(user);
+
+    const others = await Promise.all(
+      (await mockUserRegistry.list())
+        .filter(({ emailVerified }) => emailVerified)
+        .map(account => account.user)
+        .filter(other =>
+          other.id !== user.id &&
+          !connections.isBlocked(user.id, other.id) &&
+          !haveOpenMatch(user.id, other.id)
+        )
+        .map(async other => ({ other, listed: await listMockPlayer(other, user.id) }))
+    );
+
+    return others
+      .flatMap(({ other, listed }) => (listed ? [{ other, ...listed }] : []))
+      .map(({ other, user: shown, access }) => {
+        // Rated from the full record, scored and shown as far as the user may see them
+        const full = toPlayer(other);
+        const candidate: MatchmakingPlayer = {
+          ...full,
+          user: shown,
+          rating: access.sections.stats ? full.rating : null,
+          clubs: access.sections.clubs ? full.clubs : []
+        };
+        return {
+          userId: shown.id,
+          name: shown.name,
+          avatar: shown.avatar,
+          location: shown.location,
+          ...(candidate.rating !== null && {
+            rating: candidate.rating,
+            skillLevel: skillLevelForRating(candidate.rating)
+          }),
+          ...scoreOpponent(player, candidate)
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+      .slice(0, MAX_SUGGESTIONS);
+  };
+
+  return {
+    suggestions: [],
+    isLoading: false,
+    error: null,
+
+    fetchSuggestions: async () => {
+      set({ isLoading: true, error: null });
+
+      try {
+        let suggestions: OpponentSuggestion[];
+        if (config.profileData === 'mock') {
+          suggestions = await loadMockSuggestions(requireCurrentUser());
+        } else {
+          const response = await api.get('/matchmaking/suggestions');
+          suggestions = response.data as OpponentSuggestion[];
+        }
+        set({ suggestions, isLoading: false });
+      } catch (error) {
+        console.error('Error loading suggested opponents:', error);
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load suggested opponents'
+        });
+      }
+    }
+  };
+});
\ No newline at end of file
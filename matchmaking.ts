@@ -0,0 +1,109 @@
+import { User } from '@/types';
+import { AvailabilityWindow } from '@/store/availability-store';
+
+/**
+ * What matchmaking knows about a player
+ */
+export interface MatchmakingPlayer {
+  user: User;
+  // null when the player hides their stats from the one being matched
+  rating: number | null;
+  // Empty when the player hides their clubs
+  clubs: { id: string; name: string }[];
+  windows: AvailabilityWindow[];
+}
+
+export interface OpponentScore {
+  // Higher is a better match; at most the sum of the weights below
+  score: number;
+  // Why the opponent was suggested, strongest first
+  reasons: string[];
+}
+
+const LEVEL_WEIGHT = 40;
+const AVAILABILITY_WEIGHT = 20;
+const CITY_WEIGHT = 20;
+const COUNTRY_WEIGHT = 5;
+const CLUB_WEIGHT = 15;
+const ACTIVITY_WEIGHT = 10;
+
+// Rating gap at which level closeness stops counting
+const MAX_RATING_GAP = 400;
+const SIMILAR_RATING_GAP = 100;
+// Weekly overlap that earns the full availability weight
+const FULL_OVERLAP_MINUTES = 240;
+const MIN_OVERLAP_MINUTES = 60;
+const ACTIVE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Minutes per week in which both players are available
+ */
+export const overlapMinutes = (windows: AvailabilityWindow[], otherWindows: AvailabilityWindow[]) =>
+  windows.reduce((total, window) =>
+    total + otherWindows
+      .filter(other => other.day === window.day)
+      .reduce((sum, other) =>
+        sum + Math.max(0, Math.min(window.endMinute, other.endMinute) - Math.max(window.startMinute, other.startMinute)), 0),
+  0);
+
+// "London, UK" -> ["london", "uk"]
+const placeParts = (location: string) => {
+  const parts = location.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+  return { city: parts[0] ?? '', country: parts.length > 1 ? parts[parts.length - 1] : '' };
+};
+
+/**
+ * Scores how good an opponent `candidate` would be for `player`
+ */
+export const scoreOpponent = (
+  player: MatchmakingPlayer,
+  candidate: MatchmakingPlayer,
+  now = Date.now()
+): OpponentScore => {
+  const parts: { points: number; reason: string | null }[] = [];
+
+  if (player.rating !== null && candidate.rating !== null) {
+    const ratingGap = Math.abs(player.rating - candidate.rating);
+    parts.push({
+      points: LEVEL_WEIGHT * Math.max(0, 1 - ratingGap / MAX_RATING_GAP),
+      reason: ratingGap <= SIMILAR_RATING_GAP ? 'Similar level' : null
+    });
+  }
+
+  const overlap = overlapMinutes(player.windows, candidate.windows);
+  parts.push({
+    points: AVAILABILITY_WEIGHT * Math.min(1, overlap / FULL_OVERLAP_MINUTES),
+    reason: overlap >= MIN_OVERLAP_MINUTES ? 'Free at the same times' : null
+  });
+
+  const home = placeParts(player.user.location);
+  const away = placeParts(candidate.user.location);
+  if (home.city && home.city === away.city) {
+    parts.push({ points: CITY_WEIGHT, reason: 'Same city' });
+  } else if (home.country && home.country === away.country) {
+    parts.push({ points: COUNTRY_WEIGHT, reason: null });
+  }
+
+  const sharedClub = player.clubs.find(club => candidate.clubs.some(other => other.id === club.id));
+  if (sharedClub) {
+    parts.push({ points: CLUB_WEIGHT, reason: `Same club (${sharedClub.name})` });
+  }
+
+  if (candidate.user.isOnline) {
+    parts.push({ points: ACTIVITY_WEIGHT, reason: 'Online now' });
+  } else {
+    const idleDays = (now - new Date(candidate.user.lastActive).getTime()) / DAY_MS;
+    if (idleDays < ACTIVE_DAYS) {
+      parts.push({ points: ACTIVITY_WEIGHT * (1 - idleDays / ACTIVE_DAYS), reason: 'Active recently' });
+    }
+  }
+
+  return {
+    score: Math.round(parts.reduce((total, part) => total + part.points, 0)),
+    reasons: parts
+      .filter(part => part.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .flatMap(part => (part.reason ? [part.reason] : []))
+  };
+};
\ No newline at end of file
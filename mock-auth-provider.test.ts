@@ -0,0 +1,142 @@
+import { mockAuthProvider } from '@/services/mock-auth-provider';
+import { MOCK_USER_PASSWORD, mockUserRegistry } from '@/services/user-registry';
+import { AuthError } from '@/services/auth-errors';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Node's crypto stands in for the native module
+jest.mock('expo-crypto', () => {
+  const { createHash, randomBytes } = require('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    digestStringAsync: async (_algorithm: string, data: string) => createHash('sha256').update(data).digest('hex'),
+    getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+  };
+});
+
+jest.mock('@/mocks/users', () => ({
+  users: [
+    {
+      id: '1',
+      name: 'Seeded Player',
+      username: 'seeded',
+      email: 'seeded@example.com',
+      avatar: 'https://example.com/1.jpg',
+      location: 'London, UK',
+      stats: {
+        winRate: 0,
+        highestBreak: 0,
+        averageBreak: 0,
+        potSuccessRate: 0,
+        gamesPlayed: 0,
+        totalPoints: 0,
+        skillLevel: 1,
+      },
+      connections: [],
+      isOnline: false,
+      lastActive: '2026-10-01T12:00:00.000Z',
+    },
+  ],
+}));
+
+const expectAuthError = async (promise: Promise<unknown>, code: AuthError['code']) => {
+  await expect(promise).rejects.toBeInstanceOf(AuthError);
+  await expect(promise).rejects.toMatchObject({ code });
+};
+
+const signup = (email: string, username: string, password = 'Cue-ball-42') =>
+  mockAuthProvider.register({ name: 'New Player', email, username, password });
+
+const verificationCodeFor = async (email: string) =>
+  (await mockUserRegistry.findByEmail(email))?.verificationCode ?? '';
+
+const signupVerifiedAndLogin = async (email: string, username: string) => {
+  await signup(email, username);
+  await mockAuthProvider.verifyEmail(email, await verificationCodeFor(email));
+  return mockAuthProvider.login(email, 'Cue-ball-42', username);
+};
+
+describe('mockAuthProvider', () => {
+  it('logs a seeded user in with the mock password', async () => {
+    const { user, tokens } = await mockAuthProvider.login('seeded@example.com', MOCK_USER_PASSWORD, 'seeded');
+
+    expect(user.id).toBe('1');
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now());
+    expect(await mockAuthProvider.getCurrentUser(tokens.accessToken)).toMatchObject({ id: '1' });
+  });
+
+  it('rejects a wrong password or username', async () => {
+    await expectAuthError(mockAuthProvider.login('seeded@example.com', 'wrong-password', 'seeded'), 'invalid_credentials');
+    await expectAuthError(mockAuthProvider.login('seeded@example.com', MOCK_USER_PASSWORD, 'someone'), 'invalid_credentials');
+  });
+
+  it('stores hashed passwords only', async () => {
+    await signup('hashed@example.com', 'hashed', 'Plain-text-1');
+    const account = await mockUserRegistry.findByEmail('hashed@example.com');
+
+    expect(JSON.stringify(account?.password)).not.toContain('Plain-text-1');
+  });
+
+  it('requires the emailed code before a new account can log in', async () => {
+    await signup('new@example.com', 'newplayer');
+    await expectAuthError(mockAuthProvider.login('new@example.com', 'Cue-ball-42', 'newplayer'), 'email_not_verified');
+
+    await expectAuthError(mockAuthProvider.verifyEmail('new@example.com', '000000'), 'invalid_verification_code');
+    await mockAuthProvider.verifyEmail('new@example.com', await verificationCodeFor('new@example.com'));
+
+    const { user } = await mockAuthProvider.login('new@example.com', 'Cue-ball-42', 'newplayer');
+    expect(user.email).toBe('new@example.com');
+  });
+
+  it('refuses a second account with the same email or username', async () => {
+    await signup('taken@example.com', 'taken');
+
+    await expect(signup('TAKEN@example.com', 'other')).rejects.toMatchObject({ code: 'validation' });
+    await expect(signup('other@example.com', 'Taken')).rejects.toMatchObject({ code: 'validation' });
+  });
+
+  it('resets a password with the reset token, once', async () => {
+    await signupVerifiedAndLogin('reset@example.com', 'resetter');
+    await mockAuthProvider.requestPasswordReset('reset@example.com');
+    const token = (await mockUserRegistry.findByEmail('reset@example.com'))?.passwordResetToken ?? '';
+
+    await mockAuthProvider.confirmPasswordReset(token, 'New-password-7');
+
+    await expectAuthError(mockAuthProvider.login('reset@example.com', 'Cue-ball-42', 'resetter'), 'invalid_credentials');
+    await expect(mockAuthProvider.login('reset@example.com', 'New-password-7', 'resetter')).resolves.toBeDefined();
+    await expectAuthError(mockAuthProvider.confirmPasswordReset(token, 'Another-one-8'), 'invalid_reset_token');
+  });
+
+  it('accepts a password reset request for an unknown address without saying so', async () => {
+    await expect(mockAuthProvider.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+  });
+
+  it('changes the password only when the current one is right', async () => {
+    const { tokens } = await signupVerifiedAndLogin('change@example.com', 'changer');
+    await mockAuthProvider.getCurrentUser(tokens.accessToken);
+
+    await expect(mockAuthProvider.changePassword('wrong-password', 'Next-pass-9')).rejects.toMatchObject({ code: 'validation' });
+    await mockAuthProvider.changePassword('Cue-ball-42', 'Next-pass-9');
+
+    await expect(mockAuthProvider.login('change@example.com', 'Next-pass-9', 'changer')).resolves.toBeDefined();
+  });
+
+  it('exchanges a refresh token for a new access token', async () => {
+    const { tokens } = await signupVerifiedAndLogin('refresh@example.com', 'refresher');
+    const refreshed = await mockAuthProvider.refresh(tokens.refreshToken);
+
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    expect(await mockAuthProvider.getCurrentUser(refreshed.accessToken)).toMatchObject({ email: 'refresh@example.com' });
+  });
+
+  it('rejects tokens that are expired or of the wrong kind', async () => {
+    const { tokens } = await signupVerifiedAndLogin('expired@example.com', 'expirer');
+    const [, userId] = tokens.accessToken.split('.');
+
+    await expectAuthError(mockAuthProvider.getCurrentUser(`mock_access.${userId}.${Date.now() - 1}.x`), 'invalid_token');
+    await expectAuthError(mockAuthProvider.getCurrentUser(tokens.refreshToken), 'invalid_token');
+    await expectAuthError(mockAuthProvider.refresh(tokens.accessToken), 'invalid_token');
+  });
+});
\ No newline at end of file
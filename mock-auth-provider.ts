@@ -0,0 +1,266 @@
+import { User } from '@/types';
+import { AuthProvider, AuthTokens } from '@/services/auth-provider';
+import { AuthError, validationError } from '@/services/auth-errors';
+import { mockUserRegistry as registry } from '@/services/user-registry';
+import { hashPassword, verifyPassword } from '@/utils/password-hash';
+
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const VERIFICATION_CODE_TTL_MS = 15 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+// User the mock "server" considers signed in
+let sessionUser: User | null = null;
+
+const randomId = () => Math.random().toString(36).substring(2);
+
+/**
+ * Mock tokens carry the user id (and the expiry for access tokens) so they
+ * survive an app reload the same way real tokens would:
+ *   mock_access.<userId>.<expiresAt>.<random>
+ *   mock_refresh.<userId>.<random>
+ */
+const issueTokens = (userId: string): AuthTokens => {
+  const expiresAt = Date.now() + ACCESS_TOKEN_TTL_MS;
+  return {
+    accessToken: `mock_access.${userId}.${expiresAt}.${randomId()}`,
+    refreshToken: `mock_refresh.${userId}.${randomId()}`,
+    expiresAt,
+  };
+};
+
+const findTokenUser = async (token: string, kind: 'access' | 'refresh'): Promise<User> => {
+  const [prefix, userId, expiresAt] = token.split('.');
+  const account = await registry.findById(userId);
+
+  if (prefix !== `mock_${kind}` || !account) {
+    throw new AuthError('invalid_token', 'Invalid token');
+  }
+  if (kind === 'access' && Number(expiresAt) <= Date.now()) {
+    throw new AuthError('invalid_token', 'Access token expired');
+  }
+
+  return account.user;
+};
+
+// Adds or removes `otherId` in a user's connections
+const setConnected = async (userId: string, otherId: string, connected: boolean): Promise<User> => {
+  const account = await registry.findById(userId);
+  if (!account) {
+    throw new Error('User not found');
+  }
+
+  const others = account.user.connections.filter(id => id !== otherId);
+  const { user } = await registry.update(userId, { user: { connections: connected ? [...others, otherId] : others } });
+  return user;
+};
+
+// "Sends" a new verification code; the mock server only stores it in the registry
+const sendVerificationCode = async (userId: string) => {
+  const code = Math.floor(100000 + Math.random() * 900000).toString();
+  await registry.update(userId, {
+    verificationCode: code,
+    verificationExpiresAt: Date.now() + VERIFICATION_CODE_TTL_MS,
+  });
+};
+
+/**
+ * Auth provider backed by the mock user registry
+ *
+ * Mirrors the behaviour of the REST endpoints closely enough to develop the
+ * UI without a server. Passwords are stored as salted hashes in the registry.
+ * Verification codes and reset tokens are kept in the registry (see
+ * services/user-registry) instead of being emailed.
+ */
+export const mockAuthProvider: AuthProvider = {
+  login: async (email, password, username) => {
+    const account = await registry.findByEmail(email);
+
+    if (
+      !account ||
+      account.user.username.toLowerCase() !== username.toLowerCase() ||
+      !(await verifyPassword(password, account.password))
+    ) {
+      throw new AuthError('invalid_credentials', 'Invalid credentials');
+    }
+    if (!account.emailVerified) {
+      throw new AuthError('email_not_verified', 'Please verify your email before logging in');
+    }
+
+    sessionUser = account.user;
+
+    return { user: account.user, tokens: issueTokens(account.user.id) };
+  },
+
+  register: async ({ name, email, password, username, location = '' }) => {
+    // Check if email already exists
+    if (await registry.findByEmail(email)) {
+      throw validationError({ email: 'Email already in use' });
+    }
+
+    // Check if username already exists
+    if (!(await mockAuthProvider.isUsernameAvailable(username))) {
+      throw validationError({ username: 'Username already taken' });
+    }
+
+    const { user } = await registry.create({
+      name,
+      username,
+      email,
+      avatar: 'https://images.unsplash.com/photo-1570295999919-56ceb5ecca61?q=80&w=200&auto=format&fit=crop',
+      bio: 'New snooker enthusiast',
+      location: location || '',
+      stats: {
+        winRate: 0,
+        highestBreak: 0,
+        averageBreak: 0,
+        potSuccessRate: 0,
+        gamesPlayed: 0,
+        totalPoints: 0,
+        skillLevel: 1
+      },
+      connections: [],
+      // Set by the presence service once the user signs in
+      isOnline: false,
+      lastActive: new Date().toISOString()
+    }, await hashPassword(password));
+
+    // The account can't be used until the emailed code is confirmed
+    await sendVerificationCode(user.id);
+  },
+
+  verifyEmail: async (email, code) => {
+    const account = await registry.findByEmail(email);
+
+    if (!account) {
+      throw validationError({ email: 'No account found for this email' });
+    }
+    if (account.emailVerified) {
+      return;
+    }
+    if (
+      account.verificationCode !== code.trim() ||
+      !account.verificationExpiresAt ||
+      account.verificationExpiresAt <= Date.now()
+    ) {
+      throw new AuthError('invalid_verification_code', 'The verification code is invalid or has expired');
+    }
+
+    await registry.update(account.user.id, {
+      emailVerified: true,
+      verificationCode: null,
+      verificationExpiresAt: null,
+    });
+  },
+
+  resendVerification: async (email) => {
+    const account = await registry.findByEmail(email);
+
+    // Don't reveal whether the address is registered
+    if (account && !account.emailVerified) {
+      await sendVerificationCode(account.user.id);
+    }
+  },
+
+  isUsernameAvailable: async (username) => {
+    return !(await registry.findByUsername(username));
+  },
+
+  requestPasswordReset: async (email) => {
+    const account = await registry.findByEmail(email);
+
+    // Don't reveal whether the address is registered
+    if (!account) return;
+
+    const token = randomId();
+    await registry.update(account.user.id, {
+      passwordResetToken: token,
+      passwordResetExpiresAt: Date.now() + PASSWORD_RESET_TTL_MS,
+    });
+  },
+
+  confirmPasswordReset: async (token, newPassword) => {
+    const account = await registry.findByPasswordResetToken(token.trim());
+
+    if (!account || !account.passwordResetExpiresAt || account.passwordResetExpiresAt <= Date.now()) {
+      throw new AuthError('invalid_reset_token', 'The reset code is invalid or has expired');
+    }
+
+    await registry.update(account.user.id, {
+      password: await hashPassword(newPassword),
+      passwordResetToken: null,
+      passwordResetExpiresAt: null,
+    });
+  },
+
+  changePassword: async (currentPassword, newPassword) => {
+    const account = sessionUser && await registry.findById(sessionUser.id);
+    if (!account) {
+      throw new Error('Not authenticated');
+    }
+
+    if (!(await verifyPassword(currentPassword, account.password))) {
+      throw validationError({ currentPassword: 'Current password is incorrect' });
+    }
+
+    await registry.update(account.user.id, { password: await hashPassword(newPassword) });
+  },
+
+  logout: async (refreshToken) => {
+    // Other accounts on the device may still be signed in
+    if (sessionUser && refreshToken?.split('.')[1] === sessionUser.id) {
+      sessionUser = null;
+    }
+  },
+
+  refresh: async (refreshToken) => {
+    const user = await findTokenUser(refreshToken, 'refresh');
+    return issueTokens(user.id);
+  },
+
+  getCurrentUser: async (accessToken) => {
+    sessionUser = await findTokenUser(accessToken, 'access');
+    return sessionUser;
+  },
+
+  updateProfile: async (data) => {
+    if (!sessionUser) {
+      throw new Error('Not authenticated');
+    }
+
+    const { user } = await registry.update(sessionUser.id, { user: data });
+    sessionUser = user;
+    return user;
+  },
+
+  uploadAvatar: async (uri) => {
+    if (!sessionUser) {
+      throw new Error('Not authenticated');
+    }
+
+    // The mock server keeps the local file URI as the avatar URL
+    const { user } = await registry.update(sessionUser.id, { user: { avatar: uri } });
+    sessionUser = user;
+    return uri;
+  },
+
+  addConnection: async (userId) => {
+    if (!sessionUser) {
+      throw new Error('Not authenticated');
+    }
+
+    // Connections are mutual; adding an existing one is a no-op, so replays are safe
+    await setConnected(userId, sessionUser.id, true);
+    sessionUser = await setConnected(sessionUser.id, userId, true);
+    return sessionUser;
+  },
+
+  removeConnection: async (userId) => {
+    if (!sessionUser) {
+      throw new Error('Not authenticated');
+    }
+
+    await setConnected(userId, sessionUser.id, false);
+    sessionUser = await setConnected(sessionUser.id, userId, false);
+    return sessionUser;
+  },
+};
\ No newline at end of file
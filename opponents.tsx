@@ -0,0 +1,254 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useAvailabilityStore, formatWindow } from '@/store/availability-store';
+import { useConnectionStore } from '@/store/connection-store';
+import { useMatchStore } from '@/store/match-store';
+import { useMatchmakingStore, OpponentSuggestion } from '@/store/matchmaking-store';
+import colors from '@/constants/colors';
+
+export default function OpponentsScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const availabilityStore = useAvailabilityStore();
+  const connectionStore = useConnectionStore();
+  const { createMatch } = useMatchStore();
+  const { suggestions, isLoading, error, fetchSuggestions } = useMatchmakingStore();
+
+  const windows = user ? availabilityStore.getWindows(user.id) : [];
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [user?.id, windows.length]);
+
+  const handleChallenge = async (opponent: OpponentSuggestion) => {
+    if (!user) return;
+
+    try {
+      if (connectionStore.getView(user.id, opponent.userId) === 'connected') {
+        await createMatch({
+          requesterId: user.id,
+          receiverId: opponent.userId,
+          status: 'pending',
+          createdAt: new Date().toISOString()
+        });
+      } else {
+        // Connection request and match request succeed or fail together
+        await connectionStore.sendRequestWithMatch(opponent.userId);
+      }
+      Alert.alert('Match requested', `${opponent.name} will be asked to play you.`);
+      await fetchSuggestions();
+    } catch (error) {
+      console.error('Error requesting match:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to request match');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Suggested Opponents',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <TouchableOpacity style={styles.availability} onPress={() => router.push('/availability')}>
+        <View style={styles.availabilityInfo}>
+          <Text style={styles.availabilityTitle}>Your availability</Text>
+          <Text style={styles.availabilityText}>
+            {windows.length
+              ? windows.map(formatWindow).join(', ')
+              : 'Add the times you can play to get better suggestions'}
+          </Text>
+        </View>
+        <Text style={styles.action}>Edit</Text>
+      </TouchableOpacity>
+
+      {isLoading && suggestions.length === 0 ? (
+        <ActivityIndicator style={styles.loading} color={colors.primary} />
+      ) : error ? (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity onPress={fetchSuggestions}>
+            <Text style={styles.action}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={suggestions}
+          keyExtractor={suggestion => suggestion.userId}
+          contentContainerStyle={styles.listContent}
+          onRefresh={fetchSuggestions}
+          refreshing={isLoading}
+          ListEmptyComponent={<Text style={styles.emptyText}>No opponents to suggest right now</Text>}
+          renderItem={({ item: suggestion }) => (
+            <View style={styles.card}>
+              <TouchableOpacity
+                style={styles.player}
+                onPress={() => router.push(`/profile?userId=${suggestion.userId}`)}
+              >
+                <Image source={{ uri: suggestion.avatar }} style={styles.avatar} />
+                <View style={styles.playerInfo}>
+                  <Text style={styles.name}>{suggestion.name}</Text>
+                  <Text style={styles.details}>
+                    {[
+                      suggestion.location,
+                      suggestion.skillLevel !== undefined && `Level ${suggestion.skillLevel}`,
+                      suggestion.rating !== undefined && `${suggestion.rating}`
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+
+              {suggestion.reasons.length > 0 && (
+                <View style={styles.reasons}>
+                  {suggestion.reasons.map(reason => (
+                    <View key={reason} style={styles.reason}>
+                      <Text style={styles.reasonText}>{reason}</Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+
+              <TouchableOpacity style={styles.challengeButton} onPress={() => handleChallenge(suggestion)}>
+                <Text style={styles.challengeButtonText}>Challenge</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  availability: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    margin: 16,
+  },
+  availabilityInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  availabilityTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  availabilityText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  action: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  loading: {
+    marginTop: 24,
+  },
+  centered: {
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  player: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  avatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  details: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  reasons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 10,
+  },
+  reason: {
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  reasonText: {
+    fontSize: 12,
+    color: colors.primary,
+  },
+  challengeButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 6,
+  },
+  challengeButtonText: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
@@ -0,0 +1,52 @@
+export interface OptimisticStep {
+  // Used in the error message if this step fails, e.g. "send the match request"
+  description: string;
+  run: () => unknown | Promise<unknown>;
+  // Reverts `run`; called in reverse order when a later step fails
+  undo?: () => unknown | Promise<unknown>;
+}
+
+/**
+ * Thrown by runOptimistic after rolling back
+ *
+ * The message is meant to be shown to the user as is.
+ */
+export class OptimisticUpdateError extends Error {
+  failedStep: string;
+  cause: unknown;
+
+  constructor(failedStep: string, cause: unknown) {
+    const reason = cause instanceof Error && cause.message ? ` (${cause.message})` : '';
+    super(`Couldn't ${failedStep}${reason}. No changes were saved.`);
+    this.name = 'OptimisticUpdateError';
+    this.failedStep = failedStep;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Runs a chain of steps as one unit
+ *
+ * The first step usually applies the change to local state so the UI updates
+ * immediately. If any step throws, the steps that already ran are undone in
+ * reverse order and an OptimisticUpdateError naming the failed step is thrown.
+ */
+export const runOptimistic = async (steps: OptimisticStep[]): Promise<void> => {
+  const completed: OptimisticStep[] = [];
+  
+  for (const step of steps) {
+    try {
+      await step.run();
+      completed.push(step);
+    } catch (error) {
+      for (const done of completed.reverse()) {
+        try {
+          await done.undo?.();
+        } catch (undoError) {
+          console.error(`Rollback of "${done.description}" failed:`, undoError);
+        }
+      }
+      throw new OptimisticUpdateError(step.description, error);
+    }
+  }
+};
\ No newline at end of file
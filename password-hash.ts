@@ -0,0 +1,26 @@
+import * as Crypto from 'expo-crypto';
+
+export interface PasswordHash {
+  salt: string;
+  hash: string;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+const digest = (salt: string, password: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${password}`);
+
+/**
+ * Salted SHA-256 password hashing for the mock auth backend
+ *
+ * Good enough to keep plain passwords out of the mock registry; a real server
+ * should use a slow KDF such as bcrypt or Argon2 instead.
+ */
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = toHex(Crypto.getRandomBytes(16));
+  return { salt, hash: await digest(salt, password) };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash): Promise<boolean> =>
+  (await digest(stored.salt, password)) === stored.hash;
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { User } from '@/types';
+import config from '@/constants/config';
+import { useAuthStore } from '@/store/auth-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { mockUserRegistry } from '@/services/user-registry';
+
+/**
+ * Loads a player, preferring the signed-in copy over the profile cache
+ */
+export const findPlayer = async (playerId: string): Promise<User | null> => {
+  const signedIn = useAuthStore.getState().accounts.find(account => account.user.id === playerId);
+  if (signedIn) {
+    return signedIn.user;
+  }
+
+  const profileData = useProfileDataStore.getState();
+  await profileData.fetchSection(playerId, 'user');
+  return useProfileDataStore.getState().getSection(playerId, 'user').data;
+};
+
+/**
+ * Loads a player's full record, for deriving ratings and stats
+ *
+ * Profile sections are restricted by the player's privacy settings, so the
+ * mock server reads its registry instead. In a real app the server derives
+ * these itself from its own records.
+ */
+export const findPlayerRecord = async (playerId: string): Promise<User | null> => {
+  if (config.authProvider === 'mock') {
+    return (await mockUserRegistry.findById(playerId))?.user ?? null;
+  }
+  return findPlayer(playerId);
+};
+
+/**
+ * Writes derived stats (match aggregates, skillLevel) to every local copy of
+ * the player
+ *
+ * `update` is either the new values or a function of the copy's current
+ * stats, for changes that build on them. In a real app the server derives
+ * these itself; the mock server keeps them in its registry.
+ */
+export const updatePlayerStats = async (
+  playerId: string,
+  update: Partial<User['stats']> | ((stats: User['stats']) => Partial<User['stats']>)
+) => {
+  const withStats = (user: User): User => ({
+    ...user,
+    stats: { ...user.stats, ...(typeof update === 'function' ? update(user.stats) : update) }
+  });
+
+  if (config.authProvider === 'mock') {
+    const account = await mockUserRegistry.findById(playerId);
+    if (account) {
+      await mockUserRegistry.update(playerId, { user: { stats: withStats(account.user).stats } });
+    }
+  }
+
+  const auth = useAuthStore.getState();
+  const signedIn = auth.accounts.find(account => account.user.id === playerId);
+  if (signedIn) {
+    auth.syncUser(withStats(signedIn.user));
+  }
+
+  const profileData = useProfileDataStore.getState();
+  const cached = profileData.getSection(playerId, 'user').data;
+  if (cached) {
+    profileData.setSectionData(playerId, 'user', withStats(cached));
+  }
+};
\ No newline at end of file
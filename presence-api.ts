@@ -0,0 +1,167 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '@/api';
+import config from '@/constants/config';
+import { mockUserRegistry } from '@/services/user-registry';
+
+/**
+ * - online: the app is in the foreground
+ * - away: the app was backgrounded recently
+ * - offline: no heartbeat within PRESENCE_TIMEOUT_MS, signed out, or hidden
+ */
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface Presence {
+  userId: string;
+  status: PresenceStatus;
+  // Last time the user had the app open; null when they hide their status
+  lastActive: string | null;
+}
+
+// How often a foregrounded app reports in
+export const HEARTBEAT_INTERVAL_MS = 60 * 1000;
+// Without a heartbeat for this long a user counts as offline
+export const PRESENCE_TIMEOUT_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+/**
+ * Backend used by usePresenceStore
+ *
+ * As with the other mock backends the acting user's id is passed explicitly;
+ * the REST API takes it from the access token. Users who hide their status
+ * appear offline, without a last active time, to everyone but themselves.
+ */
+export interface PresenceApi {
+  heartbeat: (userId: string, status: 'online' | 'away') => Promise<void>;
+  goOffline: (userId: string) => Promise<void>;
+  setHidden: (userId: string, hidden: boolean) => Promise<void>;
+  get: (userIds: string[], viewerId: string | null) => Promise<Presence[]>;
+}
+
+interface StoredPresence {
+  status: PresenceStatus;
+  lastActive: string;
+  lastHeartbeatAt: number;
+  hidden: boolean;
+}
+
+const STORAGE_KEY = 'snookiq-mock-presence';
+
+let stored: Record<string, StoredPresence> | null = null;
+
+const load = async (): Promise<Record<string, StoredPresence>> => {
+  if (!stored) {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) as Record<string, StoredPresence> : {};
+  }
+  return stored;
+};
+
+/**
+ * Saves a user's presence and mirrors it onto their User, which is what
+ * profiles and matchmaking read
+ */
+const saveRecord = async (userId: string, update: (current: StoredPresence) => StoredPresence) => {
+  const all = await load();
+  const account = await mockUserRegistry.findById(userId);
+  if (!account) {
+    throw new Error('User not found');
+  }
+
+  const record = update(all[userId] ?? {
+    status: 'offline',
+    lastActive: account.user.lastActive,
+    lastHeartbeatAt: 0,
+    hidden: false,
+  });
+  stored = { ...all, [userId]: record };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+
+  await mockUserRegistry.update(userId, {
+    user: record.hidden
+      ? { isOnline: false }
+      : { isOnline: record.status === 'online', lastActive: record.lastActive },
+  });
+};
+
+// Stale heartbeats mean the app was closed without saying so
+const currentStatus = (record: StoredPresence, now: number): PresenceStatus =>
+  now - record.lastHeartbeatAt > PRESENCE_TIMEOUT_MS ? 'offline' : record.status;
+
+/**
+ * Presence kept in AsyncStorage
+ *
+ * Users who never sent a heartbeat (the seeded mock users) keep the
+ * isOnline and lastActive they were seeded with.
+ */
+const mockPresenceApi: PresenceApi = {
+  heartbeat: async (userId, status) => {
+    const now = Date.now();
+    await saveRecord(userId, current => ({
+      ...current,
+      status,
+      // Only time spent in the app counts as activity
+      lastActive: status === 'online' ? new Date(now).toISOString() : current.lastActive,
+      lastHeartbeatAt: now,
+    }));
+  },
+
+  goOffline: async (userId) => {
+    await saveRecord(userId, current => ({ ...current, status: 'offline' }));
+  },
+
+  setHidden: async (userId, hidden) => {
+    await saveRecord(userId, current => ({ ...current, hidden }));
+  },
+
+  get: async (userIds, viewerId) => {
+    const all = await load();
+    const now = Date.now();
+
+    const presences = await Promise.all(userIds.map(async (userId): Promise<Presence | null> => {
+      const record = all[userId];
+      if (record?.hidden && userId !== viewerId) {
+        return { userId, status: 'offline', lastActive: null };
+      }
+      if (record) {
+        return { userId, status: currentStatus(record, now), lastActive: record.lastActive };
+      }
+
+      const account = await mockUserRegistry.findById(userId);
+      return account
+        ? { userId, status: account.user.isOnline ? 'online' : 'offline', lastActive: account.user.lastActive }
+        : null;
+    }));
+
+    return presences.filter((presence): presence is Presence => presence !== null);
+  },
+};
+
+/**
+ * Presence through the REST API
+ *
+ * Endpoints:
+ * - POST /presence/heartbeat - Report in { status }
+ * - DELETE /presence - Go offline
+ * - PUT /presence/visibility - Hide or show your status { hidden }
+ * - GET /presence?userIds= - Presence of several users
+ */
+const httpPresenceApi: PresenceApi = {
+  heartbeat: async (_userId, status) => {
+    await api.post('/presence/heartbeat', { status });
+  },
+
+  goOffline: async () => {
+    await api.delete('/presence');
+  },
+
+  setHidden: async (_userId, hidden) => {
+    await api.put('/presence/visibility', { hidden });
+  },
+
+  get: async (userIds) => {
+    const response = await api.get('/presence', { params: { userIds: userIds.join(',') } });
+    return response.data as Presence[];
+  },
+};
+
+export const getPresenceApi = (): PresenceApi =>
+  config.profileData === 'http' ? httpPresenceApi : mockPresenceApi;
\ No newline at end of file
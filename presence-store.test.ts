@@ -0,0 +1,145 @@
+import { useAuthStore } from '@/store/auth-store';
+import { usePresenceStore } from '@/store/presence-store';
+import { getPresenceApi } from '@/services/presence-api';
+import { getAuthProvider } from '@/services/auth-provider';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    getItemAsync: async (key: string) => items.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => {
+      items.set(key, value);
+    },
+    deleteItemAsync: async (key: string) => {
+      items.delete(key);
+    },
+  };
+});
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: jest.fn() },
+}));
+
+jest.mock('react-native', () => ({
+  AppState: { currentState: 'active', addEventListener: jest.fn() },
+}));
+
+jest.mock('@/api', () => ({
+  __esModule: true,
+  default: { interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } } },
+  removeAuthToken: jest.fn(),
+}));
+
+jest.mock('@/services/auth-provider', () => {
+  const provider = {
+    logout: jest.fn(async () => undefined),
+    getCurrentUser: jest.fn(),
+  };
+  return { getAuthProvider: () => provider };
+});
+
+jest.mock('@/services/presence-api', () => {
+  const presenceApi = {
+    heartbeat: jest.fn(async () => undefined),
+    goOffline: jest.fn(async () => undefined),
+    setHidden: jest.fn(async () => undefined),
+    get: jest.fn(async () => []),
+  };
+  return { HEARTBEAT_INTERVAL_MS: 60 * 1000, getPresenceApi: () => presenceApi };
+});
+
+const presenceApi = getPresenceApi() as jest.Mocked<ReturnType<typeof getPresenceApi>>;
+const authProvider = getAuthProvider() as jest.Mocked<ReturnType<typeof getAuthProvider>>;
+
+const makeAccount = (id: string) => ({
+  user: {
+    id,
+    name: `Player ${id}`,
+    username: `player${id}`,
+    email: `player${id}@example.com`,
+    avatar: `https://example.com/${id}.jpg`,
+    location: 'London, UK',
+    stats: {
+      winRate: 0,
+      highestBreak: 0,
+      averageBreak: 0,
+      potSuccessRate: 0,
+      gamesPlayed: 0,
+      totalPoints: 0,
+      skillLevel: 1,
+    },
+    connections: [],
+    isOnline: true,
+    lastActive: '2026-10-01T12:00:00.000Z',
+  },
+  tokens: { accessToken: `access-${id}`, refreshToken: `refresh-${id}`, expiresAt: Date.now() + 60 * 60 * 1000 },
+});
+
+const first = makeAccount('1');
+const second = makeAccount('2');
+
+// The access token requests carried when each account was reported offline
+const recordGoOfflineTokens = () => {
+  const sent: Record<string, string | undefined> = {};
+  presenceApi.goOffline.mockImplementation(async userId => {
+    sent[userId] = useAuthStore.getState().tokens?.accessToken;
+  });
+  return sent;
+};
+
+describe('presence on account changes', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    authProvider.getCurrentUser.mockImplementation(async accessToken =>
+      accessToken === second.tokens.accessToken ? second.user : first.user
+    );
+    useAuthStore.setState({
+      accounts: [first, second],
+      activeUserId: first.user.id,
+      user: first.user,
+      tokens: first.tokens,
+      isAuthenticated: true,
+    });
+  });
+
+  afterEach(() => {
+    usePresenceStore.getState().reportActivity('background');
+    jest.useRealTimers();
+  });
+
+  it('reports the outgoing account offline with its own token before switching', async () => {
+    const sent = recordGoOfflineTokens();
+
+    await useAuthStore.getState().switchAccount(second.user.id);
+
+    expect(presenceApi.goOffline).toHaveBeenCalledTimes(1);
+    expect(sent).toEqual({ [first.user.id]: first.tokens.accessToken });
+    expect(presenceApi.heartbeat).toHaveBeenCalledWith(second.user.id, 'online');
+    expect(usePresenceStore.getState().presence[first.user.id]?.status).toBe('offline');
+  });
+
+  it('reports the account offline before signing it out', async () => {
+    const sent = recordGoOfflineTokens();
+
+    await useAuthStore.getState().logout();
+
+    expect(sent).toEqual({ [first.user.id]: first.tokens.accessToken });
+    expect(authProvider.logout).toHaveBeenCalledWith(first.tokens.refreshToken);
+    // Revoking the session first would leave nothing to send it with
+    expect(presenceApi.goOffline.mock.invocationCallOrder[0])
+      .toBeLessThan(authProvider.logout.mock.invocationCallOrder[0]);
+    expect(useAuthStore.getState().activeUserId).toBeNull();
+  });
+
+  it('leaves presence alone when the active account is checked again', async () => {
+    await useAuthStore.getState().switchAccount(first.user.id);
+
+    expect(presenceApi.goOffline).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
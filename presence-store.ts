@@ -0,0 +1,178 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User } from '@/types';
+import { useAuthStore, onActiveAccountLeaving, requireCurrentUserId } from '@/store/auth-store';
+import { useProfileSyncStore } from '@/store/profile-sync-store';
+import { HEARTBEAT_INTERVAL_MS, Presence, getPresenceApi } from '@/services/presence-api';
+
+interface PresenceState {
+  // Last known presence per user
+  presence: Record<string, Presence>;
+  // Whether each signed-in user hides their online status
+  hidden: Record<string, boolean>;
+  // Cached presence, or what the user record says until it is loaded
+  getPresence: (userId: string, user?: User | null) => Presence | null;
+  fetchPresence: (userIds: string[]) => Promise<void>;
+  isHidden: (userId: string) => boolean;
+  setHidden: (hidden: boolean) => Promise<void>;
+  // Reports the app's foreground state for the signed-in user
+  reportActivity: (appState: AppStateStatus) => Promise<void>;
+  goOffline: (userId: string) => Promise<void>;
+}
+
+const presenceApi = getPresenceApi();
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * "Online", "Away" or "Last seen 3h ago"; null when the user hides their
+ * status
+ */
+export const formatPresence = (presence: Presence | null, now = Date.now()) => {
+  if (!presence) return null;
+  if (presence.status === 'online') return 'Online';
+  if (presence.status === 'away') return 'Away';
+  if (!presence.lastActive) return null;
+
+  const elapsed = now - new Date(presence.lastActive).getTime();
+  if (elapsed < MINUTE_MS) return 'Last seen just now';
+  if (elapsed < HOUR_MS) return `Last seen ${Math.floor(elapsed / MINUTE_MS)}m ago`;
+  if (elapsed < DAY_MS) return `Last seen ${Math.floor(elapsed / HOUR_MS)}h ago`;
+  if (elapsed < 7 * DAY_MS) return `Last seen ${Math.floor(elapsed / DAY_MS)}d ago`;
+  return `Last seen ${new Date(presence.lastActive).toLocaleDateString()}`;
+};
+
+/**
+ * Presence store using Zustand
+ *
+ * While the app is in the foreground the signed-in user sends a heartbeat
+ * every HEARTBEAT_INTERVAL_MS; backgrounding the app reports them away and
+ * stops the heartbeats, after which the server marks them offline. Users can
+ * hide their status, in which case others see them as offline.
+ *
+ * Required API endpoints: see services/presence-api
+ */
+export const usePresenceStore = create<PresenceState>()(
+  persist(
+    (set, get) => {
+      const stopHeartbeats = () => {
+        if (heartbeatTimer) {
+          clearInterval(heartbeatTimer);
+          heartbeatTimer = null;
+        }
+      };
+
+      const sendHeartbeat = async (userId: string, status: 'online' | 'away') => {
+        // Missed heartbeats while offline simply let the user time out
+        if (!useProfileSyncStore.getState().isOnline) return;
+
+        try {
+          await presenceApi.heartbeat(userId, status);
+          set(state => ({
+            presence: {
+              ...state.presence,
+              [userId]: {
+                userId,
+                status,
+                lastActive: status === 'online' ? new Date().toISOString() : state.presence[userId]?.lastActive ?? null
+              }
+            }
+          }));
+        } catch (error) {
+          console.error('Error sending heartbeat:', error);
+        }
+      };
+
+      return {
+        presence: {},
+        hidden: {},
+
+        getPresence: (userId, user) =>
+          get().presence[userId] ??
+          (user ? { userId, status: user.isOnline ? 'online' : 'offline', lastActive: user.lastActive } : null),
+
+        fetchPresence: async (userIds) => {
+          if (userIds.length === 0) return;
+
+          try {
+            const loaded = await presenceApi.get(userIds, useAuthStore.getState().activeUserId);
+            set(state => ({
+              presence: {
+                ...state.presence,
+                ...Object.fromEntries(loaded.map(presence => [presence.userId, presence]))
+              }
+            }));
+          } catch (error) {
+            console.error('Error loading presence:', error);
+          }
+        },
+
+        isHidden: (userId) => get().hidden[userId] ?? false,
+
+        setHidden: async (hidden) => {
+          const userId = requireCurrentUserId();
+
+          await presenceApi.setHidden(userId, hidden);
+          set(state => ({ hidden: { ...state.hidden, [userId]: hidden } }));
+        },
+
+        reportActivity: async (appState) => {
+          const userId = useAuthStore.getState().activeUserId;
+          stopHeartbeats();
+          if (!userId) return;
+
+          if (appState === 'active') {
+            heartbeatTimer = setInterval(() => sendHeartbeat(userId, 'online'), HEARTBEAT_INTERVAL_MS);
+            await sendHeartbeat(userId, 'online');
+          } else {
+            await sendHeartbeat(userId, 'away');
+          }
+        },
+
+        goOffline: async (userId) => {
+          if (userId === useAuthStore.getState().activeUserId) {
+            stopHeartbeats();
+          }
+
+          try {
+            await presenceApi.goOffline(userId);
+          } catch (error) {
+            console.error('Error going offline:', error);
+          }
+          set(state => ({
+            presence: {
+              ...state.presence,
+              [userId]: { userId, status: 'offline', lastActive: state.presence[userId]?.lastActive ?? null }
+            }
+          }));
+        }
+      };
+    },
+    {
+      name: 'snookiq-presence',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Other users' presence is reloaded rather than restored
+      partialize: (state) => ({ hidden: state.hidden }),
+    }
+  )
+);
+
+AppState.addEventListener('change', appState => {
+  usePresenceStore.getState().reportActivity(appState);
+});
+
+// Sent while requests still carry the outgoing account's access token
+onActiveAccountLeaving(userId => usePresenceStore.getState().goOffline(userId));
+
+// Restarts the heartbeats for the new user, or leaves them stopped after signing out
+useAuthStore.subscribe((state, previous) => {
+  if (state.activeUserId !== previous.activeUserId) {
+    usePresenceStore.getState().reportActivity(AppState.currentState);
+  }
+});
\ No newline at end of file
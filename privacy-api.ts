@@ -0,0 +1,70 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import api from '@/api';
+import config from '@/constants/config';
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from '@/utils/profile-privacy';
+
+/**
+ * Backend used by usePrivacyStore
+ *
+ * Only the signed-in user's own settings can be read; the REST API applies
+ * other users' settings itself when serving their profiles.
+ */
+export interface PrivacyApi {
+  getSettings: (userId: string) => Promise<PrivacySettings>;
+  updateSettings: (userId: string, settings: PrivacySettings) => Promise<PrivacySettings>;
+}
+
+const STORAGE_KEY = 'snookiq-mock-privacy';
+
+let stored: Record<string, PrivacySettings> | null = null;
+
+const load = async (): Promise<Record<string, PrivacySettings>> => {
+  if (!stored) {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) as Record<string, PrivacySettings> : {};
+  }
+  return stored;
+};
+
+// Settings saved before a section existed get that section's default
+const withDefaults = (settings: Partial<PrivacySettings> | undefined): PrivacySettings => ({
+  ...DEFAULT_PRIVACY_SETTINGS,
+  ...settings,
+  sections: { ...DEFAULT_PRIVACY_SETTINGS.sections, ...settings?.sections },
+});
+
+/**
+ * Settings kept in AsyncStorage; the mock profile API reads them too
+ */
+export const mockPrivacyApi: PrivacyApi = {
+  getSettings: async (userId) => withDefaults((await load())[userId]),
+
+  updateSettings: async (userId, settings) => {
+    const saved = withDefaults(settings);
+    stored = { ...(await load()), [userId]: saved };
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    return saved;
+  },
+};
+
+/**
+ * Settings through the REST API
+ *
+ * Endpoints:
+ * - GET /users/me/privacy - Your privacy settings
+ * - PUT /users/me/privacy - Replace your privacy settings { profile, sections, location }
+ */
+const httpPrivacyApi: PrivacyApi = {
+  getSettings: async () => {
+    const response = await api.get('/users/me/privacy');
+    return withDefaults(response.data as Partial<PrivacySettings>);
+  },
+
+  updateSettings: async (_userId, settings) => {
+    const response = await api.put('/users/me/privacy', settings);
+    return withDefaults(response.data as Partial<PrivacySettings>);
+  },
+};
+
+export const getPrivacyApi = (): PrivacyApi =>
+  config.profileData === 'http' ? httpPrivacyApi : mockPrivacyApi;
\ No newline at end of file
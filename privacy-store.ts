@@ -0,0 +1,80 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { requireCurrentUserId } from '@/store/auth-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { getPrivacyApi } from '@/services/privacy-api';
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySettings } from '@/utils/profile-privacy';
+
+interface PrivacyState {
+  // Settings of each signed-in user
+  settings: Record<string, PrivacySettings>;
+  isSaving: boolean;
+  error: string | null;
+  getSettings: (userId: string) => PrivacySettings;
+  fetchSettings: () => Promise<void>;
+  updateSettings: (update: Partial<PrivacySettings>) => Promise<void>;
+}
+
+const privacyApi = getPrivacyApi();
+
+/**
+ * Privacy store using Zustand
+ *
+ * Holds the signed-in user's own privacy settings. The settings are applied
+ * when profiles are read (see services/profile-api), not here.
+ *
+ * Required API endpoints: see services/privacy-api
+ */
+export const usePrivacyStore = create<PrivacyState>()(
+  persist(
+    (set, get) => ({
+      settings: {},
+      isSaving: false,
+      error: null,
+
+      getSettings: (userId) => get().settings[userId] ?? DEFAULT_PRIVACY_SETTINGS,
+
+      fetchSettings: async () => {
+        const userId = requireCurrentUserId();
+
+        try {
+          const settings = await privacyApi.getSettings(userId);
+          set(state => ({ settings: { ...state.settings, [userId]: settings }, error: null }));
+        } catch (error) {
+          console.error('Error loading privacy settings:', error);
+          set({ error: error instanceof Error ? error.message : 'Failed to load privacy settings' });
+        }
+      },
+
+      updateSettings: async (update) => {
+        const userId = requireCurrentUserId();
+        const current = get().getSettings(userId);
+        const next: PrivacySettings = {
+          ...current,
+          ...update,
+          sections: { ...current.sections, ...update.sections }
+        };
+
+        set({ isSaving: true, error: null });
+        try {
+          const saved = await privacyApi.updateSettings(userId, next);
+          set(state => ({ settings: { ...state.settings, [userId]: saved }, isSaving: false }));
+          // Profiles loaded on this device were restricted under the old settings
+          useProfileDataStore.getState().invalidate(userId);
+        } catch (error) {
+          set({
+            isSaving: false,
+            error: error instanceof Error ? error.message : 'Failed to save privacy settings'
+          });
+          throw error;
+        }
+      }
+    }),
+    {
+      name: 'snookiq-privacy',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ settings: state.settings }),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,209 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { usePrivacyStore } from '@/store/privacy-store';
+import { Audience, LocationDetail, PRIVACY_SECTIONS, PrivacySection, PrivacySettings } from '@/utils/profile-privacy';
+import colors from '@/constants/colors';
+
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  everyone: 'Everyone',
+  connections: 'Connections',
+  nobody: 'Only me',
+};
+
+const SECTION_LABELS: Record<PrivacySection, string> = {
+  stats: 'Stats',
+  abilities: 'Abilities',
+  clubs: 'Clubs',
+  recommendations: 'Recommendations',
+  skills: 'Skills & strategies',
+};
+
+const LOCATION_LABELS: Record<LocationDetail, string> = {
+  exact: 'Exact',
+  city: 'City only',
+};
+
+const OptionPicker = <T extends string>({ labels, value, disabled, onChange }: {
+  labels: Record<T, string>;
+  value: T;
+  disabled?: boolean;
+  onChange: (value: T) => void;
+}) => (
+  <View style={styles.options}>
+    {(Object.keys(labels) as T[]).map(option => (
+      <TouchableOpacity
+        key={option}
+        style={[styles.option, option === value && styles.optionSelected, disabled && styles.optionDisabled]}
+        onPress={() => onChange(option)}
+        disabled={disabled}
+      >
+        <Text style={styles.optionText}>{labels[option]}</Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+export default function PrivacyScreen() {
+  const { activeUserId } = useAuthStore();
+  const privacyStore = usePrivacyStore();
+  const settings = activeUserId ? privacyStore.getSettings(activeUserId) : null;
+
+  useEffect(() => {
+    if (activeUserId) {
+      privacyStore.fetchSettings();
+    }
+  }, [activeUserId]);
+
+  const save = async (update: Partial<PrivacySettings>) => {
+    try {
+      await privacyStore.updateSettings(update);
+    } catch (error) {
+      console.error('Error updating privacy settings:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save privacy settings');
+    }
+  };
+
+  if (!settings) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Privacy' }} />
+        <View style={styles.centered}>
+          <Text style={styles.hintText}>You need to be logged in</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  // Sections can't be shown to more people than the profile itself
+  const isProfileHidden = settings.profile === 'nobody';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Privacy',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {privacyStore.error && <Text style={styles.errorText}>{privacyStore.error}</Text>}
+
+        <Text style={styles.sectionTitle}>Who can see your profile</Text>
+        <OptionPicker
+          labels={AUDIENCE_LABELS}
+          value={settings.profile}
+          disabled={privacyStore.isSaving}
+          onChange={profile => save({ profile })}
+        />
+        <Text style={styles.hintText}>
+          Players who can't see your profile only see your name and photo. Players you block can't find you.
+        </Text>
+
+        <Text style={styles.sectionTitle}>Sections</Text>
+        {PRIVACY_SECTIONS.map(section => (
+          <View key={section} style={styles.row}>
+            <Text style={styles.rowLabel}>{SECTION_LABELS[section]}</Text>
+            <OptionPicker
+              labels={AUDIENCE_LABELS}
+              value={settings.sections[section]}
+              disabled={privacyStore.isSaving || isProfileHidden}
+              onChange={audience => save({ sections: { ...settings.sections, [section]: audience } })}
+            />
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Location</Text>
+        <OptionPicker
+          labels={LOCATION_LABELS}
+          value={settings.location}
+          disabled={privacyStore.isSaving}
+          onChange={location => save({ location })}
+        />
+        <Text style={styles.hintText}>City only shows other players just your city and country.</Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  row: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionDisabled: {
+    opacity: 0.5,
+  },
+  optionText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  hintText: {
+    marginTop: 4,
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    marginBottom: 8,
+  },
+});
\ No newline at end of file
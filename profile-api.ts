@@ -0,0 +1,155 @@
+import { User, Ability, Club, Recommendation, Skill } from '@/types';
+import api from '@/api';
+import config from '@/constants/config';
+import { mockProfiles } from '@/mocks/profiles';
+import { mockUserRegistry } from '@/services/user-registry';
+import { getRecommendationApi } from '@/services/recommendation-api';
+import { mockPrivacyApi } from '@/services/privacy-api';
+import { useClubStore } from '@/store/club-store';
+import { useConnectionStore } from '@/store/connection-store';
+import { StrategyArticle, useStrategyStore } from '@/store/strategy-store';
+import { PrivacySection, ProfileAccess, ViewerRelation, resolveAccess, restrictUser } from '@/utils/profile-privacy';
+
+export interface ProfileSections {
+  user: User;
+  // What the viewer may see of the rest
+  access: ProfileAccess;
+  abilities: Ability[];
+  clubs: Club[];
+  recommendations: Recommendation[];
+  skills: Skill[];
+  strategies: StrategyArticle[];
+}
+
+export type ProfileSection = keyof ProfileSections;
+
+type ListSection = Exclude<ProfileSection, 'user' | 'access'>;
+
+// What each list section comes back as when it is hidden from the viewer
+const HIDDEN_SECTIONS: { [S in ListSection]: ProfileSections[S] } = {
+  abilities: [],
+  clubs: [],
+  recommendations: [],
+  skills: [],
+  strategies: [],
+};
+
+// The privacy setting each list section falls under; strategies are shown with skills
+const SECTION_PRIVACY: { [S in ListSection]: PrivacySection } = {
+  abilities: 'abilities',
+  clubs: 'clubs',
+  recommendations: 'recommendations',
+  skills: 'skills',
+  strategies: 'skills',
+};
+
+// The mock server reads connections and blocks from this device's connection store
+const mockRelation = (userId: string, viewerId: string | null): ViewerRelation | null => {
+  if (viewerId === userId) return 'self';
+  if (!viewerId) return 'other';
+  
+  switch (useConnectionStore.getState().getView(viewerId, userId)) {
+    case 'blocked-by-them':
+      // Players who blocked the viewer don't exist for them
+      return null;
+    case 'blocked':
+      return 'blocked';
+    case 'connected':
+      return 'connection';
+    default:
+      return 'other';
+  }
+};
+
+// A player as the viewer may see them, and which of their sections that includes
+export interface ListedPlayer {
+  user: User;
+  access: ProfileAccess;
+}
+
+/**
+ * A player for the mock server's player listings (leaderboards, opponent
+ * suggestions), or null when the viewer may not see their profile
+ *
+ * Listings must leave out what `access` hides beyond the user record:
+ * ratings without `sections.stats`, club memberships without `sections.clubs`.
+ */
+export const listMockPlayer = async (user: User, viewerId: string | null): Promise<ListedPlayer | null> => {
+  const relation = mockRelation(user.id, viewerId);
+  if (!relation) return null;
+  
+  const access = resolveAccess(await mockPrivacyApi.getSettings(user.id), relation);
+  return access.profile ? { user: restrictUser(user, access, relation), access } : null;
+};
+
+const fetchMockSection = async <S extends ProfileSection>(
+  userId: string,
+  section: S,
+  viewerId: string | null
+): Promise<ProfileSections[S]> => {
+  const account = await mockUserRegistry.findById(userId);
+  const relation = mockRelation(userId, viewerId);
+  if (!account || !relation) {
+    throw new Error('User not found');
+  }
+  
+  const access = resolveAccess(await mockPrivacyApi.getSettings(userId), relation);
+  
+  if (section === 'user') {
+    return restrictUser(account.user, access, relation) as ProfileSections[S];
+  }
+  if (section === 'access') {
+    return access as ProfileSections[S];
+  }
+  
+  const listSection = section as ListSection;
+  if (!access.sections[SECTION_PRIVACY[listSection]]) {
+    return HIDDEN_SECTIONS[listSection] as ProfileSections[S];
+  }
+  if (listSection === 'clubs') {
+    // Memberships are kept by this device's club store, which stands in for the clubs backend
+    return useClubStore.getState().getUserClubs(userId) as ProfileSections[S];
+  }
+  if (listSection === 'recommendations') {
+    // Likes and reports are kept per viewer by the mock recommendation backend
+    return (await getRecommendationApi().list(userId, viewerId)) as ProfileSections[S];
+  }
+  if (listSection === 'strategies') {
+    // Articles are kept by this device's strategy store; drafts only reach their author
+    return useStrategyStore.getState().getByAuthor(userId) as ProfileSections[S];
+  }
+  
+  const profile = mockProfiles[userId];
+  return (profile ? profile[listSection] : []) as ProfileSections[S];
+};
+
+/**
+ * Loads one section of a user's profile
+ *
+ * `viewerId` is the signed-in user the section is loaded for; the REST API
+ * knows it from the access token. Every section comes back already
+ * restricted to what the viewer may see (see utils/profile-privacy): hidden
+ * list sections are empty and `access` says which ones they are.
+ *
+ * Endpoints:
+ * - GET /users/:id - Public user info
+ * - GET /users/:id/access - What the viewer may see
+ * - GET /users/:id/abilities
+ * - GET /users/:id/clubs
+ * - GET /users/:id/recommendations
+ * - GET /users/:id/skills
+ * - GET /users/:id/strategies
+ */
+export const fetchProfileSection = async <S extends ProfileSection>(
+  userId: string,
+  section: S,
+  viewerId: string | null = null
+): Promise<ProfileSections[S]> => {
+  if (config.profileData === 'mock') {
+    return fetchMockSection(userId, section, viewerId);
+  }
+  
+  const path = section === 'user' ? `/users/${userId}` : `/users/${userId}/${section}`;
+  const response = await api.get(path);
+  return response.data as ProfileSections[S];
+};
\ No newline at end of file
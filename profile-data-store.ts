@@ -0,0 +1,150 @@
+import { useEffect } from 'react';
+import { create } from 'zustand';
+import { ProfileSection, ProfileSections, fetchProfileSection } from '@/services/profile-api';
+import { useAuthStore } from '@/store/auth-store';
+
+export interface SectionEntry<T> {
+  data: T | null;
+  // Epoch milliseconds of the last successful fetch
+  fetchedAt: number | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Entries keyed by section, then by user id
+type ProfileCache = { [S in ProfileSection]: Record<string, SectionEntry<ProfileSections[S]>> };
+
+interface ProfileDataState {
+  cache: ProfileCache;
+  getSection: <S extends ProfileSection>(userId: string, section: S) => SectionEntry<ProfileSections[S]>;
+  fetchSection: <S extends ProfileSection>(userId: string, section: S, options?: { force?: boolean }) => Promise<void>;
+  setSectionData: <S extends ProfileSection>(userId: string, section: S, data: ProfileSections[S]) => void;
+  invalidate: (userId: string, section?: ProfileSection) => void;
+}
+
+// Cached sections older than this are refetched in the background
+export const STALE_AFTER_MS = 5 * 60 * 1000;
+
+const EMPTY_ENTRY: SectionEntry<never> = { data: null, fetchedAt: null, isLoading: false, error: null };
+
+const EMPTY_CACHE: ProfileCache = { user: {}, access: {}, abilities: {}, clubs: {}, recommendations: {}, skills: {}, strategies: {} };
+
+// Requests in flight, keyed by `${viewerId}:${userId}:${section}`, so duplicate fetches share one
+const inFlight = new Map<string, Promise<void>>();
+
+const isStale = (entry: SectionEntry<unknown>) =>
+  !entry.fetchedAt || Date.now() - entry.fetchedAt > STALE_AFTER_MS;
+
+/**
+ * Profile data store using Zustand
+ * 
+ * Caches each section of a user's profile (user, access, abilities, clubs,
+ * recommendations, skills, strategies) separately, with its own loading and
+ * error state. Reads are stale-while-revalidate: cached data is returned at
+ * once and refetched in the background when older than STALE_AFTER_MS.
+ * Components should use `useProfileSection` rather than the store directly.
+ * 
+ * Sections are fetched as the active account; responses that arrive after
+ * switching accounts are dropped.
+ */
+export const useProfileDataStore = create<ProfileDataState>()((set, get) => {
+  const updateEntry = <S extends ProfileSection>(
+    userId: string,
+    section: S,
+    update: Partial<SectionEntry<ProfileSections[S]>>
+  ) => {
+    set(state => ({
+      cache: {
+        ...state.cache,
+        [section]: {
+          ...state.cache[section],
+          [userId]: { ...EMPTY_ENTRY, ...state.cache[section][userId], ...update }
+        }
+      }
+    }));
+  };
+  
+  return {
+    cache: EMPTY_CACHE,
+    
+    getSection: (userId, section) => get().cache[section][userId] ?? EMPTY_ENTRY,
+    
+    fetchSection: async (userId, section, options = {}) => {
+      const viewerId = useAuthStore.getState().activeUserId;
+      const key = `${viewerId}:${userId}:${section}`;
+      const entry = get().getSection(userId, section);
+      
+      if (inFlight.has(key)) {
+        return inFlight.get(key);
+      }
+      if (!options.force && !isStale(entry)) {
+        return;
+      }
+      
+      const request = (async () => {
+        // Keep showing cached data while revalidating
+        updateEntry(userId, section, { isLoading: true, error: null });
+        
+        try {
+          const data = await fetchProfileSection(userId, section, viewerId);
+          // Restricted for an account that is no longer active
+          if (useAuthStore.getState().activeUserId !== viewerId) return;
+          updateEntry(userId, section, { data, fetchedAt: Date.now(), isLoading: false });
+        } catch (error) {
+          if (useAuthStore.getState().activeUserId !== viewerId) return;
+          console.error(`Error fetching ${section} for user ${userId}:`, error);
+          updateEntry(userId, section, {
+            isLoading: false,
+            error: error instanceof Error ? error.message : `Failed to load ${section}`
+          });
+        } finally {
+          inFlight.delete(key);
+        }
+      })();
+      
+      inFlight.set(key, request);
+      return request;
+    },
+    
+    setSectionData: (userId, section, data) => {
+      updateEntry(userId, section, { data, fetchedAt: Date.now(), error: null });
+    },
+    
+    invalidate: (userId, section) => {
+      const sections = section ? [section] : (Object.keys(EMPTY_CACHE) as ProfileSection[]);
+      sections.forEach(key => {
+        if (get().cache[key][userId]) {
+          updateEntry(userId, key, { fetchedAt: null });
+        }
+      });
+    }
+  };
+});
+
+// Sections are restricted per viewer, so another account starts with an empty cache
+useAuthStore.subscribe((state, previous) => {
+  if (state.activeUserId !== previous.activeUserId) {
+    useProfileDataStore.setState({ cache: EMPTY_CACHE });
+  }
+});
+
+/**
+ * Returns a cached profile section and revalidates it when stale
+ */
+export const useProfileSection = <S extends ProfileSection>(userId: string | undefined, section: S) => {
+  const entry = useProfileDataStore(state =>
+    userId ? state.getSection(userId, section) : EMPTY_ENTRY
+  );
+  const fetchSection = useProfileDataStore(state => state.fetchSection);
+  
+  useEffect(() => {
+    if (userId) {
+      fetchSection(userId, section);
+    }
+  }, [userId, section, entry.fetchedAt]);
+  
+  return {
+    ...entry,
+    refetch: () => (userId ? fetchSection(userId, section, { force: true }) : Promise.resolve()),
+  };
+};
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { User } from '@/types';
+
+// Who can see a profile or one of its sections
+export type Audience = 'everyone' | 'connections' | 'nobody';
+
+export type PrivacySection = 'stats' | 'abilities' | 'clubs' | 'recommendations' | 'skills';
+
+// City-level drops anything more precise than "City, Country"
+export type LocationDetail = 'exact' | 'city';
+
+export interface PrivacySettings {
+  profile: Audience;
+  sections: Record<PrivacySection, Audience>;
+  location: LocationDetail;
+}
+
+// How the viewer relates to the profile's owner
+export type ViewerRelation = 'self' | 'connection' | 'other' | 'blocked';
+
+/**
+ * What a viewer may see of a profile
+ *
+ * `restriction` says why the profile itself is hidden, for the screen to
+ * explain; sections can be hidden while the profile is visible.
+ */
+export interface ProfileAccess {
+  profile: boolean;
+  sections: Record<PrivacySection, boolean>;
+  location: LocationDetail;
+  restriction: 'blocked' | 'connections-only' | 'private' | null;
+}
+
+export const PRIVACY_SECTIONS: PrivacySection[] = ['stats', 'abilities', 'clubs', 'recommendations', 'skills'];
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  profile: 'everyone',
+  sections: {
+    stats: 'everyone',
+    abilities: 'everyone',
+    clubs: 'everyone',
+    recommendations: 'everyone',
+    skills: 'everyone',
+  },
+  location: 'exact',
+};
+
+const EMPTY_STATS: User['stats'] = {
+  winRate: 0,
+  highestBreak: 0,
+  averageBreak: 0,
+  potSuccessRate: 0,
+  gamesPlayed: 0,
+  totalPoints: 0,
+  skillLevel: 1,
+};
+
+const allows = (audience: Audience, relation: ViewerRelation) =>
+  relation === 'self' ||
+  (relation !== 'blocked' && (audience === 'everyone' || (audience === 'connections' && relation === 'connection')));
+
+// "Camden, London, UK" -> "London, UK"
+export const cityLevelLocation = (location: string) => {
+  const parts = location.split(',').map(part => part.trim()).filter(Boolean);
+  return parts.slice(-2).join(', ');
+};
+
+/**
+ * Applies a user's privacy settings for one viewer
+ *
+ * Every profile read goes through this (see services/profile-api), so the
+ * rules only live here. Users always see all of their own profile.
+ */
+export const resolveAccess = (settings: PrivacySettings, relation: ViewerRelation): ProfileAccess => {
+  const profile = allows(settings.profile, relation);
+
+  return {
+    profile,
+    sections: Object.fromEntries(
+      PRIVACY_SECTIONS.map(section => [section, profile && allows(settings.sections[section], relation)])
+    ) as Record<PrivacySection, boolean>,
+    location: relation === 'self' ? 'exact' : settings.location,
+    restriction: profile
+      ? null
+      : relation === 'blocked'
+        ? 'blocked'
+        : settings.profile === 'connections'
+          ? 'connections-only'
+          : 'private',
+  };
+};
+
+/**
+ * The parts of a user record a viewer with `access` may see
+ *
+ * Emails are only ever shown to their owner. Hidden fields are emptied
+ * rather than removed so the record keeps its shape.
+ */
+export const restrictUser = (user: User, access: ProfileAccess, relation: ViewerRelation): User => {
+  const visible = relation === 'self' ? user : { ...user, email: '' };
+
+  if (!access.profile) {
+    return {
+      ...visible,
+      bio: '',
+      location: '',
+      stats: EMPTY_STATS,
+      connections: [],
+    };
+  }
+
+  return {
+    ...visible,
+    location: access.location === 'city' ? cityLevelLocation(user.location) : user.location,
+    stats: access.sections.stats ? user.stats : EMPTY_STATS,
+  };
+};
\ No newline at end of file
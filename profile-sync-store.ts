@@ -0,0 +1,370 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { isAxiosError } from 'axios';
+import { User } from '@/types';
+import { getAuthProvider } from '@/services/auth-provider';
+import { AuthError, AuthErrors, toAuthErrors } from '@/services/auth-errors';
+
+export type ProfileMutation =
+  // `base` holds the values the edited fields had when the edit was made
+  | { kind: 'patch'; data: Partial<User>; base: Partial<User> }
+  | { kind: 'avatar'; uri: string; previousUri: string }
+  | { kind: 'connection-add'; targetUserId: string }
+  | { kind: 'connection-remove'; targetUserId: string };
+
+export interface QueuedMutation {
+  id: string;
+  userId: string;
+  mutation: ProfileMutation;
+  createdAt: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  lastError: string | null;
+  // Per-field reasons when the server rejected a patch
+  fieldErrors: AuthErrors;
+}
+
+export type SyncStatus = 'idle' | 'pending' | 'syncing' | 'failed';
+
+// How the outbox reaches the signed-in account (installed by useAuthStore)
+interface ProfileSyncAccount {
+  // The active account's user and access token, or null when signed out
+  getActiveSession: () => { user: User; accessToken: string } | null;
+  // Replaces the signed-in user with a newer copy
+  syncUser: (user: User) => void;
+}
+
+interface ProfileSyncState {
+  queue: QueuedMutation[];
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Returns the id of the queued entry
+  enqueue: (userId: string, mutation: ProfileMutation) => string;
+  flush: () => Promise<void>;
+  // Syncs the given entries and returns the field errors of those the server rejected
+  flushEntries: (ids: string[]) => Promise<AuthErrors>;
+  retryFailed: (userId: string) => Promise<void>;
+  discardFailed: (userId: string) => void;
+  setOnline: (isOnline: boolean) => void;
+  getSyncStatus: (userId: string | undefined) => SyncStatus;
+  getLastSyncError: (userId: string | undefined) => string | null;
+}
+
+// Transient failures after which a mutation is marked failed instead of retried
+const MAX_ATTEMPTS = 5;
+// Wait before retrying after a transient failure; doubles with every attempt
+const RETRY_BASE_DELAY_MS = 2 * 1000;
+
+const authProvider = getAuthProvider();
+
+let account: ProfileSyncAccount | null = null;
+let flushInFlight: Promise<void> | null = null;
+// The account whose first pending entry is waiting out its backoff
+let backoff: { userId: string; timer: ReturnType<typeof setTimeout> } | null = null;
+
+const scheduleRetry = (userId: string, attempts: number) => {
+  if (backoff) {
+    clearTimeout(backoff.timer);
+  }
+  backoff = {
+    userId,
+    timer: setTimeout(() => {
+      backoff = null;
+      useProfileSyncStore.getState().flush();
+    }, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)),
+  };
+};
+
+const isEqualValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const copyField = <K extends keyof User>(target: Partial<User>, source: Partial<User>, key: K) => {
+  target[key] = source[key];
+};
+
+// The given fields of a user, e.g. their values before an edit
+export const pickFields = (user: User, keys: (keyof User)[]): Partial<User> => {
+  const picked: Partial<User> = {};
+  keys.forEach(key => copyField(picked, user, key));
+  return picked;
+};
+
+/**
+ * Drops fields from a queued patch that were changed on the server since the
+ * edit was made, so a stale offline edit never overwrites newer server data
+ */
+export const resolvePatchConflicts = (
+  { data, base }: { data: Partial<User>; base: Partial<User> },
+  serverUser: User
+): Partial<User> => {
+  const resolved: Partial<User> = {};
+  (Object.keys(data) as (keyof User)[]).forEach(key => {
+    if (isEqualValue(serverUser[key], base[key])) {
+      copyField(resolved, data, key);
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Applies pending (not yet synced) mutations on top of a user
+ *
+ * Used to keep local edits visible when a fresher server copy arrives.
+ * Failed mutations have been rolled back and are not applied.
+ */
+export const applyQueuedMutations = (user: User, queue: QueuedMutation[]): User =>
+  queue
+    .filter(entry => entry.userId === user.id && entry.status === 'pending')
+    .reduce((result, { mutation }) => {
+      switch (mutation.kind) {
+        case 'patch':
+          return { ...result, ...mutation.data };
+        case 'avatar':
+          return { ...result, avatar: mutation.uri };
+        case 'connection-add':
+          return {
+            ...result,
+            connections: [...result.connections.filter(id => id !== mutation.targetUserId), mutation.targetUserId]
+          };
+        case 'connection-remove':
+          return { ...result, connections: result.connections.filter(id => id !== mutation.targetUserId) };
+      }
+    }, user);
+
+/**
+ * Undoes a mutation that was applied optimistically
+ *
+ * Fields edited again since are left alone.
+ */
+export const revertMutation = (user: User, mutation: ProfileMutation): User => {
+  switch (mutation.kind) {
+    case 'patch': {
+      const reverted = { ...user };
+      (Object.keys(mutation.data) as (keyof User)[]).forEach(key => {
+        if (isEqualValue(user[key], mutation.data[key])) {
+          copyField(reverted, mutation.base, key);
+        }
+      });
+      return reverted;
+    }
+    case 'avatar':
+      return user.avatar === mutation.uri ? { ...user, avatar: mutation.previousUri } : user;
+    case 'connection-add':
+      return { ...user, connections: user.connections.filter(id => id !== mutation.targetUserId) };
+    case 'connection-remove':
+      return user.connections.includes(mutation.targetUserId)
+        ? user
+        : { ...user, connections: [...user.connections, mutation.targetUserId] };
+  }
+};
+
+// Sends one mutation and resolves with the server's copy of the user afterwards
+const replay = async ({ mutation }: QueuedMutation, accessToken: string): Promise<User> => {
+  switch (mutation.kind) {
+    case 'patch': {
+      const serverUser = await authProvider.getCurrentUser(accessToken);
+      const data = resolvePatchConflicts(mutation, serverUser);
+      return Object.keys(data).length > 0 ? authProvider.updateProfile(data) : serverUser;
+    }
+    case 'avatar':
+      await authProvider.uploadAvatar(mutation.uri);
+      return authProvider.getCurrentUser(accessToken);
+    case 'connection-add':
+      return authProvider.addConnection(mutation.targetUserId);
+    case 'connection-remove':
+      return authProvider.removeConnection(mutation.targetUserId);
+  }
+};
+
+// Worth retrying later: no response at all (offline, timeout) or a server error
+const isTransientError = (error: unknown) =>
+  !(error instanceof AuthError) &&
+  isAxiosError(error) &&
+  (!error.response || error.response.status >= 500);
+
+/**
+ * Lets the outbox read and update the signed-in account without importing
+ * useAuthStore, which queues its changes here
+ */
+export const connectProfileSync = (syncAccount: ProfileSyncAccount) => {
+  account = syncAccount;
+};
+
+/**
+ * Outbox for profile changes made by the signed-in user
+ *
+ * useAuthStore applies profile edits, avatar uploads and connection changes
+ * locally straight away and queues them here. The queue is replayed in order
+ * whenever the device is online (and again when connectivity returns), for
+ * the active account only since replays use its access token. Transient
+ * failures are retried with exponential backoff, up to MAX_ATTEMPTS times. Conflicting
+ * field edits resolve in favour of the server copy (see resolvePatchConflicts).
+ * Mutations the server rejects are rolled back locally and kept as `failed`,
+ * with the server's reason in `lastError`, until retried or discarded.
+ */
+export const useProfileSyncStore = create<ProfileSyncState>()(
+  persist(
+    (set, get) => ({
+      queue: [],
+      isOnline: true,
+      isSyncing: false,
+      
+      enqueue: (userId, mutation) => {
+        const entry: QueuedMutation = {
+          id: `${Date.now()}-${Math.random().toString(36).substring(2)}`,
+          userId,
+          mutation,
+          createdAt: new Date().toISOString(),
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          fieldErrors: {}
+        };
+        
+        set(state => ({ queue: [...state.queue, entry] }));
+        get().flush();
+        return entry.id;
+      },
+      
+      flush: () => {
+        if (flushInFlight) {
+          return flushInFlight;
+        }
+        
+        flushInFlight = (async () => {
+          const activeUserId = account?.getActiveSession()?.user.id;
+          if (!account || !activeUserId || !get().isOnline) return;
+          // Changes queued meanwhile wait behind the entry that is backing off
+          if (backoff?.userId === activeUserId) return;
+          const { getActiveSession, syncUser } = account;
+          
+          set({ isSyncing: true });
+          
+          try {
+            const pending = get().queue.filter(entry => entry.userId === activeUserId && entry.status === 'pending');
+            
+            for (const entry of pending) {
+              const session = getActiveSession();
+              // The account was switched or signed out mid-flush
+              if (!session || session.user.id !== activeUserId) break;
+              
+              try {
+                const serverUser = await replay(entry, session.accessToken);
+                
+                set(state => ({ queue: state.queue.filter(other => other.id !== entry.id) }));
+                syncUser(applyQueuedMutations(serverUser, get().queue));
+              } catch (error) {
+                const attempts = entry.attempts + 1;
+                const retry = isTransientError(error) && attempts < MAX_ATTEMPTS;
+                
+                set(state => ({
+                  queue: state.queue.map(other => other.id === entry.id
+                    ? {
+                        ...other,
+                        attempts,
+                        status: retry ? 'pending' : 'failed',
+                        lastError: error instanceof Error ? error.message : 'Failed to sync change',
+                        fieldErrors: retry ? {} : toAuthErrors(error, 'Failed to sync change')
+                      }
+                    : other
+                  )
+                }));
+                
+                // Keep the order: later changes wait until this one goes through
+                if (retry) {
+                  scheduleRetry(activeUserId, attempts);
+                  break;
+                }
+                
+                // Rejected for good: take the optimistic change back out of the local copy
+                const user = getActiveSession()?.user;
+                if (user?.id === entry.userId) {
+                  syncUser(revertMutation(user, entry.mutation));
+                }
+              }
+            }
+          } finally {
+            set({ isSyncing: false });
+            flushInFlight = null;
+          }
+        })();
+        
+        return flushInFlight;
+      },
+      
+      flushEntries: async (ids) => {
+        const tracked = () => get().queue.filter(entry => ids.includes(entry.id));
+        
+        // A flush already under way took its list of entries before these were queued
+        if (flushInFlight) {
+          await flushInFlight;
+        }
+        if (tracked().some(entry => entry.status === 'pending')) {
+          await get().flush();
+        }
+        
+        // Entries still pending are offline or waiting to retry, and sync later
+        const errors: AuthErrors = {};
+        tracked()
+          .filter(entry => entry.status === 'failed')
+          .forEach(entry => Object.assign(errors, entry.fieldErrors));
+        return errors;
+      },
+      
+      retryFailed: async (userId) => {
+        set(state => ({
+          queue: state.queue.map(entry => entry.userId === userId && entry.status === 'failed'
+            ? { ...entry, status: 'pending', attempts: 0, lastError: null, fieldErrors: {} }
+            : entry
+          )
+        }));
+        
+        // Re-apply the changes that were rolled back when they failed
+        const user = account?.getActiveSession()?.user;
+        if (user?.id === userId) {
+          account?.syncUser(applyQueuedMutations(user, get().queue));
+        }
+        
+        await get().flush();
+      },
+      
+      discardFailed: (userId) => {
+        set(state => ({
+          queue: state.queue.filter(entry => !(entry.userId === userId && entry.status === 'failed'))
+        }));
+      },
+      
+      setOnline: (isOnline) => {
+        const cameOnline = isOnline && !get().isOnline;
+        set({ isOnline });
+        
+        if (cameOnline) {
+          get().flush();
+        }
+      },
+      
+      getSyncStatus: (userId) => {
+        const entries = get().queue.filter(entry => entry.userId === userId);
+        
+        if (entries.some(entry => entry.status === 'failed')) return 'failed';
+        if (entries.length === 0) return 'idle';
+        return get().isSyncing ? 'syncing' : 'pending';
+      },
+      
+      getLastSyncError: (userId) => {
+        const failed = get().queue.filter(entry => entry.userId === userId && entry.status === 'failed');
+        return failed.length > 0 ? failed[failed.length - 1].lastError : null;
+      }
+    }),
+    {
+      name: 'snookiq-profile-sync',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ queue: state.queue }),
+    }
+  )
+);
+
+NetInfo.addEventListener(state => {
+  useProfileSyncStore.getState().setOnline(Boolean(state.isConnected) && state.isInternetReachable !== false);
+});
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import { 
   View, 
   Text, 
@@ -15,228 +15,165 @@ import { AbilityRadarChart } from '@/components/profile/AbilityRadarChart';
 import { ClubInformation } from '@/components/profile/ClubInformation';
 import { PlayerRecommendations } from '@/components/profile/PlayerRecommendations';
 import { SkillsSection } from '@/components/profile/SkillsSection';
+import { ProfileSectionState } from '@/components/profile/ProfileSectionState';
 import { useAuthStore } from '@/store/auth-store';
+import { useProfileSyncStore } from '@/store/profile-sync-store';
+import { useConnectionStore, ConnectionView } from '@/store/connection-store';
+import { useAbilityStore } from '@/store/ability-store';
+import { useSkillStore } from '@/store/skill-store';
+import { useRecommendationStore, getAverageRating } from '@/store/recommendation-store';
 import { useMatchStore } from '@/store/match-store';
+import { useMatchResultStore } from '@/store/match-result-store';
+import { useRatingStore } from '@/store/rating-store';
+import { useMatchScheduleStore } from '@/store/match-schedule-store';
+import { usePresenceStore, formatPresence } from '@/store/presence-store';
 import { useChatStore } from '@/store/chat-store';
-import { users } from '@/mocks/users';
+import { getOrCreateDirectChat } from '@/store/chat-threads';
+import { useProfileDataStore, useProfileSection } from '@/store/profile-data-store';
+import { PrivacySection, ProfileAccess } from '@/utils/profile-privacy';
+import { deepLinkHref } from '@/utils/deep-links';
 import colors from '@/constants/colors';
-import { User, Skill, Strategy, Ability, Club, Recommendation } from '@/types';
-import api from '@/api';
 
-// Mock data for new components
-const mockAbilities: Ability[] = [
-  { name: 'Potting', value: 8 },
-  { name: 'Positioning', value: 7 },
-  { name: 'Safety Play', value: 9 },
-  { name: 'Break Building', value: 6 },
-  { name: 'Concentration', value: 8 },
-  { name: 'Tactical Play', value: 7 },
-];
+// Text of the profile's Connect button for each connection state
+const CONNECTION_LABELS: Record<ConnectionView, string> = {
+  'none': 'Connect',
+  'request-sent': 'Request sent',
+  'request-received': 'Accept',
+  'connected': 'Connected',
+  'declined': 'Connect',
+  'blocked': 'Blocked',
+  'blocked-by-them': 'Unavailable',
+};
 
-const mockClubs: Club[] = [
-  {
-    id: '1',
-    name: 'London Snooker Club',
-    location: 'London, UK',
-    memberSince: 'January 2020',
-    role: 'Senior Member',
-    achievements: [
-      'Club Championship Runner-up 2021',
-      'Highest break in monthly tournament (143)'
-    ],
-    memberCount: 120,
-    website: 'https://londonsnookerclub.com'
-  },
-  {
-    id: '2',
-    name: 'Elite Cue Sports Academy',
-    location: 'Manchester, UK',
-    memberSince: 'March 2022',
-    memberCount: 85
-  }
-];
-
-const mockRecommendations: Recommendation[] = [
-  {
-    id: '1',
-    userId: '2',
-    userName: 'Sarah Johnson',
-    userAvatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?q=80&w=200&auto=format&fit=crop',
-    rating: 5,
-    text: 'An exceptional player with great sportsmanship. Always a pleasure to play against and learn from.',
-    date: 'May 15, 2023',
-    likes: 12,
-    userLiked: true
-  },
-  {
-    id: '2',
-    userId: '3',
-    userName: 'Michael Chen',
-    userAvatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=200&auto=format&fit=crop',
-    rating: 4,
-    text: 'Solid technical skills and great strategic thinking. Helped me improve my safety play significantly.',
-    date: 'February 3, 2023',
-    likes: 8,
-    userLiked: false
-  }
-];
-
-// Fixed the type issue by using specific string literals for level
-const mockSkills: Skill[] = [
-  {
-    id: '1',
-    name: 'Long Potting',
-    level: 'expert',
-    endorsements: 24
-  },
-  {
-    id: '2',
-    name: 'Safety Play',
-    level: 'advanced',
-    endorsements: 18
-  },
-  {
-    id: '3',
-    name: 'Break Building',
-    level: 'intermediate',
-    endorsements: 12
-  },
-  {
-    id: '4',
-    name: 'Positional Play',
-    level: 'advanced',
-    endorsements: 15
-  }
-];
-
-const mockStrategies: Strategy[] = [
-  {
-    id: '1',
-    title: 'Effective Safety Play Techniques',
-    description: 'A detailed guide on how to develop and execute safety shots in different table situations. Includes common patterns and decision-making framework.'
-  },
-  {
-    id: '2',
-    title: 'Break Building Patterns',
-    description: 'My approach to constructing breaks efficiently, focusing on key ball positions and shot selection to maximize scoring opportunities.'
-  }
-];
+// Shown instead of the profile's sections when its owner hides them
+const RESTRICTION_MESSAGES: Record<NonNullable<ProfileAccess['restriction']>, string> = {
+  'blocked': "You've blocked this player. Unblock them to see their profile.",
+  'connections-only': 'Only connections can see this profile.',
+  'private': 'This profile is private.',
+};
 
 export default function ProfileScreen() {
   const router = useRouter();
   const { userId } = useLocalSearchParams<{ userId: string }>();
-  const { user: currentUser, updateProfile, checkAuth } = useAuthStore();
-  const { createMatch } = useMatchStore();
-  const { createChat, setActiveChat } = useChatStore();
+  const { user: currentUser, activeUserId, checkAuth } = useAuthStore();
+  const { isOnline, getSyncStatus, getLastSyncError, retryFailed } = useProfileSyncStore();
+  const connectionStore = useConnectionStore();
+  const abilityStore = useAbilityStore();
+  const skillStore = useSkillStore();
+  const recommendationStore = useRecommendationStore();
+  const { matches } = useMatchStore();
+  const matchResultStore = useMatchResultStore();
+  const ratingStore = useRatingStore();
+  const scheduleStore = useMatchScheduleStore();
+  const presenceStore = usePresenceStore();
+  const { setActiveChat } = useChatStore();
+  
+  // If no userId provided, show the active account's own profile
+  const profileUserId = userId || activeUserId || undefined;
+  const isCurrentUser = Boolean(profileUserId) && profileUserId === activeUserId;
   
-  const [profileUser, setProfileUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isConnected, setIsConnected] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Cached per section and revalidated in the background (see profile-data-store)
+  const userSection = useProfileSection(profileUserId, 'user');
+  const abilities = useProfileSection(profileUserId, 'abilities');
+  const clubs = useProfileSection(profileUserId, 'clubs');
+  const recommendations = useProfileSection(profileUserId, 'recommendations');
+  const skills = useProfileSection(profileUserId, 'skills');
+  const strategies = useProfileSection(profileUserId, 'strategies');
+  // Sections come back already restricted; this says which ones were hidden
+  const access = useProfileSection(profileUserId, 'access');
+  
+  // The signed-in user's own copy includes edits that haven't synced yet
+  const profileUser = isCurrentUser ? currentUser : userSection.data;
+  const isLoading = !profileUser && (userSection.isLoading || !userSection.error) && Boolean(profileUserId);
+  const error = profileUserId ? userSection.error : 'No user information available';
   
   // Ensure we have the latest auth state
   useEffect(() => {
     checkAuth();
   }, []);
   
+  // The overall leaderboard gives the rank shown in the header
   useEffect(() => {
-    const fetchUser = async () => {
-      setIsLoading(true);
-      setError(null);
-      
-      try {
-        // In a real app, this would use the API:
-        // let userData;
-        // if (userId) {
-        //   userData = await api.users.getUserById(userId);
-        // } else {
-        //   userData = await api.users.getCurrentUser();
-        // }
-        // setProfileUser(userData);
-        
-        // For now, we'll just use our mock data
-        let foundUser: User | undefined;
-        
-        if (userId) {
-          foundUser = users.find(u => u.id === userId);
-        } else if (currentUser) {
-          // If no userId provided and we have a current user, show current user's profile
-          foundUser = currentUser;
-        }
-        
-        if (foundUser) {
-          setProfileUser(foundUser);
-          
-          // Check if current user is connected to this user
-          if (currentUser && currentUser.connections) {
-            setIsConnected(currentUser.connections.includes(foundUser.id));
-          }
-        } else {
-          setError('User not found');
-        }
-        
-        // Simulate network delay
-        setTimeout(() => {
-          setIsLoading(false);
-        }, 500);
-      } catch (error) {
-        console.error('Error fetching user:', error);
-        setError('Failed to load profile');
-        setIsLoading(false);
-      }
-    };
+    ratingStore.fetchLeaderboard();
+  }, [profileUserId]);
+  
+  useEffect(() => {
+    if (profileUserId) {
+      presenceStore.fetchPresence([profileUserId]);
+    }
+  }, [profileUserId]);
+  
+  const connectionView: ConnectionView = currentUser && profileUser
+    ? connectionStore.getView(currentUser.id, profileUser.id)
+    : 'none';
+  
+  // Connecting or blocking changes what the viewer may see
+  useEffect(() => {
+    if (!isCurrentUser && profileUserId) {
+      useProfileDataStore.getState().invalidate(profileUserId);
+    }
+  }, [connectionView]);
+  const isConnected = connectionView === 'connected';
+  
+  const runConnectionAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating connection:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update connection');
+    }
+  };
+  
+  const handleConnect = () => {
+    if (!currentUser || !profileUser) return;
+    const otherId = profileUser.id;
     
-    // Only fetch if we have a userId or currentUser
-    if (userId || currentUser) {
-      fetchUser();
-    } else {
-      setIsLoading(false);
-      setError('No user information available');
+    switch (connectionView) {
+      case 'none':
+      case 'declined':
+        // Connection request and match request succeed or fail together
+        runConnectionAction(() => connectionStore.sendRequestWithMatch(otherId));
+        break;
+      case 'request-sent':
+        Alert.alert('Request sent', `Withdraw your request to ${profileUser.name}?`, [
+          { text: 'Keep', style: 'cancel' },
+          { text: 'Withdraw', style: 'destructive', onPress: () => runConnectionAction(() => connectionStore.withdrawRequest(otherId)) }
+        ]);
+        break;
+      case 'request-received':
+        Alert.alert('Connection request', `${profileUser.name} wants to connect with you.`, [
+          { text: 'Decline', style: 'destructive', onPress: () => runConnectionAction(() => connectionStore.declineRequest(otherId)) },
+          { text: 'Accept', onPress: () => runConnectionAction(() => connectionStore.acceptRequest(otherId)) }
+        ]);
+        break;
+      case 'connected':
+        Alert.alert('Remove connection', `Remove ${profileUser.name} from your connections?`, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Remove', style: 'destructive', onPress: () => runConnectionAction(() => connectionStore.removeConnection(otherId)) }
+        ]);
+        break;
+      case 'blocked':
+        handleToggleBlock();
+        break;
+      case 'blocked-by-them':
+        break;
     }
-  }, [userId, currentUser]);
+  };
   
-  const handleConnect = async () => {
+  const handleToggleBlock = () => {
     if (!currentUser || !profileUser) return;
+    const otherId = profileUser.id;
     
-    try {
-      if (isConnected) {
-        // In a real app, this would use the API:
-        // await api.users.removeConnection(profileUser.id);
-        
-        // Remove connection
-        const updatedConnections = currentUser.connections.filter(id => id !== profileUser.id);
-        
-        await updateProfile({
-          ...currentUser,
-          connections: updatedConnections
-        });
-        
-        setIsConnected(false);
-      } else {
-        // In a real app, this would use the API:
-        // await api.users.addConnection(profileUser.id);
-        
-        // Add connection
-        const updatedConnections = [...currentUser.connections, profileUser.id];
-        
-        await updateProfile({
-          ...currentUser,
-          connections: updatedConnections
-        });
-        
-        // Create a match request
-        await createMatch({
-          requesterId: currentUser.id,
-          receiverId: profileUser.id,
-          status: 'pending',
-          createdAt: new Date().toISOString()
-        });
-        
-        setIsConnected(true);
-      }
-    } catch (error) {
-      console.error('Error connecting with user:', error);
-      Alert.alert('Error', 'Failed to update connection');
+    if (connectionView === 'blocked') {
+      Alert.alert('Unblock', `Unblock ${profileUser.name}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Unblock', onPress: () => runConnectionAction(() => connectionStore.unblock(otherId)) }
+      ]);
+    } else {
+      Alert.alert('Block', `Block ${profileUser.name}? They won't be able to connect with you.`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Block', style: 'destructive', onPress: () => runConnectionAction(() => connectionStore.block(otherId)) }
+      ]);
     }
   };
   
@@ -244,113 +181,110 @@ export default function ProfileScreen() {
     if (!currentUser || !profileUser) return;
     
     try {
-      // In a real app, this would use the API:
-      // const chatData = await api.chats.createChat([currentUser.id, profileUser.id], false);
-      
-      // Create a new chat
-      const newChat = createChat({
-        participantIds: [currentUser.id, profileUser.id],
-        isGroup: false,
-        name: '',
-        createdAt: new Date().toISOString(),
-        creatorId: currentUser.id,
-        lastMessageAt: new Date().toISOString()
-      });
-      
-      // Set active chat
-      if (newChat) {
-        setActiveChat(newChat);
-        
-        // Navigate to the chat screen
-        router.push({
-          pathname: '/(tabs)/network',
-          params: { openChat: newChat.id }
-        });
-      }
+      // Reuses the existing conversation between the two players
+      const chat = await getOrCreateDirectChat(currentUser.id, profileUser.id);
+      setActiveChat(chat);
+      router.push(deepLinkHref({ type: 'chat', chatId: chat.id }));
     } catch (error) {
-      console.error('Error creating chat:', error);
-      Alert.alert('Error', 'Failed to create chat');
+      console.error('Error opening chat:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to open chat');
     }
   };
   
   const handleEditProfile = () => {
-    Alert.alert(
-      "Edit Profile",
-      "This would open a profile editor in a real app",
-      [{ text: "OK" }]
-    );
+    router.push('/edit-profile');
   };
 
   const handleEditAbilities = () => {
-    Alert.alert(
-      "Edit Abilities",
-      "This would open an ability editor in a real app",
-      [{ text: "OK" }]
-    );
+    router.push('/edit-abilities');
   };
 
   const handleEditClubs = () => {
-    Alert.alert(
-      "Edit Club Memberships",
-      "This would open a club membership editor in a real app",
-      [{ text: "OK" }]
-    );
+    router.push('/clubs');
   };
 
   const handleViewClub = (clubId: string) => {
-    Alert.alert(
-      "View Club",
-      `This would navigate to club ${clubId} in a real app`,
-      [{ text: "OK" }]
-    );
+    router.push(`/club?clubId=${clubId}`);
+  };
+
+  const runRecommendationAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating recommendation:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update recommendation');
+    }
   };
 
   const handleAddRecommendation = (text: string, rating: number) => {
-    Alert.alert(
-      "Add Recommendation",
-      `Added recommendation with rating ${rating}: ${text}`,
-      [{ text: "OK" }]
-    );
+    if (!profileUser) return;
+    runRecommendationAction(() => recommendationStore.addRecommendation(profileUser.id, { text, rating }));
+  };
+
+  const handleEditRecommendation = (id: string, text: string, rating: number) => {
+    if (!profileUser) return;
+    runRecommendationAction(() => recommendationStore.editRecommendation(profileUser.id, id, { text, rating }));
+  };
+
+  const handleDeleteRecommendation = (id: string) => {
+    if (!profileUser) return;
+    Alert.alert('Delete recommendation', 'Delete your recommendation?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => runRecommendationAction(() => recommendationStore.deleteRecommendation(profileUser.id, id)) }
+    ]);
+  };
+
+  const handleReportRecommendation = (id: string) => {
+    if (!profileUser) return;
+    const report = (reason: string) =>
+      runRecommendationAction(() => recommendationStore.reportRecommendation(profileUser.id, id, reason));
+    
+    Alert.alert('Report recommendation', 'Why are you reporting this recommendation?', [
+      { text: 'Spam', onPress: () => report('Spam') },
+      { text: 'Offensive', onPress: () => report('Offensive') },
+      { text: 'Not genuine', onPress: () => report('Not genuine') },
+      { text: 'Cancel', style: 'cancel' }
+    ]);
   };
 
   const handleLikeRecommendation = (id: string) => {
-    Alert.alert(
-      "Like Recommendation",
-      `Liked recommendation ${id}`,
-      [{ text: "OK" }]
-    );
+    if (!profileUser) return;
+    runRecommendationAction(() => recommendationStore.toggleLike(profileUser.id, id));
   };
 
   const handleEditSkills = () => {
-    Alert.alert(
-      "Edit Skills",
-      "This would open a skills editor in a real app",
-      [{ text: "OK" }]
-    );
+    router.push('/edit-skills');
   };
 
   const handleEditStrategies = () => {
-    Alert.alert(
-      "Edit Strategies",
-      "This would open a strategies editor in a real app",
-      [{ text: "OK" }]
-    );
+    router.push('/strategies?list=mine');
   };
 
   const handleEndorseSkill = (skillId: string) => {
-    Alert.alert(
-      "Endorse Skill",
-      `Endorsed skill ${skillId}`,
-      [{ text: "OK" }]
-    );
+    if (!currentUser || !profileUser) return;
+    const ownerId = profileUser.id;
+    
+    if (skillStore.hasEndorsed(ownerId, skillId, currentUser.id)) {
+      Alert.alert('Withdraw endorsement', 'Remove your endorsement of this skill?', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Withdraw', style: 'destructive', onPress: () => runSkillAction(() => skillStore.withdrawEndorsement(ownerId, skillId)) }
+      ]);
+    } else {
+      runSkillAction(() => skillStore.endorse(ownerId, skillId));
+    }
+  };
+  
+  const runSkillAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error updating endorsement:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update endorsement');
+    }
   };
 
   const handleViewStrategy = (strategyId: string) => {
-    Alert.alert(
-      "View Strategy",
-      `This would navigate to strategy ${strategyId} in a real app`,
-      [{ text: "OK" }]
-    );
+    router.push(`/strategy?strategyId=${strategyId}`);
   };
   
   if (isLoading) {
@@ -374,7 +308,7 @@ export default function ProfileScreen() {
     );
   }
   
-  if (error || !profileUser) {
+  if (!profileUser) {
     return (
       <SafeAreaView style={styles.container}>
         <Stack.Screen 
@@ -400,7 +334,49 @@ export default function ProfileScreen() {
     );
   }
   
-  const isCurrentUser = currentUser?.id === profileUser.id;
+  const connectionLabel = CONNECTION_LABELS[connectionView];
+  const canView = (section: PrivacySection) => isCurrentUser || Boolean(access.data?.sections[section]);
+  const restriction = isCurrentUser ? null : access.data?.restriction ?? null;
+  const syncStatus = isCurrentUser ? getSyncStatus(profileUser.id) : 'idle';
+  const syncError = isCurrentUser ? getLastSyncError(profileUser.id) : null;
+  
+  // Own profile shows the latest self-assessment over the previous one
+  const latestAssessment = isCurrentUser ? abilityStore.getLatest(profileUser.id) : null;
+  const previousAssessment = isCurrentUser ? abilityStore.getPrevious(profileUser.id) : null;
+  const abilityData = latestAssessment?.abilities ?? abilities.data;
+  
+  // A match with this player that still needs scoring or confirming
+  const openMatch = currentUser && !isCurrentUser
+    ? matches.find(match =>
+        ((match.requesterId === currentUser.id && match.receiverId === profileUser.id) ||
+          (match.requesterId === profileUser.id && match.receiverId === currentUser.id)) &&
+        match.status === 'accepted'
+      )
+    : undefined;
+  const openMatchResult = openMatch ? matchResultStore.getResult(openMatch.id) : null;
+  
+  // Match requests with this player can be given a time and venue
+  const schedulableMatch = currentUser && !isCurrentUser
+    ? matches.find(match =>
+        ((match.requesterId === currentUser.id && match.receiverId === profileUser.id) ||
+          (match.requesterId === profileUser.id && match.receiverId === currentUser.id)) &&
+        (match.status === 'pending' || match.status === 'accepted')
+      )
+    : undefined;
+  const fixture = schedulableMatch ? scheduleStore.getFixture(schedulableMatch.id) : null;
+  
+  const recommendationList = recommendations.data ?? [];
+  const ownRecommendation = recommendationStore.getOwnRecommendation(profileUser.id);
+  const recommendBlocker = recommendationStore.getRecommendBlocker(profileUser.id);
+  
+  // Own skill edits made on this device win over the cached section
+  const skillData = (isCurrentUser && skillStore.getSkills(profileUser.id)) || skills.data;
+  const skillList = skillStore.withEndorsements(profileUser.id, skillData ?? []);
+  const skillEndorsements = Object.fromEntries(skillList.map(skill => [skill.id, {
+    endorsers: skillStore.getEndorsements(profileUser.id, skill.id),
+    hasEndorsed: currentUser ? skillStore.hasEndorsed(profileUser.id, skill.id, currentUser.id) : false,
+    canEndorse: skillStore.getEndorseBlocker(profileUser.id, skill.id) === null,
+  }]));
   
   return (
     <SafeAreaView style={styles.container} edges={['bottom']}>
@@ -412,6 +388,13 @@ export default function ProfileScreen() {
           },
           headerTintColor: colors.text,
           headerShadowVisible: false,
+          headerRight: !isCurrentUser && currentUser && connectionView !== 'blocked-by-them'
+            ? () => (
+                <TouchableOpacity onPress={handleToggleBlock}>
+                  <Text style={styles.headerAction}>{connectionView === 'blocked' ? 'Unblock' : 'Block'}</Text>
+                </TouchableOpacity>
+              )
+            : undefined,
         }} 
       />
       
@@ -419,50 +402,167 @@ export default function ProfileScreen() {
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
       >
+        {/* Sync status of the user's own unsynced edits */}
+        {syncStatus !== 'idle' && (
+          <View style={[styles.syncBanner, syncStatus === 'failed' && styles.syncBannerFailed]}>
+            <Text style={styles.syncBannerText}>
+              {syncStatus === 'failed'
+                ? `Some profile changes could not be saved and were undone${syncError ? `: ${syncError}` : '.'}`
+                : syncStatus === 'syncing'
+                  ? 'Saving profile changes...'
+                  : isOnline
+                    ? 'Profile changes waiting to sync.'
+                    : "You're offline. Profile changes will sync when you're back online."}
+            </Text>
+            {syncStatus === 'failed' && (
+              <TouchableOpacity onPress={() => retryFailed(profileUser.id)}>
+                <Text style={styles.syncBannerAction}>Retry</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+        
         {/* Profile Header */}
         <ProfileHeader 
           user={profileUser}
           isCurrentUser={isCurrentUser}
           isConnected={isConnected}
+          connectionLabel={connectionLabel}
+          averageRating={getAverageRating(recommendationList)}
+          ratingCount={recommendationList.length}
+          playerRating={canView('stats') ? ratingStore.getRating(profileUser.id, profileUser) : undefined}
+          rank={canView('stats') ? ratingStore.getRank(profileUser.id) : null}
+          onViewLeaderboard={() => router.push('/leaderboard')}
+          presenceLabel={restriction ? null : formatPresence(presenceStore.getPresence(profileUser.id, profileUser))}
+          showStats={canView('stats')}
           onConnect={handleConnect}
           onMessage={handleMessage}
           onEditProfile={isCurrentUser ? handleEditProfile : undefined}
         />
         
+        {isCurrentUser && (
+          <TouchableOpacity style={styles.matchButton} onPress={() => router.push('/opponents')}>
+            <Text style={styles.matchButtonText}>Find opponents</Text>
+          </TouchableOpacity>
+        )}
+        
+        {schedulableMatch && (
+          <TouchableOpacity
+            style={styles.matchButton}
+            onPress={() => router.push(`/match-schedule?matchId=${schedulableMatch.id}`)}
+          >
+            <Text style={styles.matchButtonText}>
+              {fixture && fixture.status !== 'cancelled' ? 'View fixture' : 'Schedule match'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        
+        {openMatch && (
+          <TouchableOpacity
+            style={styles.matchButton}
+            onPress={() => router.push(`/match-score?matchId=${openMatch.id}`)}
+          >
+            <Text style={styles.matchButtonText}>
+              {openMatchResult?.status === 'submitted' ? 'Review match result' : 'Record match score'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        
+        {restriction && (
+          <View style={styles.restrictedNotice}>
+            <Text style={styles.restrictedText}>{RESTRICTION_MESSAGES[restriction]}</Text>
+          </View>
+        )}
+        
         {/* Ability Radar Chart */}
-        <AbilityRadarChart 
-          abilities={mockAbilities}
-          isEditable={isCurrentUser}
-          onEdit={handleEditAbilities}
-        />
+        {canView('abilities') && (
+          <ProfileSectionState
+            title="Abilities"
+            isLoading={abilities.isLoading}
+            error={abilities.error}
+            hasData={Boolean(abilityData)}
+            onRetry={abilities.refetch}
+          >
+            <AbilityRadarChart 
+              abilities={abilityData ?? []}
+              comparison={previousAssessment?.abilities}
+              comparisonLabel={previousAssessment ? new Date(previousAssessment.createdAt).toLocaleDateString() : undefined}
+              isEditable={isCurrentUser}
+              onEdit={handleEditAbilities}
+            />
+          </ProfileSectionState>
+        )}
         
         {/* Club Information */}
-        <ClubInformation 
-          clubs={mockClubs}
-          isEditable={isCurrentUser}
-          onEdit={handleEditClubs}
-          onViewClub={handleViewClub}
-        />
+        {canView('clubs') && (
+          <ProfileSectionState
+            title="Clubs"
+            isLoading={clubs.isLoading}
+            error={clubs.error}
+            hasData={Boolean(clubs.data)}
+            onRetry={clubs.refetch}
+          >
+            <ClubInformation 
+              clubs={clubs.data ?? []}
+              isEditable={isCurrentUser}
+              onEdit={handleEditClubs}
+              onViewClub={handleViewClub}
+            />
+          </ProfileSectionState>
+        )}
         
         {/* Player Recommendations */}
-        <PlayerRecommendations 
-          recommendations={mockRecommendations}
-          isCurrentUser={isCurrentUser}
-          onAddRecommendation={handleAddRecommendation}
-          onLikeRecommendation={handleLikeRecommendation}
-          onUserPress={(userId) => router.push(`/profile?userId=${userId}`)}
-        />
+        {canView('recommendations') && (
+          <ProfileSectionState
+            title="Recommendations"
+            isLoading={recommendations.isLoading}
+            error={recommendations.error}
+            hasData={Boolean(recommendations.data)}
+            onRetry={recommendations.refetch}
+          >
+            <PlayerRecommendations 
+              recommendations={recommendationList}
+              isCurrentUser={isCurrentUser}
+              currentUserId={currentUser?.id}
+              ownRecommendationId={ownRecommendation?.id}
+              canRecommend={recommendBlocker === null}
+              recommendBlockedReason={isCurrentUser || ownRecommendation ? undefined : recommendBlocker ?? undefined}
+              isSubmitting={recommendationStore.isSubmitting}
+              onAddRecommendation={handleAddRecommendation}
+              onEditRecommendation={handleEditRecommendation}
+              onDeleteRecommendation={handleDeleteRecommendation}
+              onReportRecommendation={handleReportRecommendation}
+              onLikeRecommendation={handleLikeRecommendation}
+              onUserPress={(userId) => router.push(`/profile?userId=${userId}`)}
+            />
+          </ProfileSectionState>
+        )}
         
         {/* Skills Section */}
-        <SkillsSection 
-          skills={mockSkills}
-          strategies={mockStrategies}
-          isEditable={isCurrentUser}
-          onEditSkills={handleEditSkills}
-          onEditStrategies={handleEditStrategies}
-          onEndorseSkill={handleEndorseSkill}
-          onViewStrategy={handleViewStrategy}
-        />
+        {canView('skills') && (
+          <ProfileSectionState
+            title="Skills & Strategies"
+            isLoading={skills.isLoading || strategies.isLoading}
+            error={skills.error || strategies.error}
+            hasData={Boolean(skillData && strategies.data)}
+            onRetry={() => {
+              skills.refetch();
+              strategies.refetch();
+            }}
+          >
+            <SkillsSection 
+              skills={skillList}
+              endorsements={skillEndorsements}
+              strategies={strategies.data ?? []}
+              isEditable={isCurrentUser}
+              onEditSkills={handleEditSkills}
+              onEditStrategies={handleEditStrategies}
+              onEndorseSkill={handleEndorseSkill}
+              onEndorserPress={(userId) => router.push(`/profile?userId=${userId}`)}
+              onViewStrategy={handleViewStrategy}
+            />
+          </ProfileSectionState>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -510,8 +610,58 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
+  headerAction: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 16,
+  },
+  syncBannerFailed: {
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  syncBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  syncBannerAction: {
+    marginLeft: 12,
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
   scrollContent: {
     paddingHorizontal: 16,
     paddingVertical: 16,
   },
+  restrictedNotice: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  restrictedText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  matchButton: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  matchButtonText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
 });
\ No newline at end of file
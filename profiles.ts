@@ -0,0 +1,214 @@
+import { Ability, Club, Recommendation, Skill, Strategy } from '@/types';
+
+export interface MockProfile {
+  abilities: Ability[];
+  clubs: Club[];
+  recommendations: Recommendation[];
+  skills: Skill[];
+  strategies: Strategy[];
+}
+
+const player1Abilities: Ability[] = [
+  { name: 'Potting', value: 8 },
+  { name: 'Positioning', value: 7 },
+  { name: 'Safety Play', value: 9 },
+  { name: 'Break Building', value: 6 },
+  { name: 'Concentration', value: 8 },
+  { name: 'Tactical Play', value: 7 },
+];
+
+const player1Clubs: Club[] = [
+  {
+    id: '1',
+    name: 'London Snooker Club',
+    location: 'London, UK',
+    memberSince: 'January 2020',
+    role: 'Senior Member',
+    achievements: [
+      'Club Championship Runner-up 2021',
+      'Highest break in monthly tournament (143)'
+    ],
+    memberCount: 120,
+    website: 'https://londonsnookerclub.com'
+  },
+  {
+    id: '2',
+    name: 'Elite Cue Sports Academy',
+    location: 'Manchester, UK',
+    memberSince: 'March 2022',
+    memberCount: 85
+  }
+];
+
+const player1Recommendations: Recommendation[] = [
+  {
+    id: '1',
+    userId: '2',
+    userName: 'Sarah Johnson',
+    userAvatar: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?q=80&w=200&auto=format&fit=crop',
+    rating: 5,
+    text: 'An exceptional player with great sportsmanship. Always a pleasure to play against and learn from.',
+    date: 'May 15, 2023',
+    likes: 12,
+    userLiked: true
+  },
+  {
+    id: '2',
+    userId: '3',
+    userName: 'Michael Chen',
+    userAvatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=200&auto=format&fit=crop',
+    rating: 4,
+    text: 'Solid technical skills and great strategic thinking. Helped me improve my safety play significantly.',
+    date: 'February 3, 2023',
+    likes: 8,
+    userLiked: false
+  }
+];
+
+// Fixed the type issue by using specific string literals for level
+const player1Skills: Skill[] = [
+  {
+    id: '1',
+    name: 'Long Potting',
+    level: 'expert',
+    endorsements: 24
+  },
+  {
+    id: '2',
+    name: 'Safety Play',
+    level: 'advanced',
+    endorsements: 18
+  },
+  {
+    id: '3',
+    name: 'Break Building',
+    level: 'intermediate',
+    endorsements: 12
+  },
+  {
+    id: '4',
+    name: 'Positional Play',
+    level: 'advanced',
+    endorsements: 15
+  }
+];
+
+const player1Strategies: Strategy[] = [
+  {
+    id: '1',
+    title: 'Effective Safety Play Techniques',
+    description: 'A detailed guide on how to develop and execute safety shots in different table situations. Includes common patterns and decision-making framework.'
+  },
+  {
+    id: '2',
+    title: 'Break Building Patterns',
+    description: 'My approach to constructing breaks efficiently, focusing on key ball positions and shot selection to maximize scoring opportunities.'
+  }
+];
+
+const player2Abilities: Ability[] = [
+  { name: 'Potting', value: 7 },
+  { name: 'Positioning', value: 8 },
+  { name: 'Safety Play', value: 6 },
+  { name: 'Break Building', value: 8 },
+  { name: 'Concentration', value: 7 },
+  { name: 'Tactical Play', value: 6 },
+];
+
+const player2Clubs: Club[] = [
+  {
+    id: '2',
+    name: 'Elite Cue Sports Academy',
+    location: 'Manchester, UK',
+    memberSince: 'June 2019',
+    role: 'Coach',
+    achievements: ['Academy Open Champion 2022'],
+    memberCount: 85
+  }
+];
+
+const player2Recommendations: Recommendation[] = [
+  {
+    id: '3',
+    userId: '3',
+    userName: 'Michael Chen',
+    userAvatar: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?q=80&w=200&auto=format&fit=crop',
+    rating: 5,
+    text: 'Fantastic coach and a fierce competitor. Watching those breaks come together taught me a lot.',
+    date: 'June 2, 2023',
+    likes: 5,
+    userLiked: false
+  }
+];
+
+const player2Skills: Skill[] = [
+  {
+    id: '5',
+    name: 'Break Building',
+    level: 'expert',
+    endorsements: 21
+  },
+  {
+    id: '6',
+    name: 'Cue Ball Control',
+    level: 'advanced',
+    endorsements: 9
+  }
+];
+
+const player2Strategies: Strategy[] = [
+  {
+    id: '3',
+    title: 'Opening Up the Pack',
+    description: 'When and how to split the reds off a black, with the cue ball paths that keep the break going.'
+  }
+];
+
+const player3Abilities: Ability[] = [
+  { name: 'Potting', value: 6 },
+  { name: 'Positioning', value: 5 },
+  { name: 'Safety Play', value: 8 },
+  { name: 'Break Building', value: 5 },
+  { name: 'Concentration', value: 9 },
+  { name: 'Tactical Play', value: 8 },
+];
+
+const player3Skills: Skill[] = [
+  {
+    id: '7',
+    name: 'Safety Play',
+    level: 'advanced',
+    endorsements: 7
+  }
+];
+
+/**
+ * Mock profile sections, keyed by user id
+ *
+ * Users without an entry have empty sections. Clubs, recommendations and
+ * strategies only seed the club store, the mock recommendation backend and
+ * the strategy store.
+ */
+export const mockProfiles: Record<string, MockProfile> = {
+  '1': {
+    abilities: player1Abilities,
+    clubs: player1Clubs,
+    recommendations: player1Recommendations,
+    skills: player1Skills,
+    strategies: player1Strategies
+  },
+  '2': {
+    abilities: player2Abilities,
+    clubs: player2Clubs,
+    recommendations: player2Recommendations,
+    skills: player2Skills,
+    strategies: player2Strategies
+  },
+  '3': {
+    abilities: player3Abilities,
+    clubs: [],
+    recommendations: [],
+    skills: player3Skills,
+    strategies: []
+  }
+};
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { User } from '@/types';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { useRatingStore } from '@/store/rating-store';
+import { mockPrivacyApi } from '@/services/privacy-api';
+import { DEFAULT_PRIVACY_SETTINGS, PrivacySection } from '@/utils/profile-privacy';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: async () => null,
+  setItemAsync: async () => undefined,
+  deleteItemAsync: async () => undefined,
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  __esModule: true,
+  default: { addEventListener: jest.fn() },
+}));
+
+jest.mock('@/api', () => ({
+  __esModule: true,
+  default: { interceptors: { request: { use: jest.fn() }, response: { use: jest.fn() } } },
+  removeAuthToken: jest.fn(),
+}));
+
+jest.mock('@/store/match-store', () => ({
+  useMatchStore: { getState: () => ({ matches: [] }) },
+}));
+
+const mockAccounts: { user: User; emailVerified: boolean }[] = [];
+
+jest.mock('@/services/user-registry', () => ({
+  mockUserRegistry: {
+    list: async () => mockAccounts,
+    findById: async (id: string) => mockAccounts.find(account => account.user.id === id) ?? null,
+  },
+}));
+
+const makeUser = (id: string, skillLevel: number): User => ({
+  id,
+  name: `Player ${id}`,
+  username: `player${id}`,
+  email: `player${id}@example.com`,
+  avatar: `https://example.com/${id}.jpg`,
+  location: 'London, UK',
+  stats: {
+    winRate: 0,
+    highestBreak: 0,
+    averageBreak: 0,
+    potSuccessRate: 0,
+    gamesPlayed: 0,
+    totalPoints: 0,
+    skillLevel,
+  },
+  connections: [],
+  isOnline: false,
+  lastActive: '2020-01-01T00:00:00.000Z',
+});
+
+const viewer = makeUser('1', 5);
+const open = makeUser('2', 5);
+const hidesStats = makeUser('3', 5);
+const hidesClubs = makeUser('4', 5);
+
+const CLUB = { id: 'club-1', name: 'Crucible Club', location: 'London, UK', memberCount: 4, createdAt: '2020-01-01' };
+
+const hideSection = (userId: string, section: PrivacySection) =>
+  mockPrivacyApi.updateSettings(userId, {
+    ...DEFAULT_PRIVACY_SETTINGS,
+    sections: { ...DEFAULT_PRIVACY_SETTINGS.sections, [section]: 'nobody' },
+  });
+
+beforeAll(async () => {
+  mockAccounts.push(...[viewer, open, hidesStats, hidesClubs].map(user => ({ user, emailVerified: true })));
+  await hideSection(hidesStats.id, 'stats');
+  await hideSection(hidesClubs.id, 'clubs');
+
+  useAuthStore.setState({ user: viewer, activeUserId: viewer.id, isAuthenticated: true });
+  useClubStore.setState({
+    clubs: { [CLUB.id]: CLUB },
+    memberships: Object.fromEntries(mockAccounts.map(({ user }) => [`${CLUB.id}:${user.id}`, {
+      id: `${CLUB.id}:${user.id}`,
+      clubId: CLUB.id,
+      userId: user.id,
+      status: 'approved',
+      role: 'Member',
+      isAdmin: false,
+      achievements: [],
+      requestedAt: '2020-01-01T00:00:00.000Z',
+      approvedAt: '2020-01-01T00:00:00.000Z',
+    }])),
+  });
+  useRatingStore.setState({ history: {} });
+});
+
+describe('leaderboards', () => {
+  it('leaves out players who hide their stats', async () => {
+    await useRatingStore.getState().fetchLeaderboard();
+
+    const ranked = useRatingStore.getState().getLeaderboard().entries.map(entry => entry.userId);
+    expect(ranked).toEqual(expect.arrayContaining([viewer.id, open.id, hidesClubs.id]));
+    expect(ranked).not.toContain(hidesStats.id);
+  });
+
+  it('leaves players out of clubs they hide their memberships of', async () => {
+    await useRatingStore.getState().fetchLeaderboard({ clubId: CLUB.id });
+
+    const ranked = useRatingStore.getState().getLeaderboard({ clubId: CLUB.id }).entries.map(entry => entry.userId);
+    expect(ranked.sort()).toEqual([viewer.id, open.id]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,232 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User } from '@/types';
+import api from '@/api';
+import config from '@/constants/config';
+import { useAuthStore } from '@/store/auth-store';
+import { useClubStore } from '@/store/club-store';
+import { findPlayerRecord, updatePlayerStats } from '@/store/player-stats';
+import { mockUserRegistry } from '@/services/user-registry';
+import { listMockPlayer } from '@/services/profile-api';
+import {
+  INITIAL_RATING,
+  MatchOutcome,
+  updateRatings,
+  ratingForSkillLevel,
+  skillLevelForRating
+} from '@/utils/elo';
+import { MatchScore, getMatchWinner } from '@/utils/match-stats';
+
+export interface RatingChange {
+  matchId: string;
+  opponentId: string;
+  // Rating after the match
+  rating: number;
+  change: number;
+  createdAt: string;
+}
+
+export interface LeaderboardFilter {
+  // Matched against User.location, ignoring case
+  location?: string;
+  clubId?: string;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  avatar: string;
+  location: string;
+  rating: number;
+  rank: number;
+}
+
+interface Leaderboard {
+  entries: LeaderboardEntry[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface RatingState {
+  // Rating changes per player, oldest first
+  history: Record<string, RatingChange[]>;
+  // Last loaded leaderboards, keyed by filter
+  leaderboards: Record<string, Leaderboard>;
+  getHistory: (playerId: string) => RatingChange[];
+  // Current rating; `player` seeds it for players without rated matches
+  getRating: (playerId: string, player?: User | null) => number;
+  rateMatch: (match: MatchScore) => Promise<void>;
+  getLeaderboard: (filter?: LeaderboardFilter) => Leaderboard;
+  fetchLeaderboard: (filter?: LeaderboardFilter) => Promise<void>;
+  // Rank on the overall leaderboard, once it has been loaded
+  getRank: (playerId: string) => number | null;
+}
+
+const EMPTY_LEADERBOARD: Leaderboard = { entries: [], isLoading: false, error: null };
+
+export const leaderboardKey = ({ location, clubId }: LeaderboardFilter = {}) =>
+  `${location?.trim().toLowerCase() ?? ''}|${clubId ?? ''}`;
+
+/**
+ * Rating of a player before their first rated match
+ *
+ * Players who had already played when ratings were introduced start from
+ * their skillLevel; everyone else starts at INITIAL_RATING.
+ */
+const startingRating = (player?: User | null) =>
+  player && player.stats?.gamesPlayed > 0 ? ratingForSkillLevel(player.stats.skillLevel) : INITIAL_RATING;
+
+/**
+ * Rating store using Zustand
+ *
+ * Updates both players' Elo ratings (see utils/elo) when a match result is
+ * confirmed, keeps each player's rating history and sets their skillLevel
+ * from the new rating. Leaderboards rank players by rating, optionally
+ * within a location or a club, leaving out players who hide their stats (or,
+ * for a club, their memberships) from the viewer.
+ *
+ * Required API endpoints:
+ * - GET /users/:id/ratings - A player's rating history
+ * - GET /leaderboard?location=&clubId= - Ranked players
+ */
+export const useRatingStore = create<RatingState>()(
+  persist(
+    (set, get) => {
+      const setLeaderboard = (key: string, update: Partial<Leaderboard>) => {
+        set(state => ({
+          leaderboards: {
+            ...state.leaderboards,
+            [key]: { ...EMPTY_LEADERBOARD, ...state.leaderboards[key], ...update }
+          }
+        }));
+      };
+
+      // The mock server ranks every registered player the viewer may see
+      const loadMockLeaderboard = async ({ location, clubId }: LeaderboardFilter): Promise<LeaderboardEntry[]> => {
+        const clubMemberIds = clubId
+          ? useClubStore.getState().getMembers(clubId).map(member => member.userId)
+          : null;
+        const place = location?.trim().toLowerCase();
+        const viewerId = useAuthStore.getState().activeUserId;
+
+        const players = await Promise.all(
+          (await mockUserRegistry.list())
+            .filter(({ emailVerified }) => emailVerified)
+            .map(async ({ user }) => ({ user, listed: await listMockPlayer(user, viewerId) }))
+        );
+
+        const ranked = players
+          .flatMap(({ user, listed }) => (listed ? [{ user, shown: listed.user, access: listed.access }] : []))
+          // A rating is a stat: players who hide their stats from the viewer aren't ranked
+          .filter(({ access }) => access.sections.stats)
+          // Nor listed under a club they hide their memberships of
+          .filter(({ user, access }) => !clubMemberIds || (access.sections.clubs && clubMemberIds.includes(user.id)))
+          // Matched against the location the viewer may see, so city-level players can't be pinpointed
+          .filter(({ shown }) => !place || shown.location.toLowerCase().includes(place))
+          .map(({ user, shown }) => ({
+            userId: shown.id,
+            name: shown.name,
+            avatar: shown.avatar,
+            location: shown.location,
+            rating: get().getRating(user.id, user)
+          }))
+          .sort((a, b) => b.rating - a.rating || a.name.localeCompare(b.name));
+
+        // Equal ratings share a rank
+        return ranked.map(entry => ({
+          ...entry,
+          rank: ranked.findIndex(other => other.rating === entry.rating) + 1
+        }));
+      };
+
+      return {
+        history: {},
+        leaderboards: {},
+
+        getHistory: (playerId) => get().history[playerId] ?? [],
+
+        getRating: (playerId, player) => {
+          const history = get().getHistory(playerId);
+          return history.length ? history[history.length - 1].rating : startingRating(player);
+        },
+
+        rateMatch: async (match) => {
+          const [firstId, secondId] = match.playerIds;
+          // Each match is rated once
+          if (get().getHistory(firstId).some(change => change.matchId === match.matchId)) return;
+
+          // Starting ratings need games played, which the viewer's copy may not show
+          const [first, second] = await Promise.all([findPlayerRecord(firstId), findPlayerRecord(secondId)]);
+          const before = [get().getRating(firstId, first), get().getRating(secondId, second)];
+
+          const winnerId = getMatchWinner(match);
+          const outcome: MatchOutcome = winnerId === firstId ? 1 : winnerId === secondId ? 0 : 0.5;
+          const after = updateRatings(
+            { rating: before[0], gamesPlayed: get().getHistory(firstId).length },
+            { rating: before[1], gamesPlayed: get().getHistory(secondId).length },
+            outcome
+          );
+
+          const createdAt = new Date().toISOString();
+          set(state => ({
+            history: {
+              ...state.history,
+              [firstId]: [...(state.history[firstId] ?? []), {
+                matchId: match.matchId, opponentId: secondId, rating: after[0], change: after[0] - before[0], createdAt
+              }],
+              [secondId]: [...(state.history[secondId] ?? []), {
+                matchId: match.matchId, opponentId: firstId, rating: after[1], change: after[1] - before[1], createdAt
+              }]
+            }
+          }));
+
+          await Promise.all([
+            updatePlayerStats(firstId, { skillLevel: skillLevelForRating(after[0]) }),
+            updatePlayerStats(secondId, { skillLevel: skillLevelForRating(after[1]) })
+          ]);
+        },
+
+        getLeaderboard: (filter) => get().leaderboards[leaderboardKey(filter)] ?? EMPTY_LEADERBOARD,
+
+        fetchLeaderboard: async (filter = {}) => {
+          const key = leaderboardKey(filter);
+          setLeaderboard(key, { isLoading: true, error: null });
+
+          try {
+            let entries: LeaderboardEntry[];
+            if (config.profileData === 'mock') {
+              entries = await loadMockLeaderboard(filter);
+            } else {
+              const response = await api.get('/leaderboard', { params: filter });
+              entries = response.data as LeaderboardEntry[];
+            }
+            setLeaderboard(key, { entries, isLoading: false });
+          } catch (error) {
+            console.error('Error loading leaderboard:', error);
+            setLeaderboard(key, {
+              isLoading: false,
+              error: error instanceof Error ? error.message : 'Failed to load leaderboard'
+            });
+          }
+        },
+
+        getRank: (playerId) =>
+          get().getLeaderboard().entries.find(entry => entry.userId === playerId)?.rank ?? null
+      };
+    },
+    {
+      name: 'snookiq-ratings',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Leaderboards are reloaded rather than restored
+      partialize: (state) => ({ history: state.history }),
+    }
+  )
+);
+
+// Leaderboards only list players the viewer may see, so another account reloads them
+useAuthStore.subscribe((state, previous) => {
+  if (state.activeUserId !== previous.activeUserId) {
+    useRatingStore.setState({ leaderboards: {} });
+  }
+});
\ No newline at end of file
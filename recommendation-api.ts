@@ -0,0 +1,213 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Recommendation } from '@/types';
+import api from '@/api';
+import config from '@/constants/config';
+import { mockProfiles } from '@/mocks/profiles';
+
+export interface RecommendationInput {
+  rating: number;
+  text: string;
+}
+
+export interface RecommendationAuthor {
+  id: string;
+  name: string;
+  avatar: string;
+}
+
+/**
+ * Backend used by useRecommendationStore
+ *
+ * The acting user's id is passed explicitly for the mock backend; the REST
+ * API takes it from the access token instead. `list` resolves `userLiked`
+ * for `viewerId` and leaves out recommendations the viewer has reported.
+ */
+export interface RecommendationApi {
+  list: (profileUserId: string, viewerId: string | null) => Promise<Recommendation[]>;
+  create: (profileUserId: string, author: RecommendationAuthor, input: RecommendationInput) => Promise<void>;
+  update: (id: string, input: RecommendationInput) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  setLiked: (id: string, userId: string, liked: boolean) => Promise<void>;
+  report: (id: string, reporterId: string, reason: string) => Promise<void>;
+}
+
+interface StoredRecommendation {
+  id: string;
+  profileUserId: string;
+  authorId: string;
+  authorName: string;
+  authorAvatar: string;
+  rating: number;
+  text: string;
+  date: string;
+  likedBy: string[];
+  // Likes from seed data, which doesn't say who gave them
+  seedLikes: number;
+  reports: { reporterId: string; reason: string; createdAt: string }[];
+}
+
+const STORAGE_KEY = 'snookiq-mock-recommendations';
+
+// Reported this many times, a recommendation is hidden until moderated
+export const REPORT_HIDE_THRESHOLD = 3;
+
+let stored: StoredRecommendation[] | null = null;
+
+export const formatRecommendationDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+
+// The seed data was written from the first mock user's point of view
+const seed = (): StoredRecommendation[] =>
+  Object.entries(mockProfiles).flatMap(([profileUserId, profile]) =>
+    profile.recommendations.map(recommendation => ({
+      id: `${profileUserId}-${recommendation.id}`,
+      profileUserId,
+      authorId: recommendation.userId,
+      authorName: recommendation.userName,
+      authorAvatar: recommendation.userAvatar,
+      rating: recommendation.rating,
+      text: recommendation.text,
+      date: recommendation.date,
+      likedBy: recommendation.userLiked ? ['1'] : [],
+      seedLikes: recommendation.likes - (recommendation.userLiked ? 1 : 0),
+      reports: [],
+    }))
+  );
+
+const load = async (): Promise<StoredRecommendation[]> => {
+  if (!stored) {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    stored = raw ? JSON.parse(raw) as StoredRecommendation[] : seed();
+  }
+  return stored;
+};
+
+const save = async (recommendations: StoredRecommendation[]) => {
+  stored = recommendations;
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(recommendations));
+};
+
+const updateStored = async (id: string, update: (recommendation: StoredRecommendation) => StoredRecommendation) => {
+  const all = await load();
+  if (!all.some(recommendation => recommendation.id === id)) {
+    throw new Error('Recommendation not found');
+  }
+  await save(all.map(recommendation => (recommendation.id === id ? update(recommendation) : recommendation)));
+};
+
+/**
+ * Recommendations kept in AsyncStorage, seeded from the mock profiles
+ */
+const mockRecommendationApi: RecommendationApi = {
+  list: async (profileUserId, viewerId) =>
+    (await load())
+      .filter(recommendation =>
+        recommendation.profileUserId === profileUserId &&
+        recommendation.reports.length < REPORT_HIDE_THRESHOLD &&
+        !recommendation.reports.some(report => report.reporterId === viewerId)
+      )
+      .map(recommendation => ({
+        id: recommendation.id,
+        userId: recommendation.authorId,
+        userName: recommendation.authorName,
+        userAvatar: recommendation.authorAvatar,
+        rating: recommendation.rating,
+        text: recommendation.text,
+        date: recommendation.date,
+        likes: recommendation.seedLikes + recommendation.likedBy.length,
+        userLiked: viewerId !== null && recommendation.likedBy.includes(viewerId),
+      })),
+
+  create: async (profileUserId, author, { rating, text }) => {
+    const all = await load();
+    if (all.some(recommendation => recommendation.profileUserId === profileUserId && recommendation.authorId === author.id)) {
+      throw new Error('You have already recommended this player');
+    }
+
+    await save([...all, {
+      id: Date.now().toString(),
+      profileUserId,
+      authorId: author.id,
+      authorName: author.name,
+      authorAvatar: author.avatar,
+      rating,
+      text,
+      date: formatRecommendationDate(new Date()),
+      likedBy: [],
+      seedLikes: 0,
+      reports: [],
+    }]);
+  },
+
+  update: async (id, { rating, text }) => {
+    await updateStored(id, recommendation => ({ ...recommendation, rating, text }));
+  },
+
+  remove: async (id) => {
+    await save((await load()).filter(recommendation => recommendation.id !== id));
+  },
+
+  setLiked: async (id, userId, liked) => {
+    await updateStored(id, recommendation => {
+      const others = recommendation.likedBy.filter(likerId => likerId !== userId);
+      return { ...recommendation, likedBy: liked ? [...others, userId] : others };
+    });
+  },
+
+  report: async (id, reporterId, reason) => {
+    await updateStored(id, recommendation =>
+      recommendation.reports.some(report => report.reporterId === reporterId)
+        ? recommendation
+        : {
+            ...recommendation,
+            reports: [...recommendation.reports, { reporterId, reason, createdAt: new Date().toISOString() }]
+          }
+    );
+  },
+};
+
+/**
+ * Recommendations through the REST API
+ *
+ * Endpoints:
+ * - GET /users/:id/recommendations - Recommendations on a profile
+ * - POST /users/:id/recommendations - Recommend a player { rating, text }
+ * - PUT /recommendations/:id - Edit your recommendation { rating, text }
+ * - DELETE /recommendations/:id - Delete your recommendation
+ * - POST /recommendations/:id/like - Like a recommendation
+ * - DELETE /recommendations/:id/like - Remove your like
+ * - POST /recommendations/:id/reports - Report a recommendation { reason }
+ */
+const httpRecommendationApi: RecommendationApi = {
+  list: async (profileUserId) => {
+    const response = await api.get(`/users/${profileUserId}/recommendations`);
+    return response.data as Recommendation[];
+  },
+
+  create: async (profileUserId, _author, input) => {
+    await api.post(`/users/${profileUserId}/recommendations`, input);
+  },
+
+  update: async (id, input) => {
+    await api.put(`/recommendations/${id}`, input);
+  },
+
+  remove: async (id) => {
+    await api.delete(`/recommendations/${id}`);
+  },
+
+  setLiked: async (id, _userId, liked) => {
+    if (liked) {
+      await api.post(`/recommendations/${id}/like`);
+    } else {
+      await api.delete(`/recommendations/${id}/like`);
+    }
+  },
+
+  report: async (id, _reporterId, reason) => {
+    await api.post(`/recommendations/${id}/reports`, { reason });
+  },
+};
+
+export const getRecommendationApi = (): RecommendationApi =>
+  config.profileData === 'http' ? httpRecommendationApi : mockRecommendationApi;
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { create } from 'zustand';
+import { Recommendation } from '@/types';
+import { useAuthStore, requireCurrentUser, requireCurrentUserId } from '@/store/auth-store';
+import { useMatchStore } from '@/store/match-store';
+import { useMatchScheduleStore } from '@/store/match-schedule-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { getRecommendationApi, RecommendationInput } from '@/services/recommendation-api';
+
+export const RECOMMENDATION_TEXT_MIN_LENGTH = 10;
+export const RECOMMENDATION_TEXT_MAX_LENGTH = 500;
+
+interface RecommendationState {
+  isSubmitting: boolean;
+  error: string | null;
+  // Returns why the signed-in user can't recommend the player, or null if they can
+  getRecommendBlocker: (profileUserId: string) => string | null;
+  getOwnRecommendation: (profileUserId: string) => Recommendation | null;
+  addRecommendation: (profileUserId: string, input: RecommendationInput) => Promise<void>;
+  editRecommendation: (profileUserId: string, id: string, input: RecommendationInput) => Promise<void>;
+  deleteRecommendation: (profileUserId: string, id: string) => Promise<void>;
+  reportRecommendation: (profileUserId: string, id: string, reason: string) => Promise<void>;
+  toggleLike: (profileUserId: string, id: string) => Promise<void>;
+}
+
+/**
+ * Average rating of a set of recommendations, to one decimal place
+ */
+export const getAverageRating = (recommendations: Recommendation[]): number | null => {
+  if (recommendations.length === 0) return null;
+  const total = recommendations.reduce((sum, recommendation) => sum + recommendation.rating, 0);
+  return Math.round((total / recommendations.length) * 10) / 10;
+};
+
+/**
+ * Whether two players have played a match against each other
+ *
+ * Counts completed matches, and accepted ones whose agreed start time has
+ * passed, since a result may not have been entered yet.
+ */
+export const havePlayedMatch = (userA: string, userB: string) =>
+  useMatchStore.getState().matches.some(match => {
+    const isBetween =
+      (match.requesterId === userA && match.receiverId === userB) ||
+      (match.requesterId === userB && match.receiverId === userA);
+    if (!isBetween) return false;
+    if (match.status === 'completed') return true;
+
+    const fixture = useMatchScheduleStore.getState().getFixture(match.id);
+    return (
+      match.status === 'accepted' &&
+      fixture?.status === 'agreed' &&
+      new Date(fixture.proposal.startsAt).getTime() <= Date.now()
+    );
+  });
+
+const validateInput = ({ rating, text }: RecommendationInput) => {
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new Error('Choose a rating from 1 to 5 stars');
+  }
+  if (text.trim().length < RECOMMENDATION_TEXT_MIN_LENGTH) {
+    throw new Error(`Recommendations must be at least ${RECOMMENDATION_TEXT_MIN_LENGTH} characters`);
+  }
+  if (text.trim().length > RECOMMENDATION_TEXT_MAX_LENGTH) {
+    throw new Error(`Recommendations must be ${RECOMMENDATION_TEXT_MAX_LENGTH} characters or fewer`);
+  }
+};
+
+const getCachedRecommendations = (profileUserId: string) =>
+  useProfileDataStore.getState().getSection(profileUserId, 'recommendations').data ?? [];
+
+const reload = (profileUserId: string) =>
+  useProfileDataStore.getState().fetchSection(profileUserId, 'recommendations', { force: true });
+
+/**
+ * Recommendation store using Zustand
+ *
+ * Recommendations themselves live in the profile section cache; this store
+ * enforces who may write them and keeps the cache up to date after changes.
+ * A player can leave one recommendation per profile, and only for players
+ * they have finished a match with. Likes are per user.
+ */
+export const useRecommendationStore = create<RecommendationState>()((set, get) => {
+  const submit = async (profileUserId: string, action: () => Promise<void>) => {
+    set({ isSubmitting: true, error: null });
+    try {
+      await action();
+      await reload(profileUserId);
+      set({ isSubmitting: false });
+    } catch (error) {
+      set({
+        isSubmitting: false,
+        error: error instanceof Error ? error.message : 'Failed to update recommendation'
+      });
+      throw error;
+    }
+  };
+
+  const requireOwn = (profileUserId: string, id: string) => {
+    const userId = requireCurrentUserId();
+    const recommendation = getCachedRecommendations(profileUserId).find(item => item.id === id);
+    if (!recommendation || recommendation.userId !== userId) {
+      throw new Error('You can only change your own recommendation');
+    }
+  };
+
+  return {
+    isSubmitting: false,
+    error: null,
+
+    getRecommendBlocker: (profileUserId) => {
+      const userId = useAuthStore.getState().activeUserId;
+
+      if (!userId) {
+        return 'You need to be logged in';
+      }
+      if (userId === profileUserId) {
+        return "You can't recommend yourself";
+      }
+      if (get().getOwnRecommendation(profileUserId)) {
+        return 'You have already recommended this player';
+      }
+      if (!havePlayedMatch(userId, profileUserId)) {
+        return 'You can recommend players after you have played a match together';
+      }
+      return null;
+    },
+
+    getOwnRecommendation: (profileUserId) => {
+      const userId = useAuthStore.getState().activeUserId;
+      return getCachedRecommendations(profileUserId).find(item => item.userId === userId) ?? null;
+    },
+
+    addRecommendation: async (profileUserId, input) => {
+      const blocker = get().getRecommendBlocker(profileUserId);
+      if (blocker) {
+        throw new Error(blocker);
+      }
+      validateInput(input);
+
+      const user = requireCurrentUser();
+      await submit(profileUserId, () =>
+        getRecommendationApi().create(
+          profileUserId,
+          { id: user.id, name: user.name, avatar: user.avatar },
+          { rating: input.rating, text: input.text.trim() }
+        )
+      );
+    },
+
+    editRecommendation: async (profileUserId, id, input) => {
+      requireOwn(profileUserId, id);
+      validateInput(input);
+
+      await submit(profileUserId, () =>
+        getRecommendationApi().update(id, { rating: input.rating, text: input.text.trim() })
+      );
+    },
+
+    deleteRecommendation: async (profileUserId, id) => {
+      requireOwn(profileUserId, id);
+      await submit(profileUserId, () => getRecommendationApi().remove(id));
+    },
+
+    reportRecommendation: async (profileUserId, id, reason) => {
+      const userId = requireCurrentUserId();
+      if (!reason.trim()) {
+        throw new Error('Please say why you are reporting this recommendation');
+      }
+
+      // The reported recommendation is hidden from the reporter once reloaded
+      await submit(profileUserId, () => getRecommendationApi().report(id, userId, reason.trim()));
+    },
+
+    toggleLike: async (profileUserId, id) => {
+      const userId = requireCurrentUserId();
+      const dataStore = useProfileDataStore.getState();
+      const previous = getCachedRecommendations(profileUserId);
+      const recommendation = previous.find(item => item.id === id);
+      if (!recommendation) return;
+
+      const liked = !recommendation.userLiked;
+
+      // Shown at once and put back if the request fails
+      dataStore.setSectionData(profileUserId, 'recommendations', previous.map(item =>
+        item.id === id ? { ...item, userLiked: liked, likes: item.likes + (liked ? 1 : -1) } : item
+      ));
+
+      try {
+        await getRecommendationApi().setLiked(id, userId, liked);
+      } catch (error) {
+        dataStore.setSectionData(profileUserId, 'recommendations', previous);
+        throw error;
+      }
+    }
+  };
+});
\ No newline at end of file
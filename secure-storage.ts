@@ -0,0 +1,125 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { StateStorage } from 'zustand/middleware';
+
+interface PersistedEnvelope<S> {
+  state: S;
+  version?: number;
+}
+
+// What goes to AsyncStorage: the public state and the ids of its secrets
+interface PublicEnvelope<P> extends PersistedEnvelope<P> {
+  secretIds?: string[];
+}
+
+interface SecureSplitStorageOptions<S, P, K> {
+  // Separates the persisted state into what may go to AsyncStorage and secrets keyed by id
+  split: (state: S) => { publicState: P; secrets: Record<string, K> };
+  // Puts the two halves back together when hydrating
+  join: (publicState: P, secrets: Record<string, K>) => S;
+  // Whether a payload read from AsyncStorage is in the layout that kept secrets inline
+  isLegacyState: (state: unknown) => boolean;
+  // Brings a payload in an older layout up to date, so it can be split
+  migrate: (envelope: PersistedEnvelope<unknown>) => PersistedEnvelope<S>;
+  // Called once after data in an older layout has been rewritten
+  onLegacyMigrated?: () => Promise<void>;
+}
+
+const secretKey = (name: string, id: string) => `${name}.secrets.${id}`;
+
+/**
+ * StateStorage for `createJSONStorage` that keeps secrets in the keychain
+ *
+ * Non-sensitive state is stored in AsyncStorage under `name`, each secret in
+ * expo-secure-store (Keychain on iOS, Keystore-backed on Android) under
+ * `<name>.secrets.<id>`. Keychain values are kept small this way; iOS warns
+ * about values over 2 KB.
+ *
+ * The older layout with secrets inline in AsyncStorage is migrated to the
+ * current state shape and rewritten the first time it is read.
+ */
+export const createSecureSplitStorage = <S, P, K>({
+  split,
+  join,
+  isLegacyState,
+  migrate,
+  onLegacyMigrated,
+}: SecureSplitStorageOptions<S, P, K>): StateStorage => {
+  // Writes run one at a time, so each sees the secret ids of the last one
+  let writing: Promise<void> = Promise.resolve();
+
+  const readEnvelope = async (name: string) => {
+    const raw = await AsyncStorage.getItem(name);
+    return raw ? (JSON.parse(raw) as PublicEnvelope<unknown>) : null;
+  };
+
+  const write = async (name: string, envelope: PersistedEnvelope<S>) => {
+    const previousIds = (await readEnvelope(name))?.secretIds ?? [];
+    const { publicState, secrets } = split(envelope.state);
+    const secretIds = Object.keys(secrets);
+
+    await Promise.all(
+      secretIds.map(id => SecureStore.setItemAsync(secretKey(name, id), JSON.stringify(secrets[id])))
+    );
+    const stored: PublicEnvelope<P> = { ...envelope, state: publicState, secretIds };
+    await AsyncStorage.setItem(name, JSON.stringify(stored));
+    // Secrets nothing refers to any more, e.g. of a signed-out account
+    await Promise.all(
+      previousIds
+        .filter(id => !secretIds.includes(id))
+        .map(id => SecureStore.deleteItemAsync(secretKey(name, id)))
+    );
+  };
+
+  const enqueueWrite = (name: string, envelope: PersistedEnvelope<S>) => {
+    writing = writing.catch(() => undefined).then(() => write(name, envelope));
+    return writing;
+  };
+
+  return {
+    getItem: async (name) => {
+      const envelope = await readEnvelope(name);
+
+      if (!envelope) {
+        return null;
+      }
+
+      if (isLegacyState(envelope.state)) {
+        // Older layout: migrate to the current shape first, then split it
+        const migrated = migrate(envelope);
+
+        await enqueueWrite(name, migrated);
+        await onLegacyMigrated?.();
+        return JSON.stringify(migrated);
+      }
+
+      const secretIds = envelope.secretIds ?? [];
+      const values = await Promise.all(secretIds.map(id => SecureStore.getItemAsync(secretKey(name, id))));
+      const secrets: Record<string, K> = {};
+      secretIds.forEach((id, index) => {
+        const raw = values[index];
+        if (raw) {
+          secrets[id] = JSON.parse(raw) as K;
+        }
+      });
+
+      const joined: PersistedEnvelope<S> = {
+        state: join(envelope.state as P, secrets),
+        version: envelope.version,
+      };
+      return JSON.stringify(joined);
+    },
+
+    setItem: async (name, value) => {
+      await enqueueWrite(name, JSON.parse(value) as PersistedEnvelope<S>);
+    },
+
+    removeItem: async (name) => {
+      const secretIds = (await readEnvelope(name))?.secretIds ?? [];
+      await Promise.all([
+        AsyncStorage.removeItem(name),
+        ...secretIds.map(id => SecureStore.deleteItemAsync(secretKey(name, id))),
+      ]);
+    },
+  };
+};
\ No newline at end of file
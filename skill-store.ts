@@ -0,0 +1,198 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Skill } from '@/types';
+import { useAuthStore, requireCurrentUser, requireCurrentUserId } from '@/store/auth-store';
+import { useConnectionStore } from '@/store/connection-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+
+export const SKILL_LEVELS: Skill['level'][] = ['beginner', 'intermediate', 'advanced', 'expert'];
+
+/**
+ * One player's endorsement of another player's skill
+ *
+ * The endorser's name and avatar are copied in, as with recommendations, so
+ * the list can be shown without loading every endorser's profile.
+ */
+export interface Endorsement {
+  id: string;
+  skillOwnerId: string;
+  skillId: string;
+  endorserId: string;
+  endorserName: string;
+  endorserAvatar: string;
+  createdAt: string;
+}
+
+interface SkillState {
+  // Skill lists edited on this device, per user
+  skills: Record<string, Skill[]>;
+  endorsements: Record<string, Endorsement>;
+  getSkills: (userId: string) => Skill[] | null;
+  getEndorsements: (skillOwnerId: string, skillId: string) => Endorsement[];
+  hasEndorsed: (skillOwnerId: string, skillId: string, endorserId: string) => boolean;
+  // Returns why the signed-in user can't endorse the skill, or null if they can
+  getEndorseBlocker: (skillOwnerId: string, skillId: string) => string | null;
+  // Adds the stored endorsements to each skill's endorsement count from the server
+  withEndorsements: (skillOwnerId: string, skills: Skill[]) => Skill[];
+  endorse: (skillOwnerId: string, skillId: string) => Promise<void>;
+  withdrawEndorsement: (skillOwnerId: string, skillId: string) => Promise<void>;
+  addSkill: (name: string, level: Skill['level'], currentSkills: Skill[]) => Promise<void>;
+  updateSkillLevel: (skillId: string, level: Skill['level'], currentSkills: Skill[]) => Promise<void>;
+  removeSkill: (skillId: string, currentSkills: Skill[]) => Promise<void>;
+}
+
+const endorsementKey = (skillOwnerId: string, skillId: string, endorserId: string) =>
+  `${skillOwnerId}:${skillId}:${endorserId}`;
+
+/**
+ * Skill store using Zustand
+ *
+ * Records who endorsed which skill. Endorsements follow these rules:
+ * - a player can endorse each skill once
+ * - players can't endorse their own skills
+ * - only connected players can endorse each other
+ * - an endorsement can be withdrawn by the player who gave it
+ *
+ * Also holds the signed-in player's edits to their own skill list.
+ *
+ * Required API endpoints:
+ * - GET /users/:id/skills/endorsements - Endorsements of a user's skills
+ * - POST /users/:id/skills/:skillId/endorsements - Endorse a skill
+ * - DELETE /users/:id/skills/:skillId/endorsements - Withdraw an endorsement
+ * - PUT /users/skills - Replace the current user's skills { skills }
+ */
+export const useSkillStore = create<SkillState>()(
+  persist(
+    (set, get) => {
+      const saveSkills = async (userId: string, skills: Skill[]) => {
+        // In a real app, this would use the API:
+        // await api.put('/users/skills', { skills });
+
+        set(state => ({ skills: { ...state.skills, [userId]: skills } }));
+        useProfileDataStore.getState().setSectionData(userId, 'skills', skills);
+      };
+
+      return {
+        skills: {},
+        endorsements: {},
+
+        getSkills: (userId) => get().skills[userId] ?? null,
+
+        getEndorsements: (skillOwnerId, skillId) =>
+          Object.values(get().endorsements)
+            .filter(endorsement => endorsement.skillOwnerId === skillOwnerId && endorsement.skillId === skillId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+
+        hasEndorsed: (skillOwnerId, skillId, endorserId) =>
+          Boolean(get().endorsements[endorsementKey(skillOwnerId, skillId, endorserId)]),
+
+        getEndorseBlocker: (skillOwnerId, skillId) => {
+          const userId = useAuthStore.getState().activeUserId;
+
+          if (!userId) {
+            return 'You need to be logged in';
+          }
+          if (userId === skillOwnerId) {
+            return "You can't endorse your own skills";
+          }
+          if (get().hasEndorsed(skillOwnerId, skillId, userId)) {
+            return 'You have already endorsed this skill';
+          }
+          if (useConnectionStore.getState().getView(userId, skillOwnerId) !== 'connected') {
+            return 'Only connections can endorse skills';
+          }
+          return null;
+        },
+
+        withEndorsements: (skillOwnerId, skills) =>
+          skills.map(skill => ({
+            ...skill,
+            endorsements: skill.endorsements + get().getEndorsements(skillOwnerId, skill.id).length
+          })),
+
+        endorse: async (skillOwnerId, skillId) => {
+          const blocker = get().getEndorseBlocker(skillOwnerId, skillId);
+          if (blocker) {
+            throw new Error(blocker);
+          }
+
+          const user = requireCurrentUser();
+
+          // In a real app, this would use the API:
+          // await api.post(`/users/${skillOwnerId}/skills/${skillId}/endorsements`);
+
+          const id = endorsementKey(skillOwnerId, skillId, user.id);
+          set(state => ({
+            endorsements: {
+              ...state.endorsements,
+              [id]: {
+                id,
+                skillOwnerId,
+                skillId,
+                endorserId: user.id,
+                endorserName: user.name,
+                endorserAvatar: user.avatar,
+                createdAt: new Date().toISOString()
+              }
+            }
+          }));
+        },
+
+        withdrawEndorsement: async (skillOwnerId, skillId) => {
+          const userId = requireCurrentUserId();
+          const id = endorsementKey(skillOwnerId, skillId, userId);
+          if (!get().endorsements[id]) return;
+
+          // In a real app, this would use the API:
+          // await api.delete(`/users/${skillOwnerId}/skills/${skillId}/endorsements`);
+
+          set(state => {
+            const { [id]: _removed, ...endorsements } = state.endorsements;
+            return { endorsements };
+          });
+        },
+
+        addSkill: async (name, level, currentSkills) => {
+          const userId = requireCurrentUserId();
+          const trimmed = name.trim();
+
+          if (!trimmed) {
+            throw new Error('Skill name is required');
+          }
+          if (currentSkills.some(skill => skill.name.toLowerCase() === trimmed.toLowerCase())) {
+            throw new Error(`You already have ${trimmed}`);
+          }
+
+          await saveSkills(userId, [
+            ...currentSkills,
+            { id: Date.now().toString(), name: trimmed, level, endorsements: 0 }
+          ]);
+        },
+
+        updateSkillLevel: async (skillId, level, currentSkills) => {
+          const userId = requireCurrentUserId();
+          await saveSkills(userId, currentSkills.map(skill => (skill.id === skillId ? { ...skill, level } : skill)));
+        },
+
+        removeSkill: async (skillId, currentSkills) => {
+          const userId = requireCurrentUserId();
+          await saveSkills(userId, currentSkills.filter(skill => skill.id !== skillId));
+
+          // Endorsements of a removed skill go with it
+          set(state => ({
+            endorsements: Object.fromEntries(
+              Object.entries(state.endorsements).filter(([, endorsement]) =>
+                !(endorsement.skillOwnerId === userId && endorsement.skillId === skillId)
+              )
+            )
+          }));
+        }
+      };
+    },
+    {
+      name: 'snookiq-skills',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
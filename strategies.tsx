@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/store/auth-store';
+import { useStrategyStore, STRATEGY_TAGS } from '@/store/strategy-store';
+import colors from '@/constants/colors';
+
+type StrategyList = 'all' | 'bookmarked' | 'mine';
+
+const LIST_LABELS: Record<StrategyList, string> = {
+  all: 'All',
+  bookmarked: 'Bookmarked',
+  mine: 'Mine',
+};
+
+export default function StrategiesScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ tag?: string; list?: StrategyList }>();
+  const { activeUserId } = useAuthStore();
+  const strategyStore = useStrategyStore();
+
+  const [list, setList] = useState<StrategyList>(params.list ?? 'all');
+  const [tag, setTag] = useState<string | undefined>(params.tag);
+
+  const articles = (
+    list === 'mine' && activeUserId
+      ? strategyStore.getByAuthor(activeUserId)
+      : list === 'bookmarked' && activeUserId
+        ? strategyStore.getBookmarked(activeUserId)
+        : strategyStore.getPublished()
+  ).filter(article => !tag || article.tags.includes(tag));
+
+  const lists = (Object.keys(LIST_LABELS) as StrategyList[]).filter(item => item === 'all' || activeUserId);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: 'Strategies',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+          headerRight: activeUserId
+            ? () => (
+                <TouchableOpacity onPress={() => router.push('/edit-strategy')}>
+                  <Text style={styles.headerAction}>New</Text>
+                </TouchableOpacity>
+              )
+            : undefined,
+        }}
+      />
+
+      <View style={styles.tabs}>
+        {lists.map(item => (
+          <TouchableOpacity
+            key={item}
+            style={[styles.tab, item === list && styles.tabSelected]}
+            onPress={() => setList(item)}
+          >
+            <Text style={[styles.tabText, item === list && styles.tabTextSelected]}>{LIST_LABELS[item]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.tagBar} contentContainerStyle={styles.tagBarContent}>
+        {Object.entries(STRATEGY_TAGS).map(([key, label]) => (
+          <TouchableOpacity
+            key={key}
+            style={[styles.chip, key === tag && styles.chipSelected]}
+            onPress={() => setTag(key === tag ? undefined : key)}
+          >
+            <Text style={styles.chipText}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <FlatList
+        data={articles}
+        keyExtractor={article => article.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={<Text style={styles.emptyText}>No strategies here yet</Text>}
+        renderItem={({ item: article }) => (
+          <TouchableOpacity
+            style={styles.card}
+            onPress={() => router.push(`/strategy?strategyId=${article.id}`)}
+          >
+            <View style={styles.cardHeader}>
+              <Text style={styles.cardTitle}>{article.title}</Text>
+              {article.status === 'draft' && <Text style={styles.draftBadge}>Draft</Text>}
+            </View>
+            {article.description ? (
+              <Text style={styles.cardDescription} numberOfLines={2}>{article.description}</Text>
+            ) : null}
+            {article.tags.length > 0 && (
+              <Text style={styles.cardTags}>{article.tags.map(item => STRATEGY_TAGS[item] ?? item).join(' · ')}</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  headerAction: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  tabs: {
+    flexDirection: 'row',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  tab: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabSelected: {
+    borderBottomColor: colors.primary,
+  },
+  tabText: {
+    color: colors.textSecondary,
+    fontWeight: 'bold',
+  },
+  tabTextSelected: {
+    color: colors.text,
+  },
+  tagBar: {
+    flexGrow: 0,
+  },
+  tagBarContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.textSecondary,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  draftBadge: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+  cardDescription: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  cardTags: {
+    fontSize: 12,
+    color: colors.primary,
+    marginTop: 6,
+  },
+});
\ No newline at end of file
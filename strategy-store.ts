@@ -0,0 +1,287 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Strategy } from '@/types';
+import { useAuthStore, requireCurrentUserId } from '@/store/auth-store';
+import { useProfileDataStore } from '@/store/profile-data-store';
+import { mockProfiles } from '@/mocks/profiles';
+
+export type BallColor = 'white' | 'red' | 'yellow' | 'green' | 'brown' | 'blue' | 'pink' | 'black';
+
+/**
+ * A ball on a diagram; x and y are fractions (0-1) of the table's length
+ * and width, measured from the baulk cushion and the left side cushion
+ */
+export interface BallPosition {
+  ball: BallColor;
+  x: number;
+  y: number;
+}
+
+export interface TableDiagram {
+  id: string;
+  caption: string;
+  balls: BallPosition[];
+}
+
+export type StrategyStatus = 'draft' | 'published';
+
+/**
+ * A strategy article; `body` is markdown and `description` the short
+ * summary shown on profiles
+ */
+export interface StrategyArticle extends Strategy {
+  authorId: string;
+  body: string;
+  tags: string[];
+  diagrams: TableDiagram[];
+  status: StrategyStatus;
+  createdAt: string;
+  updatedAt: string;
+  publishedAt: string | null;
+}
+
+export type StrategyInput = Pick<StrategyArticle, 'title' | 'description' | 'body' | 'tags' | 'diagrams'>;
+
+export const STRATEGY_TAGS: Record<string, string> = {
+  'safety': 'Safety',
+  'break-building': 'Break Building',
+  'potting': 'Potting',
+  'positional-play': 'Positional Play',
+  'tactics': 'Tactics',
+  'practice': 'Practice Routines',
+};
+
+export const STRATEGY_TITLE_MAX_LENGTH = 100;
+export const STRATEGY_DESCRIPTION_MAX_LENGTH = 300;
+
+interface StrategyState {
+  articles: Record<string, StrategyArticle>;
+  // Bookmarked article ids per user
+  bookmarks: Record<string, string[]>;
+  getArticle: (id: string) => StrategyArticle | null;
+  // Published articles by the author, plus drafts when the author is the current user
+  getByAuthor: (authorId: string) => StrategyArticle[];
+  getPublished: (tag?: string) => StrategyArticle[];
+  getBookmarked: (userId: string) => StrategyArticle[];
+  isBookmarked: (id: string, userId: string) => boolean;
+  saveDraft: (input: StrategyInput, id?: string) => Promise<StrategyArticle>;
+  publish: (id: string) => Promise<void>;
+  unpublish: (id: string) => Promise<void>;
+  deleteArticle: (id: string) => Promise<void>;
+  toggleBookmark: (id: string) => Promise<void>;
+}
+
+const newestFirst = (a: StrategyArticle, b: StrategyArticle) =>
+  (b.publishedAt ?? b.updatedAt).localeCompare(a.publishedAt ?? a.updatedAt);
+
+// The mock profiles' strategies become published articles by that player
+const seed = (): Record<string, StrategyArticle> => {
+  const createdAt = new Date(2023, 0, 1).toISOString();
+
+  return Object.fromEntries(
+    Object.entries(mockProfiles).flatMap(([authorId, profile]) =>
+      profile.strategies.map(strategy => [strategy.id, {
+        ...strategy,
+        authorId,
+        body: strategy.description,
+        tags: [],
+        diagrams: [],
+        status: 'published' as StrategyStatus,
+        createdAt,
+        updatedAt: createdAt,
+        publishedAt: createdAt
+      }])
+    )
+  );
+};
+
+const validateInput = ({ title, description, tags, diagrams }: StrategyInput) => {
+  if (!title.trim()) {
+    throw new Error('Title is required');
+  }
+  if (title.trim().length > STRATEGY_TITLE_MAX_LENGTH) {
+    throw new Error(`Title must be ${STRATEGY_TITLE_MAX_LENGTH} characters or fewer`);
+  }
+  if (description.trim().length > STRATEGY_DESCRIPTION_MAX_LENGTH) {
+    throw new Error(`Summary must be ${STRATEGY_DESCRIPTION_MAX_LENGTH} characters or fewer`);
+  }
+  const unknownTag = tags.find(tag => !STRATEGY_TAGS[tag]);
+  if (unknownTag) {
+    throw new Error(`Unknown tag: ${unknownTag}`);
+  }
+  const offTable = diagrams.some(diagram =>
+    diagram.balls.some(ball => ball.x < 0 || ball.x > 1 || ball.y < 0 || ball.y > 1)
+  );
+  if (offTable) {
+    throw new Error('Diagram balls must be on the table');
+  }
+};
+
+/**
+ * Strategy store using Zustand
+ *
+ * Articles start as drafts visible only to their author and can be
+ * published (and unpublished) when ready. Any player can bookmark published
+ * articles.
+ *
+ * Required API endpoints:
+ * - GET /strategies?tag= - Published articles, optionally by tag
+ * - GET /users/:id/strategies - A user's articles (drafts only for the author)
+ * - POST /strategies - Create a draft
+ * - PUT /strategies/:id - Update an article
+ * - POST /strategies/:id/publish - Publish an article
+ * - DELETE /strategies/:id/publish - Return an article to drafts
+ * - DELETE /strategies/:id - Delete an article
+ * - GET /users/me/bookmarks - Bookmarked articles
+ * - POST /strategies/:id/bookmark - Bookmark an article
+ * - DELETE /strategies/:id/bookmark - Remove a bookmark
+ */
+export const useStrategyStore = create<StrategyState>()(
+  persist(
+    (set, get) => {
+      // Profiles load articles as the `strategies` section, refetched after every change
+      const save = (article: StrategyArticle) => {
+        set(state => ({ articles: { ...state.articles, [article.id]: article } }));
+        useProfileDataStore.getState().invalidate(article.authorId, 'strategies');
+      };
+
+      const requireOwnArticle = (id: string) => {
+        const userId = requireCurrentUserId();
+        const article = get().getArticle(id);
+        if (!article || article.authorId !== userId) {
+          throw new Error('You can only change your own strategies');
+        }
+        return article;
+      };
+
+      return {
+        articles: seed(),
+        bookmarks: {},
+
+        getArticle: (id) => get().articles[id] ?? null,
+
+        getByAuthor: (authorId) => {
+          const isAuthor = useAuthStore.getState().activeUserId === authorId;
+          return Object.values(get().articles)
+            .filter(article => article.authorId === authorId && (isAuthor || article.status === 'published'))
+            .sort(newestFirst);
+        },
+
+        getPublished: (tag) =>
+          Object.values(get().articles)
+            .filter(article => article.status === 'published' && (!tag || article.tags.includes(tag)))
+            .sort(newestFirst),
+
+        getBookmarked: (userId) =>
+          (get().bookmarks[userId] ?? [])
+            .map(id => get().getArticle(id))
+            .filter((article): article is StrategyArticle => article?.status === 'published'),
+
+        isBookmarked: (id, userId) => (get().bookmarks[userId] ?? []).includes(id),
+
+        saveDraft: async (input, id) => {
+          const userId = requireCurrentUserId();
+          validateInput(input);
+
+          const now = new Date().toISOString();
+          const fields = {
+            title: input.title.trim(),
+            description: input.description.trim(),
+            body: input.body,
+            tags: input.tags,
+            diagrams: input.diagrams
+          };
+
+          if (id) {
+            const existing = requireOwnArticle(id);
+
+            // In a real app, this would use the API:
+            // await api.put(`/strategies/${id}`, fields);
+
+            const updated = { ...existing, ...fields, updatedAt: now };
+            save(updated);
+            return updated;
+          }
+
+          // In a real app, this would use the API:
+          // const response = await api.post('/strategies', fields);
+
+          const article: StrategyArticle = {
+            id: Date.now().toString(),
+            authorId: userId,
+            ...fields,
+            status: 'draft',
+            createdAt: now,
+            updatedAt: now,
+            publishedAt: null
+          };
+          save(article);
+          return article;
+        },
+
+        publish: async (id) => {
+          const article = requireOwnArticle(id);
+          if (article.status === 'published') return;
+          if (!article.body.trim()) {
+            throw new Error('Write the article before publishing it');
+          }
+
+          // In a real app, this would use the API:
+          // await api.post(`/strategies/${id}/publish`);
+
+          const now = new Date().toISOString();
+          save({ ...article, status: 'published', publishedAt: article.publishedAt ?? now, updatedAt: now });
+        },
+
+        unpublish: async (id) => {
+          const article = requireOwnArticle(id);
+          if (article.status === 'draft') return;
+
+          // In a real app, this would use the API:
+          // await api.delete(`/strategies/${id}/publish`);
+
+          save({ ...article, status: 'draft', updatedAt: new Date().toISOString() });
+        },
+
+        deleteArticle: async (id) => {
+          const article = requireOwnArticle(id);
+
+          // In a real app, this would use the API:
+          // await api.delete(`/strategies/${id}`);
+
+          set(state => {
+            const { [id]: _removed, ...articles } = state.articles;
+            const bookmarks = Object.fromEntries(
+              Object.entries(state.bookmarks).map(([userId, ids]) => [userId, ids.filter(item => item !== id)])
+            );
+            return { articles, bookmarks };
+          });
+          useProfileDataStore.getState().invalidate(article.authorId, 'strategies');
+        },
+
+        toggleBookmark: async (id) => {
+          const userId = requireCurrentUserId();
+          const article = get().getArticle(id);
+          if (article?.status !== 'published') {
+            throw new Error('Only published strategies can be bookmarked');
+          }
+
+          const bookmarked = get().isBookmarked(id, userId);
+
+          // In a real app, this would use the API:
+          // await (bookmarked ? api.delete : api.post)(`/strategies/${id}/bookmark`);
+
+          set(state => {
+            const others = (state.bookmarks[userId] ?? []).filter(item => item !== id);
+            return { bookmarks: { ...state.bookmarks, [userId]: bookmarked ? others : [...others, id] } };
+          });
+        }
+      };
+    },
+    {
+      name: 'snookiq-strategies',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
\ No newline at end of file
@@ -0,0 +1,190 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert
+} from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Markdown from 'react-native-markdown-display';
+import { useAuthStore } from '@/store/auth-store';
+import { useStrategyStore, STRATEGY_TAGS } from '@/store/strategy-store';
+import { useProfileSection } from '@/store/profile-data-store';
+import { TableDiagramView } from '@/components/strategy/TableDiagramView';
+import colors from '@/constants/colors';
+
+export default function StrategyScreen() {
+  const router = useRouter();
+  const { strategyId } = useLocalSearchParams<{ strategyId: string }>();
+  const { activeUserId } = useAuthStore();
+  const strategyStore = useStrategyStore();
+
+  const article = strategyId ? strategyStore.getArticle(strategyId) : null;
+  const { data: author } = useProfileSection(article?.authorId, 'user');
+
+  const isAuthor = Boolean(activeUserId) && article?.authorId === activeUserId;
+
+  // Drafts are only visible to their author
+  if (!article || (article.status === 'draft' && !isAuthor)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Stack.Screen options={{ title: 'Strategy' }} />
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>Strategy not found</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isBookmarked = activeUserId ? strategyStore.isBookmarked(article.id, activeUserId) : false;
+
+  const handleToggleBookmark = async () => {
+    try {
+      await strategyStore.toggleBookmark(article.id);
+    } catch (error) {
+      console.error('Error updating bookmark:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update bookmark');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          title: article.status === 'draft' ? 'Draft' : 'Strategy',
+          headerStyle: {
+            backgroundColor: colors.card,
+          },
+          headerTintColor: colors.text,
+          headerShadowVisible: false,
+          headerRight: () => isAuthor ? (
+            <TouchableOpacity onPress={() => router.push(`/edit-strategy?strategyId=${article.id}`)}>
+              <Text style={styles.headerAction}>Edit</Text>
+            </TouchableOpacity>
+          ) : activeUserId && article.status === 'published' ? (
+            <TouchableOpacity onPress={handleToggleBookmark}>
+              <Text style={styles.headerAction}>{isBookmarked ? 'Bookmarked' : 'Bookmark'}</Text>
+            </TouchableOpacity>
+          ) : null,
+        }}
+      />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <Text style={styles.title}>{article.title}</Text>
+        <TouchableOpacity onPress={() => router.push(`/profile?userId=${article.authorId}`)}>
+          <Text style={styles.meta}>
+            {author?.name ?? 'Unknown player'}
+            {article.publishedAt ? ` · ${new Date(article.publishedAt).toLocaleDateString()}` : ''}
+          </Text>
+        </TouchableOpacity>
+
+        {article.tags.length > 0 && (
+          <View style={styles.tags}>
+            {article.tags.map(tag => (
+              <TouchableOpacity
+                key={tag}
+                style={styles.tag}
+                onPress={() => router.push(`/strategies?tag=${tag}`)}
+              >
+                <Text style={styles.tagText}>{STRATEGY_TAGS[tag] ?? tag}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        <Markdown style={markdownStyles}>{article.body}</Markdown>
+
+        {article.diagrams.map(diagram => (
+          <TableDiagramView key={diagram.id} diagram={diagram} />
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const markdownStyles = StyleSheet.create({
+  body: {
+    color: colors.text,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  heading1: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  heading2: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  link: {
+    color: colors.primary,
+  },
+  code_inline: {
+    backgroundColor: colors.card,
+  },
+  blockquote: {
+    backgroundColor: colors.card,
+  },
+});
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  headerAction: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  meta: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  tag: {
+    backgroundColor: colors.card,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  tagText: {
+    fontSize: 13,
+    color: colors.primary,
+  },
+});
\ No newline at end of file
@@ -0,0 +1,128 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User } from '@/types';
+import { users } from '@/mocks/users';
+import { PasswordHash, hashPassword } from '@/utils/password-hash';
+
+// Password of every seeded mock user, for logging in during development
+export const MOCK_USER_PASSWORD = 'Snooker123';
+
+export interface RegistryAccount {
+  user: User;
+  password: PasswordHash;
+  emailVerified: boolean;
+  verificationCode: string | null;
+  // Epoch milliseconds after which verificationCode is no longer accepted
+  verificationExpiresAt: number | null;
+  passwordResetToken: string | null;
+  passwordResetExpiresAt: number | null;
+}
+
+/**
+ * Account storage behind the auth providers
+ *
+ * Only a mock implementation exists for now; with the HTTP provider the
+ * server owns the accounts. A registry talking to the API can implement the
+ * same interface once the mock provider is retired.
+ */
+export interface UserRegistry {
+  list: () => Promise<RegistryAccount[]>;
+  findById: (id: string) => Promise<RegistryAccount | null>;
+  findByEmail: (email: string) => Promise<RegistryAccount | null>;
+  findByUsername: (username: string) => Promise<RegistryAccount | null>;
+  findByPasswordResetToken: (token: string) => Promise<RegistryAccount | null>;
+  create: (user: Omit<User, 'id'>, password: PasswordHash) => Promise<RegistryAccount>;
+  update: (id: string, data: Partial<Omit<RegistryAccount, 'user'>> & { user?: Partial<User> }) => Promise<RegistryAccount>;
+}
+
+const STORAGE_KEY = 'snookiq-mock-registry';
+
+let accounts: RegistryAccount[] | null = null;
+
+const seedAccount = async (user: User): Promise<RegistryAccount> => ({
+  user,
+  password: await hashPassword(MOCK_USER_PASSWORD),
+  emailVerified: true,
+  verificationCode: null,
+  verificationExpiresAt: null,
+  passwordResetToken: null,
+  passwordResetExpiresAt: null,
+});
+
+// Stored accounts, plus any mock users added since they were saved
+const load = async (): Promise<RegistryAccount[]> => {
+  if (!accounts) {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    // Accounts saved before passwords were stored get the mock password
+    const stored: RegistryAccount[] = await Promise.all(
+      (raw ? JSON.parse(raw) as RegistryAccount[] : []).map(async account =>
+        account.password ? account : { ...(await seedAccount(account.user)), ...account }
+      )
+    );
+    const missing = users.filter(user => !stored.some(account => account.user.id === user.id));
+    accounts = [...stored, ...(await Promise.all(missing.map(seedAccount)))];
+  }
+  return accounts;
+};
+
+const save = async () => {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(accounts));
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * User registry for the mock auth provider
+ *
+ * Seeded with the mock users (all verified, password MOCK_USER_PASSWORD) and
+ * persisted to AsyncStorage so accounts created through signup survive an app
+ * restart.
+ */
+export const mockUserRegistry: UserRegistry = {
+  list: async () => [...(await load())],
+
+  findById: async (id) => (await load()).find(account => account.user.id === id) ?? null,
+
+  findByEmail: async (email) => (await load()).find(account => sameText(account.user.email, email)) ?? null,
+
+  findByUsername: async (username) =>
+    (await load()).find(account => sameText(account.user.username, username)) ?? null,
+
+  findByPasswordResetToken: async (token) =>
+    (await load()).find(account => account.passwordResetToken === token) ?? null,
+
+  create: async (user, password) => {
+    const all = await load();
+    const nextId = all.reduce((max, account) => Math.max(max, Number(account.user.id) || 0), 0) + 1;
+    const account: RegistryAccount = {
+      user: { ...user, id: nextId.toString() },
+      password,
+      emailVerified: false,
+      verificationCode: null,
+      verificationExpiresAt: null,
+      passwordResetToken: null,
+      passwordResetExpiresAt: null,
+    };
+
+    accounts = [...all, account];
+    await save();
+    return account;
+  },
+
+  update: async (id, { user, ...data }) => {
+    const all = await load();
+    const existing = all.find(account => account.user.id === id);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+
+    const updated: RegistryAccount = {
+      ...existing,
+      ...data,
+      user: { ...existing.user, ...user, id },
+    };
+
+    accounts = all.map(account => (account.user.id === id ? updated : account));
+    await save();
+    return updated;
+  },
+};
\ No newline at end of file